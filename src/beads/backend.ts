@@ -0,0 +1,88 @@
+import { BeadsCli } from './cli.js';
+import { BeadsJsonl } from './jsonl-backend.js';
+import type { JsonlIssue } from './jsonl-format.js';
+
+export interface BeadsCreateResult {
+  id: string;
+  title: string;
+}
+
+export interface BeadsIssue {
+  id: string;
+  title: string;
+  description: string;
+  status: string;
+  priority: number;
+  dependencies: string[];
+}
+
+export interface BeadsIssueUpdate {
+  title?: string;
+  description?: string;
+  priority?: number;
+}
+
+/** The Beads operations tm2bd needs, independent of how they reach Beads. */
+export interface BeadsBackend {
+  createEpic(
+    title: string,
+    description: string,
+    priority: number,
+    parentId?: string,
+  ): Promise<BeadsCreateResult>;
+  createChild(
+    parentId: string,
+    title: string,
+    description: string,
+    issueType?: string,
+  ): Promise<BeadsCreateResult>;
+  addDependency(blockedId: string, blockingId: string): Promise<void>;
+  removeDependency(blockedId: string, blockingId: string): Promise<void>;
+  updateIssue(issueId: string, changes: BeadsIssueUpdate): Promise<void>;
+  show(issueId: string): Promise<BeadsIssue>;
+  updateStatus(issueId: string, status: string): Promise<void>;
+  close(issueId: string): Promise<void>;
+  addLabel(issueId: string, label: string): Promise<void>;
+  removeLabel(issueId: string, label: string): Promise<void>;
+  /** Permanently delete an issue and the dependencies that refer to it. */
+  deleteIssue(issueId: string): Promise<void>;
+  checkInit(): Promise<boolean>;
+  /**
+   * Prefix of the project's issue IDs: `issue-prefix` from
+   * .beads/config.yaml, or the directory name bd init defaults to.
+   */
+  getIssuePrefix(): Promise<string>;
+}
+
+/** Backends that can write a whole batch of issues in one `bd import`. */
+export interface BeadsBulkImporter {
+  /** Whether the installed bd has an import command. */
+  supportsImport(): Promise<boolean>;
+  /** Every issue in the project, as `bd export` writes it. */
+  exportIssues(): Promise<JsonlIssue[]>;
+  importIssues(issues: JsonlIssue[]): Promise<void>;
+}
+
+export function isBulkImporter(
+  backend: BeadsBackend,
+): backend is BeadsBackend & BeadsBulkImporter {
+  return 'importIssues' in backend;
+}
+
+/** Where verbose backends write the commands they run. */
+export type TraceWriter = (line: string) => void;
+
+export type BackendKind = 'cli' | 'jsonl';
+
+export const BACKEND_KINDS: BackendKind[] = ['cli', 'jsonl'];
+
+export function createBackend(
+  kind: BackendKind,
+  projectPath: string,
+  verbose: boolean = false,
+  trace: TraceWriter = console.log,
+): BeadsBackend {
+  return kind === 'jsonl'
+    ? new BeadsJsonl(projectPath, verbose, trace)
+    : new BeadsCli(projectPath, verbose, trace);
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { BeadsCli } from './cli.js';
+import { BeadsNotFoundError } from '../errors.js';
 
 vi.mock('execa', () => ({
   execa: vi.fn(),
@@ -8,6 +9,10 @@ vi.mock('execa', () => ({
 vi.mock('fs/promises', () => ({
   default: {
     access: vi.fn(),
+    mkdtemp: vi.fn(async (prefix: string) => `${prefix}tmp`),
+    writeFile: vi.fn(),
+    readFile: vi.fn(),
+    rm: vi.fn(),
   },
 }));
 
@@ -16,6 +21,8 @@ import fs from 'fs/promises';
 
 const mockExeca = vi.mocked(execa);
 const mockAccess = vi.mocked(fs.access);
+const mockWriteFile = vi.mocked(fs.writeFile);
+const mockReadFile = vi.mocked(fs.readFile);
 
 describe('BeadsCli', () => {
   let cli: BeadsCli;
@@ -38,6 +45,14 @@ describe('BeadsCli', () => {
       expect(result.title).toBe('My Epic');
     });
 
+    it('nests under a parent when given', async () => {
+      mockExeca.mockResolvedValue({ stdout: '{"id":"bd-tag.1","title":"T"}' } as any);
+      await cli.createEpic('T', '', 1, 'bd-tag');
+      expect(mockExeca.mock.calls[0][1]).toEqual(
+        ['create', 'T', '-t', 'epic', '-p', '1', '--json', '--parent', 'bd-tag'],
+      );
+    });
+
     it('skips description flag when empty', async () => {
       mockExeca.mockResolvedValue({ stdout: '{"id":"bd-abc","title":"T"}' } as any);
       await cli.createEpic('T', '', 1);
@@ -71,6 +86,63 @@ describe('BeadsCli', () => {
     });
   });
 
+  describe('removeDependency', () => {
+    it('calls bd dep remove with correct order', async () => {
+      mockExeca.mockResolvedValue({ stdout: '' } as any);
+      await cli.removeDependency('bd-blocked', 'bd-blocker');
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['dep', 'remove', 'bd-blocked', 'bd-blocker'],
+        { cwd: '/project' },
+      );
+    });
+  });
+
+  describe('updateIssue', () => {
+    it('passes only the changed fields', async () => {
+      mockExeca.mockResolvedValue({ stdout: '' } as any);
+      await cli.updateIssue('bd-abc', { title: 'New', priority: 1 });
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['update', 'bd-abc', '--title', 'New', '-p', '1'],
+        { cwd: '/project' },
+      );
+    });
+  });
+
+  describe('show', () => {
+    it('parses issue fields and blocking dependencies', async () => {
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify([{
+          id: 'bd-abc.2',
+          title: 'Child',
+          description: 'Desc',
+          status: 'in_progress',
+          priority: 1,
+          dependencies: [
+            { issue_id: 'bd-abc.2', depends_on_id: 'bd-abc', type: 'parent-child' },
+            { issue_id: 'bd-abc.2', depends_on_id: 'bd-abc.1', type: 'blocks' },
+          ],
+        }]),
+      } as any);
+      const issue = await cli.show('bd-abc.2');
+      expect(mockExeca).toHaveBeenCalledWith('bd', ['show', 'bd-abc.2', '--json'], { cwd: '/project' });
+      expect(issue).toEqual({
+        id: 'bd-abc.2',
+        title: 'Child',
+        description: 'Desc',
+        status: 'in_progress',
+        priority: 1,
+        dependencies: ['bd-abc.1'],
+      });
+    });
+
+    it('throws on missing id field', async () => {
+      mockExeca.mockResolvedValue({ stdout: '[]' } as any);
+      await expect(cli.show('bd-abc')).rejects.toThrow('missing id');
+    });
+  });
+
   describe('updateStatus', () => {
     it('calls bd update with status flag', async () => {
       mockExeca.mockResolvedValue({ stdout: '' } as any);
@@ -107,6 +179,43 @@ describe('BeadsCli', () => {
     });
   });
 
+  describe('deleteIssue', () => {
+    it('forces bd delete past its preview', async () => {
+      mockExeca.mockResolvedValue({ stdout: '' } as any);
+      await cli.deleteIssue('bd-abc');
+      expect(mockExeca).toHaveBeenCalledWith('bd', ['delete', 'bd-abc', '--force'], { cwd: '/project' });
+    });
+  });
+
+  describe('bulk import', () => {
+    it('detects import support from bd import --help', async () => {
+      mockExeca.mockResolvedValue({ stdout: 'Usage: bd import' } as any);
+      expect(await cli.supportsImport()).toBe(true);
+
+      const oldCli = new BeadsCli('/project');
+      mockExeca.mockRejectedValue(new Error('unknown command "import"'));
+      expect(await oldCli.supportsImport()).toBe(false);
+    });
+
+    it('imports through a temporary JSONL file', async () => {
+      mockExeca.mockResolvedValue({ stdout: '' } as any);
+      const issue = { id: 'p-1', title: 'T', status: 'open', priority: 1, issue_type: 'epic', created_at: '', updated_at: '' };
+      await cli.importIssues([issue]);
+
+      const [file, content] = mockWriteFile.mock.calls[0];
+      expect(content).toBe(JSON.stringify(issue) + '\n');
+      expect(mockExeca).toHaveBeenCalledWith('bd', ['import', '-i', file], { cwd: '/project' });
+    });
+
+    it('reads issues back from bd export', async () => {
+      mockExeca.mockResolvedValue({ stdout: '' } as any);
+      mockReadFile.mockResolvedValue('{"id":"p-1","external_ref":"tm2bd:1"}\n' as any);
+      const issues = await cli.exportIssues();
+      expect(mockExeca).toHaveBeenCalledWith('bd', ['export', '-o', expect.any(String)], { cwd: '/project' });
+      expect(issues).toEqual([{ id: 'p-1', external_ref: 'tm2bd:1' }]);
+    });
+  });
+
   describe('error handling', () => {
     it('throws on invalid JSON output', async () => {
       mockExeca.mockResolvedValue({ stdout: 'not json' } as any);
@@ -118,9 +227,27 @@ describe('BeadsCli', () => {
       await expect(cli.createEpic('T', 'D', 0)).rejects.toThrow('missing id');
     });
 
-    it('propagates execa errors', async () => {
+    it('propagates execa errors as bd failures', async () => {
       mockExeca.mockRejectedValue(new Error('command not found'));
-      await expect(cli.createEpic('T', 'D', 0)).rejects.toThrow('command not found');
+      await expect(cli.createEpic('T', 'D', 0)).rejects.toMatchObject({
+        message: 'command not found',
+        failure: 'bd-failure',
+      });
+      await expect(cli.createEpic('T', 'D', 0)).rejects.not.toBeInstanceOf(BeadsNotFoundError);
+    });
+
+    it('tells a missing issue apart by what bd says on stderr', async () => {
+      mockExeca.mockRejectedValue(
+        Object.assign(new Error('Command failed: bd dep remove bd-2 bd-1'), { stderr: 'Error: issue bd-2 not found' }),
+      );
+      await expect(cli.removeDependency('bd-2', 'bd-1')).rejects.toBeInstanceOf(BeadsNotFoundError);
+      await expect(cli.removeDependency('bd-2', 'bd-1')).rejects.toMatchObject({ failure: 'bd-failure' });
+    });
+
+    it('reports a missing bd binary', async () => {
+      mockExeca.mockRejectedValue(Object.assign(new Error('spawn bd ENOENT'), { code: 'ENOENT' }));
+      await expect(cli.show('bd-abc')).rejects.toMatchObject({ failure: 'bd-missing' });
+      await expect(cli.show('bd-abc')).rejects.toThrow('bd not found on PATH');
     });
   });
 
@@ -133,5 +260,13 @@ describe('BeadsCli', () => {
       expect(spy).toHaveBeenCalledWith(expect.stringContaining('[bd]'));
       spy.mockRestore();
     });
+
+    it('writes commands through the given trace writer', async () => {
+      const trace = vi.fn();
+      const tracedCli = new BeadsCli('/project', true, trace);
+      mockExeca.mockResolvedValue({ stdout: '{"id":"bd-x","title":"T"}' } as any);
+      await tracedCli.createEpic('T', '', 0);
+      expect(trace).toHaveBeenCalledWith(expect.stringContaining('[bd] bd create T'));
+    });
   });
 });
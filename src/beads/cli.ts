@@ -1,25 +1,54 @@
 import { execa } from 'execa';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
+import type {
+  BeadsBackend,
+  BeadsBulkImporter,
+  BeadsCreateResult,
+  BeadsIssue,
+  BeadsIssueUpdate,
+  TraceWriter,
+} from './backend.js';
+import { issuePrefix, parseJsonl, readBeadsConfig, serializeJsonl } from './jsonl-format.js';
+import type { JsonlIssue } from './jsonl-format.js';
+import { BeadsNotFoundError, Tm2bdError } from '../errors.js';
 
-export interface BeadsCreateResult {
-  id: string;
-  title: string;
-}
+export type { BeadsCreateResult, BeadsIssue, BeadsIssueUpdate } from './backend.js';
+
+/** How bd reports an issue or dependency that does not exist, on stderr. */
+const NOT_FOUND = /\b(?:not found|no issue found|does not exist)\b/i;
+
+export class BeadsCli implements BeadsBackend, BeadsBulkImporter {
+  private importSupported?: boolean;
 
-export class BeadsCli {
   constructor(
     private projectPath: string,
     private verbose: boolean = false,
+    private trace: TraceWriter = console.log,
   ) {}
 
   private async exec(args: string[]): Promise<string> {
     if (this.verbose) {
-      console.log(`[bd] bd ${args.join(' ')}`);
+      this.trace(`[bd] bd ${args.join(' ')}`);
+    }
+    let result;
+    try {
+      result = await execa('bd', args, { cwd: this.projectPath });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Tm2bdError('bd not found on PATH. Install Beads or use --backend jsonl.', 'bd-missing', {
+          cause: error,
+        });
+      }
+      // Only stderr: the message repeats the command line, titles included
+      if (NOT_FOUND.test((error as { stderr?: string }).stderr ?? '')) {
+        throw new BeadsNotFoundError((error as Error).message, { cause: error });
+      }
+      throw new Tm2bdError((error as Error).message, 'bd-failure', { cause: error });
     }
-    const result = await execa('bd', args, { cwd: this.projectPath });
     if (this.verbose && result.stdout) {
-      console.log(result.stdout);
+      this.trace(result.stdout);
     }
     return result.stdout;
   }
@@ -28,8 +57,12 @@ export class BeadsCli {
     title: string,
     description: string,
     priority: number,
+    parentId?: string,
   ): Promise<BeadsCreateResult> {
     const args = ['create', title, '-t', 'epic', '-p', priority.toString(), '--json'];
+    if (parentId) {
+      args.push('--parent', parentId);
+    }
     if (description) {
       args.push('-d', description);
     }
@@ -41,8 +74,12 @@ export class BeadsCli {
     parentId: string,
     title: string,
     description: string,
+    issueType?: string,
   ): Promise<BeadsCreateResult> {
     const args = ['create', title, '--parent', parentId, '--json'];
+    if (issueType) {
+      args.push('-t', issueType);
+    }
     if (description) {
       args.push('-d', description);
     }
@@ -54,6 +91,29 @@ export class BeadsCli {
     await this.exec(['dep', 'add', blockedId, blockingId]);
   }
 
+  async removeDependency(blockedId: string, blockingId: string): Promise<void> {
+    await this.exec(['dep', 'remove', blockedId, blockingId]);
+  }
+
+  async updateIssue(issueId: string, changes: BeadsIssueUpdate): Promise<void> {
+    const args = ['update', issueId];
+    if (changes.title !== undefined) {
+      args.push('--title', changes.title);
+    }
+    if (changes.description !== undefined) {
+      args.push('-d', changes.description);
+    }
+    if (changes.priority !== undefined) {
+      args.push('-p', changes.priority.toString());
+    }
+    await this.exec(args);
+  }
+
+  async show(issueId: string): Promise<BeadsIssue> {
+    const output = await this.exec(['show', issueId, '--json']);
+    return this.parseShowOutput(output);
+  }
+
   async updateStatus(issueId: string, status: string): Promise<void> {
     await this.exec(['update', issueId, '-s', status]);
   }
@@ -66,6 +126,55 @@ export class BeadsCli {
     await this.exec(['update', issueId, '--add-label', label]);
   }
 
+  async removeLabel(issueId: string, label: string): Promise<void> {
+    await this.exec(['update', issueId, '--remove-label', label]);
+  }
+
+  async deleteIssue(issueId: string): Promise<void> {
+    // Without --force bd only previews the deletion
+    await this.exec(['delete', issueId, '--force']);
+  }
+
+  async supportsImport(): Promise<boolean> {
+    if (this.importSupported === undefined) {
+      try {
+        await this.exec(['import', '--help']);
+        this.importSupported = true;
+      } catch {
+        this.importSupported = false;
+      }
+    }
+    return this.importSupported;
+  }
+
+  async getIssuePrefix(): Promise<string> {
+    const config = await readBeadsConfig(path.join(this.projectPath, '.beads'));
+    return issuePrefix(config, this.projectPath);
+  }
+
+  async exportIssues(): Promise<JsonlIssue[]> {
+    return this.withTempFile(async (file) => {
+      await this.exec(['export', '-o', file]);
+      return parseJsonl(await fs.readFile(file, 'utf-8'), 'bd export output');
+    });
+  }
+
+  async importIssues(issues: JsonlIssue[]): Promise<void> {
+    await this.withTempFile(async (file) => {
+      await fs.writeFile(file, serializeJsonl(issues), 'utf-8');
+      await this.exec(['import', '-i', file]);
+    });
+  }
+
+  private async withTempFile<T>(fn: (file: string) => Promise<T>): Promise<T> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-'));
+    try {
+      return await fn(path.join(dir, 'issues.jsonl'));
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
   async checkInit(): Promise<boolean> {
     try {
       await fs.access(path.join(this.projectPath, '.beads'));
@@ -80,12 +189,12 @@ export class BeadsCli {
     try {
       parsed = JSON.parse(output);
     } catch {
-      throw new Error(`Failed to parse bd output as JSON: ${output}`);
+      throw new Tm2bdError(`Failed to parse bd output as JSON: ${output}`, 'bd-failure');
     }
 
     const obj = parsed as Record<string, unknown>;
     if (typeof obj.id !== 'string' || !obj.id) {
-      throw new Error(`Unexpected bd create output: missing id field`);
+      throw new Tm2bdError(`Unexpected bd create output: missing id field`, 'bd-failure');
     }
 
     return {
@@ -93,4 +202,35 @@ export class BeadsCli {
       title: (obj.title as string) ?? '',
     };
   }
+
+  private parseShowOutput(output: string): BeadsIssue {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(output);
+    } catch {
+      throw new Tm2bdError(`Failed to parse bd output as JSON: ${output}`, 'bd-failure');
+    }
+
+    // bd show --json returns an array, even for a single ID
+    const obj = (Array.isArray(parsed) ? parsed[0] : parsed) as Record<string, unknown> | undefined;
+    if (!obj || typeof obj.id !== 'string' || !obj.id) {
+      throw new Tm2bdError(`Unexpected bd show output: missing id field`, 'bd-failure');
+    }
+
+    const rawDeps = Array.isArray(obj.dependencies) ? obj.dependencies : [];
+    const dependencies = rawDeps
+      .map((d) => d as Record<string, unknown>)
+      .filter((d) => (d.dependency_type ?? d.type ?? 'blocks') === 'blocks')
+      .map((d) => (d.depends_on_id ?? d.id) as string)
+      .filter((id) => typeof id === 'string' && id !== '');
+
+    return {
+      id: obj.id,
+      title: (obj.title as string) ?? '',
+      description: (obj.description as string) ?? '',
+      status: (obj.status as string) ?? 'open',
+      priority: typeof obj.priority === 'number' ? obj.priority : 2,
+      dependencies,
+    };
+  }
 }
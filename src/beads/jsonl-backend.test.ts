@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { BeadsJsonl } from './jsonl-backend.js';
+import { BeadsNotFoundError } from '../errors.js';
+
+const existing = {
+  id: 'proj-abc',
+  title: 'Existing',
+  status: 'open',
+  priority: 1,
+  issue_type: 'task',
+  owner: 'someone@example.com',
+  created_at: '2026-02-21T01:02:41Z',
+  updated_at: '2026-02-21T01:02:41Z',
+};
+
+describe('BeadsJsonl', () => {
+  let projectDir: string;
+  let issuesFile: string;
+
+  async function readIssues(): Promise<any[]> {
+    const content = await fs.readFile(issuesFile, 'utf-8');
+    return content.trim().split('\n').map((line) => JSON.parse(line));
+  }
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-jsonl-'));
+    issuesFile = path.join(projectDir, '.beads', 'issues.jsonl');
+    await fs.mkdir(path.join(projectDir, '.beads'));
+    await fs.writeFile(
+      path.join(projectDir, '.beads', 'config.yaml'),
+      '# bd config\nissue-prefix: "proj"\nno-db: true\n',
+    );
+    await fs.writeFile(issuesFile, JSON.stringify(existing) + '\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true });
+  });
+
+  it('creates epics with the configured prefix and keeps existing records', async () => {
+    const backend = new BeadsJsonl(projectDir);
+    const result = await backend.createEpic('My Epic', 'Desc', 0);
+
+    expect(result.id).toMatch(/^proj-[0-9a-z]{3}$/);
+    const issues = await readIssues();
+    expect(issues[0]).toEqual(existing);
+    expect(issues[1]).toMatchObject({
+      id: result.id,
+      title: 'My Epic',
+      description: 'Desc',
+      status: 'open',
+      priority: 0,
+      issue_type: 'epic',
+    });
+    expect(issues[1].created_at).toMatch(/^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ$/);
+  });
+
+  it('handles concurrent calls from a fresh instance', async () => {
+    const backend = new BeadsJsonl(projectDir);
+    const children = await Promise.all(
+      [1, 2, 3, 4].map((n) => backend.createChild('proj-abc', `Child ${n}`, '')),
+    );
+
+    expect(children.map((c) => c.id)).toEqual(['proj-abc.1', 'proj-abc.2', 'proj-abc.3', 'proj-abc.4']);
+    expect((await readIssues()).map((i) => i.id)).toEqual([
+      'proj-abc',
+      'proj-abc.1',
+      'proj-abc.2',
+      'proj-abc.3',
+      'proj-abc.4',
+    ]);
+  });
+
+  it('numbers children under their parent with a parent-child dependency', async () => {
+    const backend = new BeadsJsonl(projectDir);
+    const epic = await backend.createEpic('Epic', '', 1);
+    const first = await backend.createChild(epic.id, 'First', 'D');
+    const second = await backend.createChild(epic.id, 'Second', 'D');
+
+    expect(first.id).toBe(`${epic.id}.1`);
+    expect(second.id).toBe(`${epic.id}.2`);
+    const child = (await readIssues()).find((i) => i.id === first.id);
+    expect(child.issue_type).toBe('task');
+    expect(child.dependencies).toEqual([
+      expect.objectContaining({ issue_id: first.id, depends_on_id: epic.id, type: 'parent-child' }),
+    ]);
+  });
+
+  it('adds and removes blocking dependencies', async () => {
+    const backend = new BeadsJsonl(projectDir);
+    const epic = await backend.createEpic('Epic', '', 1);
+    await backend.addDependency(epic.id, 'proj-abc');
+    await backend.addDependency(epic.id, 'proj-abc');
+
+    expect((await backend.show(epic.id)).dependencies).toEqual(['proj-abc']);
+    expect((await readIssues())[1].dependencies).toHaveLength(1);
+
+    await backend.removeDependency(epic.id, 'proj-abc');
+    expect((await backend.show(epic.id)).dependencies).toEqual([]);
+  });
+
+  it('deletes issues and the dependencies on them', async () => {
+    const backend = new BeadsJsonl(projectDir);
+    const child = await backend.createChild('proj-abc', 'Child', '');
+    const epic = await backend.createEpic('Epic', '', 1);
+    await backend.addDependency(epic.id, child.id);
+
+    await backend.deleteIssue(child.id);
+
+    const issues = await readIssues();
+    expect(issues.map((i) => i.id)).toEqual(['proj-abc', epic.id]);
+    expect(issues[1].dependencies).toEqual([]);
+    await expect(backend.show(child.id)).rejects.toThrow('not found');
+  });
+
+  it('updates fields, status, labels and closes issues', async () => {
+    const backend = new BeadsJsonl(projectDir);
+    await backend.updateIssue('proj-abc', { title: 'Renamed', priority: 3 });
+    await backend.updateStatus('proj-abc', 'in_progress');
+    await backend.addLabel('proj-abc', 'tm-tag:v2');
+    await backend.addLabel('proj-abc', 'tm-tag:v2');
+
+    let [issue] = await readIssues();
+    expect(issue).toMatchObject({ title: 'Renamed', priority: 3, status: 'in_progress', labels: ['tm-tag:v2'] });
+    expect(issue.owner).toBe('someone@example.com');
+
+    await backend.close('proj-abc');
+    [issue] = await readIssues();
+    expect(issue).toMatchObject({ status: 'closed', close_reason: 'Closed' });
+    expect(issue.closed_at).toBeDefined();
+  });
+
+  it('starts a missing issues.jsonl', async () => {
+    await fs.rm(issuesFile);
+    const backend = new BeadsJsonl(projectDir);
+    await backend.createEpic('Epic', '', 2);
+    expect(await readIssues()).toHaveLength(1);
+  });
+
+  it('classifies an unreadable issues.jsonl as a bd failure', async () => {
+    await fs.rm(issuesFile);
+    await fs.mkdir(issuesFile);
+    const backend = new BeadsJsonl(projectDir);
+    await expect(backend.show('proj-abc')).rejects.toMatchObject({
+      failure: 'bd-failure',
+      message: expect.stringContaining('Cannot read'),
+    });
+  });
+
+  it('leaves an empty file once every issue is deleted', async () => {
+    const backend = new BeadsJsonl(projectDir);
+    await backend.deleteIssue('proj-abc');
+    expect(await fs.readFile(issuesFile, 'utf-8')).toBe('');
+  });
+
+  it('refuses projects that are not in no-db mode', async () => {
+    await fs.writeFile(path.join(projectDir, '.beads', 'config.yaml'), 'issue-prefix: proj\n');
+    const backend = new BeadsJsonl(projectDir);
+    await expect(backend.createEpic('Epic', '', 2)).rejects.toThrow('no-db: true');
+  });
+
+  it('falls back to the directory name as the issue prefix', async () => {
+    await fs.writeFile(path.join(projectDir, '.beads', 'config.yaml'), 'no-db: true\n');
+    const backend = new BeadsJsonl(projectDir);
+    expect(await backend.getIssuePrefix()).toBe(path.basename(projectDir));
+  });
+
+  it('errors on unknown issues', async () => {
+    const backend = new BeadsJsonl(projectDir);
+    await expect(backend.createChild('proj-zzz', 'C', '')).rejects.toThrow('Issue proj-zzz not found');
+    await expect(backend.removeDependency('proj-zzz', 'proj-yyy')).rejects.toBeInstanceOf(BeadsNotFoundError);
+  });
+});
@@ -0,0 +1,277 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { BeadsBackend, BeadsCreateResult, BeadsIssue, BeadsIssueUpdate, TraceWriter } from './backend.js';
+import {
+  createdBy,
+  dependencyRecord,
+  issuePrefix,
+  newIssueId,
+  parseJsonl,
+  readBeadsConfig,
+  serializeJsonl,
+  timestamp,
+} from './jsonl-format.js';
+import type { JsonlIssue } from './jsonl-format.js';
+import { BeadsNotFoundError, Tm2bdError } from '../errors.js';
+
+/**
+ * Reads and writes .beads/issues.jsonl directly, the way bd does for
+ * projects configured with `no-db: true`. The file is rewritten after
+ * every change so an interrupted run never loses created issues.
+ * Concurrent calls share one load and their writes are queued.
+ */
+export class BeadsJsonl implements BeadsBackend {
+  private issues?: JsonlIssue[];
+  private loading?: Promise<JsonlIssue[]>;
+  private writing: Promise<void> = Promise.resolve();
+  private prefix?: string;
+
+  constructor(
+    private projectPath: string,
+    private verbose: boolean = false,
+    private trace: TraceWriter = console.log,
+  ) {}
+
+  private get beadsDir(): string {
+    return path.join(this.projectPath, '.beads');
+  }
+
+  private get issuesFile(): string {
+    return path.join(this.beadsDir, 'issues.jsonl');
+  }
+
+  private log(message: string): void {
+    if (this.verbose) {
+      this.trace(`[jsonl] ${message}`);
+    }
+  }
+
+  private load(): Promise<JsonlIssue[]> {
+    this.loading ??= this.readIssues().catch((err) => {
+      this.loading = undefined;
+      throw err;
+    });
+    return this.loading;
+  }
+
+  private async readIssues(): Promise<JsonlIssue[]> {
+    const config = await readBeadsConfig(this.beadsDir);
+    if (!config.noDb) {
+      throw new Tm2bdError(
+        'The jsonl backend requires `no-db: true` in .beads/config.yaml; use the cli backend otherwise',
+        'bd-failure',
+      );
+    }
+    this.prefix = issuePrefix(config, this.projectPath);
+
+    let content = '';
+    try {
+      content = await fs.readFile(this.issuesFile, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Tm2bdError(`Cannot read ${this.issuesFile}: ${(err as Error).message}`, 'bd-failure', { cause: err });
+      }
+    }
+
+    this.issues = parseJsonl(content, this.issuesFile);
+    return this.issues;
+  }
+
+  private flush(): Promise<void> {
+    const write = this.writing.then(() => this.writeIssues());
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  private async writeIssues(): Promise<void> {
+    if (!this.issues) return;
+    const content = serializeJsonl(this.issues);
+    const tmpPath = `${this.issuesFile}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, content, 'utf-8');
+    await fs.rename(tmpPath, this.issuesFile);
+  }
+
+  private async find(issueId: string): Promise<JsonlIssue> {
+    const issue = (await this.load()).find((i) => i.id === issueId);
+    if (!issue) throw new BeadsNotFoundError(`Issue ${issueId} not found in ${this.issuesFile}`);
+    return issue;
+  }
+
+  private nextTopLevelId(issues: JsonlIssue[]): string {
+    return newIssueId(this.prefix!, new Set(issues.map((i) => i.id)));
+  }
+
+  private nextChildId(issues: JsonlIssue[], parentId: string): string {
+    const childPattern = new RegExp(`^${parentId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.(\\d+)$`);
+    const max = issues.reduce((highest, issue) => {
+      const match = childPattern.exec(issue.id);
+      return match ? Math.max(highest, Number(match[1])) : highest;
+    }, 0);
+    return `${parentId}.${max + 1}`;
+  }
+
+  private async create(
+    title: string,
+    description: string,
+    priority: number,
+    issueType: string,
+    parentId?: string,
+  ): Promise<BeadsCreateResult> {
+    const issues = await this.load();
+    if (parentId) await this.find(parentId);
+
+    const now = timestamp();
+    const id = parentId ? this.nextChildId(issues, parentId) : this.nextTopLevelId(issues);
+    const issue: JsonlIssue = {
+      id,
+      title,
+      ...(description && { description }),
+      status: 'open',
+      priority,
+      issue_type: issueType,
+      created_at: now,
+      created_by: createdBy(),
+      updated_at: now,
+    };
+    if (parentId) {
+      issue.dependencies = [dependencyRecord(id, parentId, 'parent-child', now)];
+    }
+
+    this.log(`create ${id} "${title}"`);
+    issues.push(issue);
+    await this.flush();
+    return { id, title };
+  }
+
+  async createEpic(
+    title: string,
+    description: string,
+    priority: number,
+    parentId?: string,
+  ): Promise<BeadsCreateResult> {
+    return this.create(title, description, priority, 'epic', parentId);
+  }
+
+  async createChild(
+    parentId: string,
+    title: string,
+    description: string,
+    issueType: string = 'task',
+  ): Promise<BeadsCreateResult> {
+    return this.create(title, description, 2, issueType, parentId);
+  }
+
+  async addDependency(blockedId: string, blockingId: string): Promise<void> {
+    const issue = await this.find(blockedId);
+    await this.find(blockingId);
+    const deps = (issue.dependencies ??= []);
+    if (deps.some((d) => d.depends_on_id === blockingId && d.type === 'blocks')) return;
+
+    this.log(`dep add ${blockedId} ${blockingId}`);
+    const now = timestamp();
+    deps.push(dependencyRecord(blockedId, blockingId, 'blocks', now));
+    issue.updated_at = now;
+    await this.flush();
+  }
+
+  async removeDependency(blockedId: string, blockingId: string): Promise<void> {
+    const issue = await this.find(blockedId);
+    this.log(`dep remove ${blockedId} ${blockingId}`);
+    issue.dependencies = (issue.dependencies ?? []).filter(
+      (d) => !(d.depends_on_id === blockingId && d.type === 'blocks'),
+    );
+    issue.updated_at = timestamp();
+    await this.flush();
+  }
+
+  async updateIssue(issueId: string, changes: BeadsIssueUpdate): Promise<void> {
+    const issue = await this.find(issueId);
+    this.log(`update ${issueId} ${Object.keys(changes).join(', ')}`);
+    if (changes.title !== undefined) issue.title = changes.title;
+    if (changes.description !== undefined) issue.description = changes.description;
+    if (changes.priority !== undefined) issue.priority = changes.priority;
+    issue.updated_at = timestamp();
+    await this.flush();
+  }
+
+  async show(issueId: string): Promise<BeadsIssue> {
+    const issue = await this.find(issueId);
+    return {
+      id: issue.id,
+      title: issue.title,
+      description: issue.description ?? '',
+      status: issue.status,
+      priority: issue.priority,
+      dependencies: (issue.dependencies ?? [])
+        .filter((d) => d.type === 'blocks')
+        .map((d) => d.depends_on_id),
+    };
+  }
+
+  async updateStatus(issueId: string, status: string): Promise<void> {
+    const issue = await this.find(issueId);
+    this.log(`update ${issueId} -s ${status}`);
+    issue.status = status;
+    issue.updated_at = timestamp();
+    await this.flush();
+  }
+
+  async close(issueId: string): Promise<void> {
+    const issue = await this.find(issueId);
+    this.log(`close ${issueId}`);
+    const now = timestamp();
+    issue.status = 'closed';
+    issue.closed_at = now;
+    issue.close_reason = 'Closed';
+    issue.updated_at = now;
+    await this.flush();
+  }
+
+  async addLabel(issueId: string, label: string): Promise<void> {
+    const issue = await this.find(issueId);
+    const labels = (issue.labels ??= []);
+    if (labels.includes(label)) return;
+
+    this.log(`update ${issueId} --add-label ${label}`);
+    labels.push(label);
+    issue.updated_at = timestamp();
+    await this.flush();
+  }
+
+  async removeLabel(issueId: string, label: string): Promise<void> {
+    const issue = await this.find(issueId);
+    if (!issue.labels?.includes(label)) return;
+
+    this.log(`update ${issueId} --remove-label ${label}`);
+    issue.labels = issue.labels.filter((l) => l !== label);
+    issue.updated_at = timestamp();
+    await this.flush();
+  }
+
+  async deleteIssue(issueId: string): Promise<void> {
+    const issues = await this.load();
+    const target = await this.find(issueId);
+    this.log(`delete ${issueId}`);
+    issues.splice(issues.indexOf(target), 1);
+    for (const issue of issues) {
+      if (issue.dependencies?.some((d) => d.depends_on_id === issueId)) {
+        issue.dependencies = issue.dependencies.filter((d) => d.depends_on_id !== issueId);
+        issue.updated_at = timestamp();
+      }
+    }
+    await this.flush();
+  }
+
+  async checkInit(): Promise<boolean> {
+    try {
+      await fs.access(this.beadsDir);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getIssuePrefix(): Promise<string> {
+    return issuePrefix(await readBeadsConfig(this.beadsDir), this.projectPath);
+  }
+}
@@ -0,0 +1,126 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomInt } from 'crypto';
+import { Tm2bdError } from '../errors.js';
+
+/**
+ * The record format of .beads/issues.jsonl, shared by the direct JSONL
+ * backend and the `bd import` files the bulk path writes.
+ */
+
+export interface JsonlDependency {
+  issue_id: string;
+  depends_on_id: string;
+  type: string;
+  created_at: string;
+  created_by?: string;
+  metadata?: string;
+}
+
+/** One line of .beads/issues.jsonl. Unknown fields are preserved as read. */
+export interface JsonlIssue {
+  id: string;
+  title: string;
+  description?: string;
+  status: string;
+  priority: number;
+  issue_type: string;
+  created_at: string;
+  created_by?: string;
+  updated_at: string;
+  closed_at?: string;
+  close_reason?: string;
+  external_ref?: string;
+  labels?: string[];
+  dependencies?: JsonlDependency[];
+  [key: string]: unknown;
+}
+
+export interface BeadsConfig {
+  issuePrefix?: string;
+  noDb: boolean;
+}
+
+const MIN_HASH_LENGTH = 3;
+
+/** bd writes second-precision UTC timestamps. */
+export function timestamp(): string {
+  return new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+export function createdBy(): string {
+  return process.env.BD_ACTOR ?? process.env.USER ?? 'tm2bd';
+}
+
+function readConfigValue(config: string, key: string): string | undefined {
+  const match = new RegExp(`^${key}:\\s*(.*)$`, 'm').exec(config);
+  if (!match) return undefined;
+  const value = match[1].replace(/\s+#.*$/, '').trim();
+  return value.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/** The settings tm2bd needs from .beads/config.yaml; defaults when absent. */
+export async function readBeadsConfig(beadsDir: string): Promise<BeadsConfig> {
+  const configPath = path.join(beadsDir, 'config.yaml');
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { noDb: false };
+    throw new Tm2bdError(`Cannot read ${configPath}: ${(err as Error).message}`, 'bd-failure', { cause: err });
+  }
+  return {
+    issuePrefix: readConfigValue(content, 'issue-prefix'),
+    noDb: readConfigValue(content, 'no-db') === 'true',
+  };
+}
+
+/** The configured issue prefix, or the directory name as bd init uses. */
+export function issuePrefix(config: BeadsConfig, projectPath: string): string {
+  return config.issuePrefix || path.basename(path.resolve(projectPath));
+}
+
+export function parseJsonl(content: string, source: string): JsonlIssue[] {
+  return content
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, index }) => {
+      try {
+        return JSON.parse(line) as JsonlIssue;
+      } catch {
+        throw new Tm2bdError(`Invalid JSON on line ${index + 1} of ${source}`, 'bd-failure');
+      }
+    });
+}
+
+export function serializeJsonl(issues: JsonlIssue[]): string {
+  return issues.map((issue) => `${JSON.stringify(issue)}\n`).join('');
+}
+
+/** A random hash ID not in `taken`, growing the hash on collisions as bd does. */
+export function newIssueId(prefix: string, taken: Set<string>): string {
+  for (let length = MIN_HASH_LENGTH; ; length++) {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const hash = randomInt(36 ** length).toString(36).padStart(length, '0');
+      const id = `${prefix}-${hash}`;
+      if (!taken.has(id)) return id;
+    }
+  }
+}
+
+export function dependencyRecord(
+  issueId: string,
+  dependsOnId: string,
+  type: string,
+  now: string,
+): JsonlDependency {
+  return {
+    issue_id: issueId,
+    depends_on_id: dependsOnId,
+    type,
+    created_at: now,
+    created_by: createdBy(),
+    metadata: '{}',
+  };
+}
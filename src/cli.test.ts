@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execa } from 'execa';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { fileURLToPath } from 'url';
+import { EXIT_CODES } from './errors.js';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const tsx = path.join(root, 'node_modules', '.bin', 'tsx');
+const cli = path.join(root, 'src', 'cli.ts');
+
+// Every run starts a fresh process, which is slow on a cold cache
+const TIMEOUT = 60_000;
+
+interface Run {
+  exitCode: number;
+  stdout: string;
+  records: Record<string, unknown>[];
+}
+
+describe('cli', () => {
+  let projectDir: string;
+
+  async function run(...args: string[]): Promise<Run> {
+    const result = await execa(tsx, [cli, ...args], { cwd: projectDir, reject: false, stdin: 'ignore' });
+    const stdout = String(result.stdout);
+    const records = args.includes('ndjson')
+      ? stdout.split('\n').filter((line) => line !== '').map((line) => JSON.parse(line))
+      : [];
+    return { exitCode: result.exitCode ?? -1, stdout, records };
+  }
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-cli-'));
+    await fs.mkdir(path.join(projectDir, '.beads'));
+    await fs.writeFile(path.join(projectDir, '.beads', 'config.yaml'), 'issue-prefix: cp\nno-db: true\n');
+    await fs.writeFile(path.join(projectDir, '.beads', 'issues.jsonl'), '');
+    const task = (id: number, extra: object = {}) => ({
+      id,
+      title: `Task ${id}`,
+      description: '',
+      status: 'pending',
+      priority: 'medium',
+      dependencies: [],
+      ...extra,
+    });
+    const tasks = [
+      task(1, { status: 'done' }),
+      task(2, {
+        dependencies: [1],
+        subtasks: [{ id: 1, title: 'Sub', description: '', status: 'pending', dependencies: [] }],
+      }),
+    ];
+    await fs.mkdir(path.join(projectDir, '.taskmaster', 'tasks'), { recursive: true });
+    await fs.writeFile(
+      path.join(projectDir, '.taskmaster', 'tasks', 'tasks.json'),
+      JSON.stringify({ master: { tasks } }),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true });
+  });
+
+  it(
+    'writes one NDJSON record per line, per issue and ending in a summary',
+    async () => {
+      const { exitCode, records } = await run('--output', 'ndjson', 'sync', '--backend', 'jsonl', '-v');
+      expect(exitCode).toBe(0);
+      expect(records.filter((r) => r.type === 'issue-created')).toHaveLength(3);
+      expect(records).toContainEqual(
+        expect.objectContaining({ type: 'dependency-added', blocked: 'master:2', blocking: 'master:1' }),
+      );
+      expect(records).toContainEqual(expect.objectContaining({ type: 'status-set', ref: 'master:1', status: 'closed' }));
+      expect(records.at(-1)).toMatchObject({ type: 'summary', command: 'sync', epics: 2, children: 1 });
+    },
+    TIMEOUT,
+  );
+
+  it(
+    'prints nothing on stdout with --quiet',
+    async () => {
+      const { exitCode, stdout } = await run('-q', 'sync', '--backend', 'jsonl');
+      expect(exitCode).toBe(0);
+      expect(stdout).toBe('');
+    },
+    TIMEOUT,
+  );
+
+  it(
+    'keeps a JSON dry-run plan alone on stdout',
+    async () => {
+      const { exitCode, stdout } = await run('sync', '--backend', 'jsonl', '--dry-run', '--format', 'json');
+      expect(exitCode).toBe(0);
+      expect(JSON.parse(stdout).operations.length).toBeGreaterThan(0);
+    },
+    TIMEOUT,
+  );
+
+  it.each([
+    ['validation', ['sync', '--backend', 'jsonl', '--tag', 'master', '--all-tags']],
+    ['validation', ['sync', '--backend', 'jsonl', '--concurrency', '0']],
+    ['validation', ['watch', '--backend', 'jsonl', '--debounce', '10abc']],
+    ['mapping-conflict', ['lookup', '2']],
+  ] as const)(
+    'ends in an error record and exits with the %s code',
+    async (failure, args) => {
+      const { exitCode, records } = await run('--output', 'ndjson', ...args);
+      expect(exitCode).toBe(EXIT_CODES[failure]);
+      expect(records.at(-1)).toMatchObject({ type: 'error', class: failure, exitCode: EXIT_CODES[failure] });
+    },
+    TIMEOUT,
+  );
+
+  it(
+    'exits with the bd-missing code when Beads is not initialized',
+    async () => {
+      await fs.rm(path.join(projectDir, '.beads'), { recursive: true });
+      const { exitCode, records } = await run('--output', 'ndjson', 'sync', '--backend', 'jsonl');
+      expect(exitCode).toBe(EXIT_CODES['bd-missing']);
+      expect(records.at(-1)).toMatchObject({ type: 'error', class: 'bd-missing' });
+    },
+    TIMEOUT,
+  );
+
+  it(
+    'exits with the bd-failure code when Beads data is unreadable',
+    async () => {
+      await fs.writeFile(path.join(projectDir, '.beads', 'issues.jsonl'), '{not json\n');
+      const { exitCode, records } = await run('--output', 'ndjson', 'sync', '--backend', 'jsonl');
+      expect(exitCode).toBe(EXIT_CODES['bd-failure']);
+      expect(records.at(-1)).toMatchObject({ type: 'error', class: 'bd-failure' });
+    },
+    TIMEOUT,
+  );
+
+  it(
+    'exits with the mapping-conflict, failure and validation codes against an existing import',
+    async () => {
+      expect((await run('-q', 'sync', '--backend', 'jsonl')).exitCode).toBe(0);
+
+      const again = await run('--output', 'ndjson', 'sync', '--backend', 'jsonl');
+      expect(again.exitCode).toBe(EXIT_CODES['mapping-conflict']);
+
+      const unknown = await run('--output', 'ndjson', 'lookup', 'cp-zzz');
+      expect(unknown.exitCode).toBe(EXIT_CODES.failure);
+      expect(unknown.records.at(-1)).toMatchObject({ type: 'summary', command: 'lookup' });
+
+      // Without a terminal to confirm on, undo needs --yes
+      const undo = await run('--output', 'ndjson', 'undo', '--backend', 'jsonl');
+      expect(undo.exitCode).toBe(EXIT_CODES.validation);
+      expect(undo.records.at(-1)).toMatchObject({ type: 'error', class: 'validation' });
+    },
+    TIMEOUT,
+  );
+});
@@ -0,0 +1,1249 @@
+#!/usr/bin/env node
+import { Command, CommanderError, InvalidArgumentError, Option } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import readline from 'readline/promises';
+import { parseSyncPlan } from './schemas/sync-plan.js';
+import { TaskMasterStatusSchema, parseTaggedProjects } from './schemas/taskmaster.js';
+import { validateTasksFile } from './schemas/project-validator.js';
+import type { TaggedProject, TaskMasterStatus } from './schemas/taskmaster.js';
+import { loadProjectConfig, resolveMappingRules } from './schemas/config.js';
+import type { MappingRules } from './sync/mapping-rules.js';
+import type { FlagDefaults, LoadedConfig } from './schemas/config.js';
+import type { PlanOperation } from './schemas/sync-plan.js';
+import { BACKEND_KINDS, createBackend } from './beads/backend.js';
+import { IdMapper } from './mapping/id-mapper.js';
+import { acquireLock } from './mapping/lock.js';
+import { lookupIds } from './mapping/lookup.js';
+import { pullStatuses } from './sync/status-puller.js';
+import { TAG_MODES } from './sync/tag-organizer.js';
+import { loadProjects, syncProject } from './sync/sync-project.js';
+import { propagateLeafDependencies } from './sync/dependency-wirer.js';
+import { OUTSIDE_DEPENDENCY_POLICIES } from './sync/task-filter.js';
+import type { CreatedIssue, SyncEvent } from './sync/sync-project.js';
+import { archiveMapping, undoImport } from './sync/undo.js';
+import type { UndoSummary } from './sync/undo.js';
+import { describeDrift, verifyProjects } from './sync/verifier.js';
+import { DEFAULT_DEBOUNCE_MS, watchProject } from './sync/watcher.js';
+import type { WatchEvent } from './sync/watcher.js';
+import type { TaskChange } from './sync/task-diff.js';
+import { buildSyncPlan } from './plan/planner.js';
+import { applySyncPlan } from './plan/executor.js';
+import type { ApplyResult, OperationOutcome } from './plan/executor.js';
+import { importSyncPlan } from './plan/bulk-import.js';
+import type { ImportResult } from './plan/bulk-import.js';
+import { PLAN_FORMATS, renderPlan } from './plan/render.js';
+import { buildDependencyGraph, focusGraph } from './graph/dependency-graph.js';
+import { GRAPH_FORMATS, renderGraph } from './graph/render.js';
+import { analyzeSchedule } from './graph/schedule.js';
+import type { CriticalPath, ScheduleAnalysis } from './graph/schedule.js';
+import { EXIT_CODES, Tm2bdError, exitCodeFor, failureClass } from './errors.js';
+
+type OutputFormat = 'text' | 'ndjson';
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'ndjson'];
+
+const program = new Command();
+
+program
+  .name('tm2bd')
+  .description('Sync task-master-ai tasks to Beads issue tracker')
+  .version('1.0.0')
+  .option('--config <path>', 'Config file (default: .tm2bd.json, or "tm2bd" in package.json)')
+  .addOption(
+    new Option('--output <format>', 'Human-readable text, or one JSON event per line on stdout')
+      .choices(OUTPUT_FORMATS)
+      .default('text'),
+  )
+  .option('-q, --quiet', 'Print only results, warnings and errors')
+  .exitOverride()
+  .addHelpText(
+    'after',
+    `
+With --output ndjson, every line on stdout is a JSON object with a "type":
+phase, tasks-loaded, tasks-filtered, dependency-reduced, task-changed,
+issue-created, dependency-added, status-set, label-added, reconciled,
+tag-labeled, mapping-saved, rolled-back, status-pulled, warning, summary
+or error. Each command
+ends with a "summary" record, or an "error" record on failure. sync --update
+reports one "reconciled" record per tag with counts, not a record per issue.
+
+Exit codes:
+  ${EXIT_CODES.success}  success
+  ${EXIT_CODES.failure}  other failure; drift found by verify, unknown IDs in lookup
+  ${EXIT_CODES.validation}  validation: invalid tasks.json, plan, config or options
+  ${EXIT_CODES['bd-missing']}  bd missing: bd not installed or Beads not initialized
+  ${EXIT_CODES['bd-failure']}  bd failure: a bd command failed or Beads data is unreadable
+  ${EXIT_CODES['mapping-conflict']}  mapping conflict: mapping file missing, present, locked,
+     invalid or from another Beads project`,
+  );
+
+let projectConfig: LoadedConfig = { config: {}, templates: {} };
+let output: { format: OutputFormat; quiet: boolean } = { format: 'text', quiet: false };
+
+const ndjson = () => output.format === 'ndjson';
+
+/** Progress and prose for people; silent with --quiet or --output ndjson. */
+function say(...args: unknown[]): void {
+  if (!output.quiet && !ndjson()) console.log(...args);
+}
+
+/** Like {@link say}, on stderr, for commands whose stdout is data. */
+function sayToStderr(...args: unknown[]): void {
+  if (!output.quiet && !ndjson()) console.error(...args);
+}
+
+/** Verbose backend output; kept off stdout when that carries NDJSON. */
+function trace(line: string): void {
+  (ndjson() ? console.error : console.log)(line);
+}
+
+/** Overwrite the current terminal line; used for progress counters. */
+function progress(text: string, done: boolean): void {
+  if (output.quiet || ndjson()) return;
+  process.stdout.write(chalk.gray(`${text}\r`));
+  if (done) process.stdout.write('\n');
+}
+
+/** Write one NDJSON record to stdout; nothing in text mode. */
+function emitRecord(type: string, fields: Record<string, unknown> = {}): void {
+  if (ndjson()) process.stdout.write(`${JSON.stringify({ type, ...fields })}\n`);
+}
+
+function warn(message: string): void {
+  if (ndjson()) {
+    emitRecord('warning', { message });
+  } else {
+    console.error(chalk.yellow(`Warning: ${message}`));
+  }
+}
+
+/** Report an error the way the output mode asks for and exit with its class's code. */
+function fail(error: unknown): never {
+  const message = error instanceof Error ? error.message : String(error);
+  const exitCode = exitCodeFor(error);
+  if (ndjson()) {
+    emitRecord('error', { class: failureClass(error) ?? 'failure', exitCode, message });
+  } else {
+    console.error(chalk.red('Error:'), message);
+  }
+  process.exit(exitCode);
+}
+
+/** Fill in flags the user did not pass from the config's `defaults`. */
+function applyFlagDefaults(command: Command, defaults: FlagDefaults): void {
+  for (const [key, value] of Object.entries(defaults)) {
+    const known = command.options.some((o) => o.attributeName() === key);
+    const source = command.getOptionValueSource(key);
+    if (known && (source === undefined || source === 'default')) {
+      command.setOptionValueWithSource(key, value, 'config');
+    }
+  }
+}
+
+program.hook('preAction', async (_program, actionCommand) => {
+  output = { format: program.opts().output, quiet: program.opts().quiet ?? false };
+  projectConfig = await loadProjectConfig(process.cwd(), program.opts().config);
+  applyFlagDefaults(actionCommand, projectConfig.config.defaults ?? {});
+});
+
+/** Mapping rules from the config, adjusted by the command's flags. */
+function mappingRules(options: { raiseCriticalPath?: boolean; leafDeps?: boolean }): MappingRules {
+  return {
+    ...resolveMappingRules(projectConfig.config, projectConfig.templates),
+    ...(options.raiseCriticalPath && { raiseCriticalPath: true }),
+    ...(options.leafDeps && { leafDependencies: true }),
+  };
+}
+
+function parsePositiveInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
+
+function parseNonNegativeInteger(value: string): number {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new InvalidArgumentError('Must be a non-negative integer.');
+  }
+  return Number(value);
+}
+
+/** Parse `1,3,5-8` into task IDs. */
+function parseTaskIds(value: string): number[] {
+  const ids: number[] = [];
+  for (const part of value.split(',').map((p) => p.trim())) {
+    const range = /^(\d+)(?:-(\d+))?$/.exec(part);
+    if (!range || Number(range[2] ?? range[1]) < Number(range[1])) {
+      throw new InvalidArgumentError(`Invalid task ID "${part}"; expected IDs or ranges such as 1,3,5-8.`);
+    }
+    for (let id = Number(range[1]); id <= Number(range[2] ?? range[1]); id++) ids.push(id);
+  }
+  return ids;
+}
+
+function parseStatuses(value: string): TaskMasterStatus[] {
+  return value.split(',').map((part) => {
+    const status = TaskMasterStatusSchema.safeParse(part.trim());
+    if (!status.success) {
+      throw new InvalidArgumentError(
+        `Unknown status "${part.trim()}"; expected one of ${TaskMasterStatusSchema.options.join(', ')}.`,
+      );
+    }
+    return status.data;
+  });
+}
+
+/** Ask a yes/no question on the terminal; anything but y/yes is no. */
+async function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: ndjson() ? process.stderr : process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+function printUndoSummary(summary: UndoSummary, verb: string): void {
+  say(chalk.green(`  ${summary.removed} issue(s) ${verb}, ${summary.dependenciesRemoved} dependencies removed`));
+  for (const failure of summary.failed) {
+    if (!ndjson()) console.error(chalk.red(`  Failed: ${failure.target}: ${failure.message}`));
+  }
+}
+
+const tagLabelPrefix = (tag: string | undefined) => (tag !== undefined ? `[${tag}] ` : '');
+
+function describeChange(change: TaskChange): string {
+  const what =
+    change.subtaskId !== undefined
+      ? `Subtask ${change.taskId}.${change.subtaskId}`
+      : `Task ${change.taskId}`;
+  const detail =
+    change.kind === 'changed'
+      ? ` (${change.fields.join(', ')})`
+      : change.kind === 'removed'
+        ? ', its Beads issue is left in place'
+        : '';
+  return `${tagLabelPrefix(change.tag)}${what} ${change.kind}${detail}`;
+}
+
+/** Whitespace-separated words piped to stdin. */
+async function readStdinWords(): Promise<string[]> {
+  let content = '';
+  for await (const chunk of process.stdin) content += chunk;
+  return content.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Render library events as the CLI's console output. Operation progress is
+ * drawn on one line per phase.
+ */
+function createTextReporter(log: (message: string) => void) {
+  let phase: string | undefined;
+  let loading = false;
+  let sorting = false;
+  let reducing = false;
+  return (event: SyncEvent) => {
+    switch (event.type) {
+      case 'tasks-loaded': {
+        if (!loading) log(chalk.blue('Parsing tasks.json...'));
+        loading = true;
+        const from = event.tag !== undefined ? ` from tag "${event.tag}"` : '';
+        log(chalk.green(`  Loaded ${event.count} tasks${from}`));
+        break;
+      }
+      case 'tasks-filtered': {
+        const included = event.included.length > 0 ? `, with prerequisite(s) ${event.included.join(', ')}` : '';
+        log(chalk.green(`  ${tagLabelPrefix(event.tag)}Selected ${event.count} of ${event.total} tasks${included}`));
+        break;
+      }
+      case 'tasks-sorted':
+        if (!sorting) log(chalk.blue('Sorting by dependencies...'));
+        sorting = true;
+        log(chalk.green(`  ${tagLabelPrefix(event.tag)}Sorted into ${event.tiers} dependency tier(s)`));
+        break;
+      case 'dependency-reduced': {
+        if (!reducing) log(chalk.blue('Reducing dependencies...'));
+        reducing = true;
+        const chain = [event.blocked, ...event.via, event.blocking].join(' → ');
+        log(chalk.gray(`  Dropped ${event.blocked} → ${event.blocking} (implied by ${chain})`));
+        break;
+      }
+      case 'warning':
+        if (output.quiet) {
+          warn(event.message);
+        } else {
+          log(chalk.yellow(`  Warning: ${event.message}`));
+        }
+        break;
+      case 'task-changed':
+        log(chalk.gray(`  ${describeChange(event.change)}`));
+        break;
+      case 'operation':
+        if (PHASES[event.op.op].label !== phase) {
+          if (phase) progress('', true);
+          phase = PHASES[event.op.op].label;
+          log(chalk.blue(phase));
+        }
+        progress(`  ${event.current}/${event.total} operations`, event.current === event.total);
+        break;
+      case 'reconcile-started':
+        if (event.tag !== undefined) log(chalk.bold(`\nTag "${event.tag}"`));
+        log(chalk.blue('Reconciling with Beads...'));
+        break;
+      case 'reconciled': {
+        const { summary } = event;
+        const fmt = (c: { created: number; updated: number; unchanged: number }) =>
+          `${c.created} created, ${c.updated} updated, ${c.unchanged} unchanged`;
+        log(chalk.green(`  Epics: ${fmt(summary.epics)}`));
+        log(chalk.green(`  Children: ${fmt(summary.children)}`));
+        log(
+          chalk.green(
+            `  Dependencies: ${summary.dependencies.added} added, ${summary.dependencies.removed} removed, ${summary.dependencies.unchanged} unchanged`,
+          ),
+        );
+        log(
+          chalk.green(
+            `  Statuses: ${summary.statuses.updated} updated, ${summary.statuses.unchanged} unchanged`,
+          ),
+        );
+        log(
+          chalk.green(
+            `  Labels: ${summary.labels.added} added, ${summary.labels.removed} removed, ${summary.labels.unchanged} unchanged`,
+          ),
+        );
+        break;
+      }
+      case 'tag-labeled':
+        log(chalk.blue('Labeling tag issues...'));
+        log(chalk.green(`  ${event.count} issues labeled ${event.label}`));
+        break;
+      case 'mapping-saved':
+        log(chalk.green(`  Mapping saved to ${event.path}`));
+        break;
+      case 'rolled-back':
+        log(chalk.blue('Rolled back this run:'));
+        printUndoSummary(event.summary, 'deleted');
+        break;
+    }
+  };
+}
+
+const PHASES: Record<PlanOperation['op'], { name: string; label: string }> = {
+  'create-tag-epic': { name: 'create-epics', label: 'Creating epics...' },
+  'create-epic': { name: 'create-epics', label: 'Creating epics...' },
+  'create-child': { name: 'create-children', label: 'Creating child tasks...' },
+  'add-dependency': { name: 'wire-dependencies', label: 'Wiring dependencies...' },
+  'set-status': { name: 'sync-statuses', label: 'Synchronizing statuses...' },
+  'add-label': { name: 'add-labels', label: 'Adding labels...' },
+};
+
+/** The NDJSON record for an applied plan operation. */
+function operationRecord(op: PlanOperation, { ids, skipped }: OperationOutcome): [string, Record<string, unknown>] {
+  const extra = skipped ? { skipped: true } : {};
+  switch (op.op) {
+    case 'create-tag-epic':
+      return ['issue-created', { kind: 'tag-epic', ref: op.ref, tag: op.tag, beadsId: ids[op.ref], ...extra }];
+    case 'create-epic':
+      return ['issue-created', { kind: 'epic', ref: op.ref, tag: op.tag, taskId: op.taskId, beadsId: ids[op.ref], ...extra }];
+    case 'create-child':
+      return [
+        'issue-created',
+        {
+          kind: 'child',
+          ref: op.ref,
+          tag: op.tag,
+          taskId: op.taskId,
+          subtaskId: op.subtaskId,
+          beadsId: ids[op.ref],
+          parentId: ids[op.parent],
+          ...extra,
+        },
+      ];
+    case 'add-dependency':
+      return [
+        'dependency-added',
+        {
+          kind: op.kind,
+          blocked: op.blocked,
+          blocking: op.blocking,
+          blockedId: ids[op.blocked],
+          blockingId: ids[op.blocking],
+          ...extra,
+        },
+      ];
+    case 'set-status':
+      return ['status-set', { ref: op.target, beadsId: ids[op.target], status: op.status, ...extra }];
+    case 'add-label':
+      return ['label-added', { ref: op.target, beadsId: ids[op.target], label: op.label, ...extra }];
+  }
+}
+
+/** Render library events as NDJSON records, with a `phase` record as each phase starts. */
+function createNdjsonReporter() {
+  let phase: string | undefined;
+  const enter = (name: string, tag?: string) => {
+    if (name === phase) return;
+    phase = name;
+    emitRecord('phase', { phase: name, ...(tag !== undefined && { tag }) });
+  };
+  return (event: SyncEvent) => {
+    switch (event.type) {
+      case 'tasks-loaded':
+        enter('load');
+        emitRecord('tasks-loaded', { tag: event.tag, count: event.count });
+        break;
+      case 'tasks-filtered':
+        emitRecord('tasks-filtered', {
+          tag: event.tag,
+          count: event.count,
+          total: event.total,
+          included: event.included,
+        });
+        break;
+      case 'tasks-sorted':
+        enter('sort');
+        break;
+      case 'dependency-reduced':
+        enter('reduce');
+        emitRecord('dependency-reduced', {
+          tag: event.tag,
+          blocked: event.blocked,
+          blocking: event.blocking,
+          via: event.via,
+        });
+        break;
+      case 'warning':
+        emitRecord('warning', { message: event.message });
+        break;
+      case 'task-changed':
+        emitRecord('task-changed', { ...event.change });
+        break;
+      case 'operation': {
+        enter(PHASES[event.op.op].name);
+        const [type, fields] = operationRecord(event.op, event);
+        emitRecord(type, { ...fields, current: event.current, total: event.total });
+        break;
+      }
+      case 'reconcile-started':
+        phase = undefined;
+        enter('reconcile', event.tag);
+        break;
+      case 'reconciled':
+        emitRecord('reconciled', { tag: event.tag, ...event.summary });
+        break;
+      case 'tag-labeled':
+        enter('label-tags');
+        emitRecord('tag-labeled', { tag: event.tag, label: event.label, count: event.count });
+        break;
+      case 'mapping-saved':
+        emitRecord('mapping-saved', { path: event.path });
+        break;
+      case 'rolled-back':
+        emitRecord('rolled-back', { ...event.summary });
+        break;
+    }
+  };
+}
+
+/** Reporter for library events in the selected output mode. */
+function createEventReporter(log: (message: string) => void = say): (event: SyncEvent) => void {
+  return ndjson() ? createNdjsonReporter() : createTextReporter(log);
+}
+
+function printApplySummary(command: string, result: ApplyResult | ImportResult, mapper: IdMapper): void {
+  const stats = mapper.getStats();
+  emitRecord('summary', { command, epics: stats.epicCount, children: stats.childCount, ...result });
+  say(chalk.bold.green('\nSync complete!'));
+  say(`  Epics: ${stats.epicCount} (${result.epicsCreated} created)`);
+  say(`  Children: ${stats.childCount} (${result.childrenCreated} created)`);
+  say(`  Dependencies: ${result.epicDeps} epic deps, ${result.subtaskDeps} subtask deps`);
+  say(`  Statuses: ${result.statusesSet} set`);
+  if (result.labelsAdded > 0) {
+    say(`  Labels: ${result.labelsAdded} added`);
+  }
+  if (result.skipped > 0) {
+    say(`  Skipped: ${result.skipped} already applied`);
+  }
+  if ('imported' in result && result.imported > 0) {
+    say(`  Imported: ${result.imported} issues in one bd import`);
+  }
+}
+
+program
+  .command('sync')
+  .description('Sync task-master tasks to Beads')
+  .option('--tasks <path>', 'Path to tasks.json', '.taskmaster/tasks/tasks.json')
+  .option('--project <path>', 'Path to project root with .beads/', '.')
+  .addOption(
+    new Option('--backend <kind>', 'Write through the bd CLI or directly to .beads/issues.jsonl')
+      .choices(BACKEND_KINDS)
+      .default('cli'),
+  )
+  .option('--dry-run', 'Print the sync plan without executing')
+  .addOption(
+    new Option('--format <format>', 'Dry-run output format').choices(PLAN_FORMATS).default('text'),
+  )
+  .option('--force', 'Overwrite existing import (skip idempotency check)')
+  .option('--resume', 'Resume from partial mapping file')
+  .option('--update', 'Reconcile an existing import with the current tasks.json')
+  .option('--tag <name>', 'Sync only this task-master tag')
+  .option('--all-tags', 'Sync every task-master tag in tasks.json')
+  .option('--only <ids>', 'Sync only these task IDs, e.g. 1,3,5-8', parseTaskIds)
+  .option('--exclude <ids>', 'Leave out these task IDs', parseTaskIds)
+  .option('--status <list>', 'Sync only tasks with these statuses, e.g. pending,in-progress', parseStatuses)
+  .option('--skip-done', 'Leave out done tasks')
+  .addOption(
+    new Option('--outside-deps <policy>', 'For dependencies outside the selection: include the prerequisites, drop the edges or fail')
+      .choices(OUTSIDE_DEPENDENCY_POLICIES)
+      .default('include'),
+  )
+  .addOption(
+    new Option('--tag-as <mode>', 'Represent each tag in Beads as a label or an umbrella epic')
+      .choices(TAG_MODES),
+  )
+  .option('--raise-critical-path', 'Raise epics on the remaining critical path one priority level')
+  .option('--leaf-deps', "Also block a dependent task's entry subtasks on its prerequisites' exit subtasks")
+  .option('--reduce-deps', 'Leave out dependencies a longer chain of dependencies already implies')
+  .option('--map-file <path>', 'Path for ID mapping output', './tm2bd-map.json')
+  .option('--concurrency <n>', 'Beads calls to run at once', parsePositiveInteger, 1)
+  .option('--bulk', 'Create new issues with a single `bd import` (falls back when unsupported)')
+  .option('--rollback-on-failure', 'Delete the issues a failed run created without asking')
+  .option('-v, --verbose', 'Verbose output')
+  .action(async (options) => {
+    try {
+      // Keep stdout clean for a dry-run plan meant for a program
+      const log = options.dryRun && options.format !== 'text' ? sayToStderr : say;
+      log(chalk.bold('tm2bd: Task-Master to Beads Sync\n'));
+
+      // Idempotency check
+      const mapExists = await IdMapper.exists(options.mapFile);
+      if (mapExists && !options.force && !options.resume && !options.update) {
+        throw new Tm2bdError(
+          `Mapping file ${options.mapFile} already exists.\nUse --update to reconcile it, --force to overwrite or --resume to continue from it.`,
+          'mapping-conflict',
+        );
+      }
+
+      // Load or create mapper
+      let mapper: IdMapper | undefined;
+      if (options.update && mapExists) {
+        say(chalk.yellow('Updating from existing mapping file...'));
+        mapper = await IdMapper.load(options.mapFile);
+      } else if (options.resume && mapExists) {
+        log(chalk.yellow('Resuming from existing mapping file...'));
+        mapper = await IdMapper.load(options.mapFile);
+      }
+
+      const result = await syncProject({
+        tasksFile: options.tasks,
+        backend: createBackend(options.backend, options.project, options.verbose, trace),
+        mapper,
+        mapFile: options.dryRun ? undefined : options.mapFile,
+        tag: options.tag,
+        allTags: options.allTags,
+        filter: {
+          only: options.only,
+          exclude: options.exclude,
+          statuses: options.status,
+          skipDone: options.skipDone,
+          outsideDependencies: options.outsideDeps,
+        },
+        tagMode: options.tagAs,
+        rules: mappingRules(options),
+        update: options.update,
+        concurrency: options.concurrency,
+        bulk: options.bulk,
+        reduceDependencies: options.reduceDeps,
+        dryRun: options.dryRun,
+        onEvent: createEventReporter(log),
+        confirmRollback: async (created: CreatedIssue[]) => {
+          if (options.rollbackOnFailure) return true;
+          if (!process.stdin.isTTY) return false;
+          if (!ndjson()) console.error(chalk.red(`\nSync failed after creating ${created.length} issue(s).`));
+          return confirm('Roll back the issues created in this run?');
+        },
+      });
+
+      if (options.dryRun) {
+        if (ndjson()) {
+          emitRecord('summary', { command: 'sync', dryRun: true, plan: result.plan });
+          return;
+        }
+        log(chalk.yellow('\n[DRY RUN] Sync plan:\n'));
+        console.log(renderPlan(result.plan!, options.format));
+        log(chalk.yellow('\nNo changes made.'));
+        return;
+      }
+
+      if (result.applied) {
+        printApplySummary('sync', result.applied, result.mapper);
+        return;
+      }
+
+      const stats = result.mapper.getStats();
+      emitRecord('summary', {
+        command: 'sync',
+        update: true,
+        epics: stats.epicCount,
+        children: stats.childCount,
+        created: result.created.length,
+      });
+      say(chalk.bold.green('\nUpdate complete!'));
+      say(`  Epics: ${stats.epicCount}`);
+      say(`  Children: ${stats.childCount}`);
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('plan')
+  .description('Build a reviewable sync plan without touching Beads')
+  .option('--tasks <path>', 'Path to tasks.json', '.taskmaster/tasks/tasks.json')
+  .addOption(
+    new Option('--format <format>', 'Output format').choices(PLAN_FORMATS).default('text'),
+  )
+  .option('-o, --out <path>', 'Write the plan to a file instead of stdout')
+  .option('--resume', 'Plan only the work missing from the existing mapping file')
+  .option('--tag <name>', 'Plan only this task-master tag')
+  .option('--all-tags', 'Plan every task-master tag in tasks.json')
+  .addOption(
+    new Option('--tag-as <mode>', 'Represent each tag in Beads as a label or an umbrella epic')
+      .choices(TAG_MODES),
+  )
+  .option('--raise-critical-path', 'Raise epics on the remaining critical path one priority level')
+  .option('--leaf-deps', "Also block a dependent task's entry subtasks on its prerequisites' exit subtasks")
+  .option('--map-file <path>', 'Path to ID mapping file', './tm2bd-map.json')
+  .action(async (options) => {
+    try {
+      let mapper = new IdMapper();
+      if (options.resume && (await IdMapper.exists(options.mapFile))) {
+        mapper = await IdMapper.load(options.mapFile);
+      }
+
+      // Keep stdout clean for the plan itself unless it goes to a file
+      const log = options.out ? say : sayToStderr;
+      const projects = await loadProjects(
+        options.tasks,
+        { tag: options.tag, allTags: options.allTags },
+        mapper,
+        createEventReporter(log),
+      );
+      const rules = mappingRules(options);
+      const wired = rules.leafDependencies ? projects.map(propagateLeafDependencies) : projects;
+      const plan = buildSyncPlan(wired, mapper, {
+        tasksFile: options.tasks,
+        tagMode: options.tagAs,
+        rules,
+      });
+      const rendered = renderPlan(plan, options.format);
+
+      if (options.out) {
+        await fs.writeFile(options.out, rendered, 'utf-8');
+        emitRecord('summary', { command: 'plan', out: options.out, operations: plan.operations.length });
+        say(chalk.green(`Plan with ${plan.operations.length} operation(s) written to ${options.out}`));
+      } else if (ndjson()) {
+        emitRecord('summary', { command: 'plan', plan });
+      } else {
+        process.stdout.write(rendered.endsWith('\n') ? rendered : rendered + '\n');
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('apply')
+  .description('Execute a sync plan written by `tm2bd plan --format json`')
+  .argument('<plan>', 'Path to plan JSON file')
+  .option('--project <path>', 'Path to project root with .beads/', '.')
+  .addOption(
+    new Option('--backend <kind>', 'Write through the bd CLI or directly to .beads/issues.jsonl')
+      .choices(BACKEND_KINDS)
+      .default('cli'),
+  )
+  .option('--force', 'Overwrite existing import (skip idempotency check)')
+  .option('--resume', 'Resume from partial mapping file')
+  .option('--map-file <path>', 'Path for ID mapping output', './tm2bd-map.json')
+  .option('--concurrency <n>', 'Beads calls to run at once', parsePositiveInteger, 1)
+  .option('--bulk', 'Create new issues with a single `bd import` (falls back when unsupported)')
+  .option('-v, --verbose', 'Verbose output')
+  .action(async (planFile: string, options) => {
+    try {
+      say(chalk.bold('tm2bd: Apply Sync Plan\n'));
+
+      const backend = createBackend(options.backend, options.project, options.verbose, trace);
+      const isInit = await backend.checkInit();
+      if (!isInit) {
+        throw new Tm2bdError('Beads not initialized. Run `bd init` first.', 'bd-missing');
+      }
+
+      const plan = await parseSyncPlan(planFile);
+      say(chalk.green(`  Loaded plan with ${plan.operations.length} operation(s)`));
+
+      const mapExists = await IdMapper.exists(options.mapFile);
+      if (mapExists && !options.force && !options.resume) {
+        throw new Tm2bdError(
+          `Mapping file ${options.mapFile} already exists.\nUse --force to overwrite or --resume to continue from it.`,
+          'mapping-conflict',
+        );
+      }
+
+      let mapper: IdMapper;
+      if (options.resume && mapExists) {
+        say(chalk.yellow('Resuming from existing mapping file...'));
+        mapper = await IdMapper.load(options.mapFile);
+      } else if (Object.keys(plan.bindings).length > 0) {
+        throw new Tm2bdError(
+          'Plan refers to existing issues but no mapping file was loaded.\nUse --resume with the mapping file the plan was built from.',
+          'mapping-conflict',
+        );
+      } else {
+        mapper = new IdMapper();
+      }
+      mapper.bindProject({ issuePrefix: await backend.getIssuePrefix(), tasksFile: plan.tasksFile });
+
+      const lock = await acquireLock(options.mapFile);
+      mapper.enableCheckpoints(options.mapFile);
+      try {
+        const report = createEventReporter();
+        const onOperation = (op: PlanOperation, current: number, total: number, outcome: OperationOutcome) =>
+          report({ type: 'operation', op, current, total, ...outcome });
+        const applyOptions = { concurrency: options.concurrency };
+        let result: ApplyResult | ImportResult;
+        if (options.bulk) {
+          const imported = await importSyncPlan(plan, backend, mapper, onOperation, applyOptions);
+          if (imported.fallback) report({ type: 'warning', message: imported.fallback });
+          result = imported;
+        } else {
+          result = await applySyncPlan(plan, backend, mapper, onOperation, applyOptions);
+        }
+        await mapper.save(options.mapFile);
+        report({ type: 'mapping-saved', path: options.mapFile });
+        printApplySummary('apply', result, mapper);
+      } finally {
+        await lock.release();
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('pull')
+  .description('Write Beads issue statuses back into tasks.json')
+  .option('--tasks <path>', 'Path to tasks.json', '.taskmaster/tasks/tasks.json')
+  .option('--project <path>', 'Path to project root with .beads/', '.')
+  .addOption(
+    new Option('--backend <kind>', 'Write through the bd CLI or directly to .beads/issues.jsonl')
+      .choices(BACKEND_KINDS)
+      .default('cli'),
+  )
+  .option('--dry-run', 'Report status changes without writing tasks.json')
+  .option('--map-file <path>', 'Path to ID mapping file', './tm2bd-map.json')
+  .option('-v, --verbose', 'Verbose output')
+  .action(async (options) => {
+    try {
+      say(chalk.bold('tm2bd: Beads to Task-Master Status Pull\n'));
+
+      const backend = createBackend(options.backend, options.project, options.verbose, trace);
+      const isInit = await backend.checkInit();
+      if (!isInit) {
+        throw new Tm2bdError('Beads not initialized. Run `bd init` first.', 'bd-missing');
+      }
+
+      if (!(await IdMapper.exists(options.mapFile))) {
+        throw new Tm2bdError(
+          `Mapping file ${options.mapFile} not found.\nRun \`tm2bd sync\` first.`,
+          'mapping-conflict',
+        );
+      }
+      const mapper = await IdMapper.load(options.mapFile);
+      mapper.bindProject({ issuePrefix: await backend.getIssuePrefix() });
+
+      say(chalk.blue('Querying Beads statuses...'));
+      const summary = await pullStatuses(options.tasks, backend, mapper, {
+        dryRun: options.dryRun,
+        rules: mappingRules(options),
+      });
+
+      for (const change of summary.changes) {
+        emitRecord('status-pulled', { ...change });
+        say(chalk.gray(`  ${change.tmId} (${change.beadsId}): ${change.from} → ${change.to}`));
+      }
+      for (const tmId of summary.missing) {
+        warn(`${tmId} is mapped but no longer in ${options.tasks}`);
+      }
+      emitRecord('summary', {
+        command: 'pull',
+        dryRun: options.dryRun ?? false,
+        updated: summary.changes.length,
+        unchanged: summary.unchanged,
+      });
+
+      if (options.dryRun) {
+        say(chalk.yellow(`\n[DRY RUN] ${summary.changes.length} status change(s), no changes made.`));
+        return;
+      }
+
+      say(chalk.bold.green('\nPull complete!'));
+      say(`  Updated: ${summary.changes.length}`);
+      say(`  Unchanged: ${summary.unchanged}`);
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('undo')
+  .description('Remove every Beads issue an import created, using the mapping file')
+  .option('--project <path>', 'Path to project root with .beads/', '.')
+  .addOption(
+    new Option('--backend <kind>', 'Write through the bd CLI or directly to .beads/issues.jsonl')
+      .choices(BACKEND_KINDS)
+      .default('cli'),
+  )
+  .option('--soft', 'Close the issues and label them instead of deleting them')
+  .option('--dry-run', 'List the issues that would be removed')
+  .option('-y, --yes', 'Do not ask for confirmation')
+  .option('--map-file <path>', 'Path to ID mapping file', './tm2bd-map.json')
+  .option('-v, --verbose', 'Verbose output')
+  .action(async (options) => {
+    try {
+      say(chalk.bold('tm2bd: Undo Import\n'));
+
+      if (!(await IdMapper.exists(options.mapFile))) {
+        throw new Tm2bdError(`Mapping file ${options.mapFile} not found.`, 'mapping-conflict');
+      }
+      const mapper = await IdMapper.load(options.mapFile);
+      const issues = mapper.getIssues();
+      const verb = options.soft ? 'closed' : 'deleted';
+
+      if (options.dryRun) {
+        if (ndjson()) {
+          emitRecord('summary', { command: 'undo', dryRun: true, issues });
+          return;
+        }
+        for (const issue of issues) {
+          const ref = issue.subtaskId !== undefined ? `${issue.taskId}.${issue.subtaskId}` : issue.taskId ?? '';
+          console.log(`  ${issue.beadsId}  ${issue.kind}  ${tagLabelPrefix(issue.tag)}${ref}`);
+        }
+        say(chalk.yellow(`\n[DRY RUN] ${issues.length} issue(s) would be ${verb}, no changes made.`));
+        return;
+      }
+
+      const backend = createBackend(options.backend, options.project, options.verbose, trace);
+      if (!(await backend.checkInit())) {
+        throw new Tm2bdError('Beads not initialized. Run `bd init` first.', 'bd-missing');
+      }
+      mapper.bindProject({ issuePrefix: await backend.getIssuePrefix() });
+
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          throw new Tm2bdError(
+            `Refusing to remove ${issues.length} issue(s) without confirmation; pass --yes.`,
+            'validation',
+          );
+        }
+        if (!(await confirm(`${verb === 'deleted' ? 'Delete' : 'Close'} ${issues.length} issue(s) created by tm2bd?`))) {
+          say(chalk.yellow('Aborted.'));
+          emitRecord('summary', { command: 'undo', aborted: true });
+          return;
+        }
+      }
+
+      const lock = await acquireLock(options.mapFile);
+      try {
+        mapper.enableCheckpoints(options.mapFile);
+        say(chalk.blue(options.soft ? 'Closing issues...' : 'Deleting issues...'));
+        const summary = await undoImport(backend, mapper, {
+          soft: options.soft,
+          onProgress: (_issue, current, total) => progress(`  ${current}/${total} issues`, current === total),
+        });
+        printUndoSummary(summary, verb);
+
+        if (summary.failed.length > 0) {
+          await mapper.save(options.mapFile);
+          emitRecord('summary', { command: 'undo', soft: options.soft ?? false, ...summary });
+          if (!ndjson()) {
+            console.error(
+              chalk.red(`\n${summary.failed.length} item(s) could not be undone.`),
+              `\nThe mapping file now lists only what is left; re-run \`tm2bd undo\` to retry.`,
+            );
+          }
+          process.exitCode = EXIT_CODES['bd-failure'];
+          return;
+        }
+        const archived = await archiveMapping(options.mapFile);
+        emitRecord('summary', { command: 'undo', soft: options.soft ?? false, ...summary, archivedTo: archived });
+        say(chalk.bold.green('\nUndo complete!'));
+        say(`  Mapping archived to ${archived}`);
+      } finally {
+        await lock.release();
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('validate')
+  .description('Check tasks.json for problems before syncing')
+  .option('--tasks <path>', 'Path to tasks.json', '.taskmaster/tasks/tasks.json')
+  .option('--tag <name>', 'Validate only this task-master tag')
+  .option('--all-tags', 'Validate every task-master tag in tasks.json')
+  .addOption(new Option('--format <format>', 'Output format').choices(['text', 'json']).default('text'))
+  .action(async (options) => {
+    try {
+      if (options.tag && options.allTags) {
+        throw new Tm2bdError('--tag and --all-tags cannot be used together.', 'validation');
+      }
+      const problems = await validateTasksFile(options.tasks, { tag: options.tag, allTags: options.allTags });
+      const errors = problems.filter((p) => p.severity === 'error').length;
+      const warnings = problems.length - errors;
+      if (errors > 0) process.exitCode = EXIT_CODES.validation;
+
+      if (ndjson()) {
+        emitRecord('summary', { command: 'validate', valid: errors === 0, errors, warnings, problems });
+        return;
+      }
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ valid: errors === 0, errors, warnings, problems }, null, 2));
+        return;
+      }
+      for (const problem of problems) {
+        const color = problem.severity === 'error' ? chalk.red : chalk.yellow;
+        console.log(`${color(problem.severity.padEnd(7))} ${chalk.gray(problem.path)}  ${problem.message}`);
+      }
+      if (problems.length === 0) {
+        say(chalk.bold.green(`${options.tasks} is valid.`));
+      } else {
+        const summary = `${errors} error(s), ${warnings} warning(s)`;
+        console.log(errors > 0 ? chalk.bold.red(`\n${summary}`) : chalk.bold.yellow(`\n${summary}`));
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('verify')
+  .description('Report drift between tasks.json, the mapping file and Beads')
+  .option('--tasks <path>', 'Path to tasks.json', '.taskmaster/tasks/tasks.json')
+  .option('--project <path>', 'Path to project root with .beads/', '.')
+  .addOption(
+    new Option('--backend <kind>', 'Write through the bd CLI or directly to .beads/issues.jsonl')
+      .choices(BACKEND_KINDS)
+      .default('cli'),
+  )
+  .option('--tag <name>', 'Verify only this task-master tag')
+  .option('--all-tags', 'Verify every task-master tag in tasks.json')
+  .option('--raise-critical-path', 'Raise epics on the remaining critical path one priority level')
+  .option('--leaf-deps', "Also block a dependent task's entry subtasks on its prerequisites' exit subtasks")
+  .option('--map-file <path>', 'Path to ID mapping file', './tm2bd-map.json')
+  .option('--json', 'Print the report as JSON')
+  .option('-v, --verbose', 'Verbose output')
+  .action(async (options) => {
+    try {
+      // Keep stdout clean for the report when it is JSON
+      const log = options.json ? sayToStderr : say;
+      if (!options.json) say(chalk.bold('tm2bd: Verify Beads against Task-Master\n'));
+
+      const backend = createBackend(options.backend, options.project, options.verbose, trace);
+      if (!(await backend.checkInit())) {
+        throw new Tm2bdError('Beads not initialized. Run `bd init` first.', 'bd-missing');
+      }
+      if (!(await IdMapper.exists(options.mapFile))) {
+        throw new Tm2bdError(
+          `Mapping file ${options.mapFile} not found.\nRun \`tm2bd sync\` first.`,
+          'mapping-conflict',
+        );
+      }
+      const mapper = await IdMapper.load(options.mapFile);
+      mapper.bindProject({ issuePrefix: await backend.getIssuePrefix() });
+
+      const projects = await loadProjects(
+        options.tasks,
+        { tag: options.tag, allTags: options.allTags },
+        mapper,
+        createEventReporter(log),
+      );
+      log(chalk.blue('Querying Beads issues...'));
+      const report = await verifyProjects(
+        projects,
+        backend,
+        mapper,
+        mappingRules(options),
+      );
+      if (report.drift.length > 0) process.exitCode = EXIT_CODES.failure;
+
+      if (ndjson()) {
+        emitRecord('summary', { command: 'verify', ...report });
+        return;
+      }
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+      for (const drift of report.drift) {
+        console.log(chalk.yellow(`  ${describeDrift(drift)}`));
+      }
+      if (report.drift.length === 0) {
+        say(chalk.bold.green(`\nNo drift across ${report.checked} issue(s).`));
+      } else {
+        console.log(chalk.bold.red(`\n${report.drift.length} difference(s) across ${report.checked} issue(s).`));
+        console.log('Run `tm2bd sync --update` to bring Beads back in line.');
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('lookup')
+  .description('Translate between Beads IDs and task-master IDs')
+  .argument('[ids...]', 'Beads IDs or task-master IDs such as 1.3, v2:1.3 or @v2; read from stdin when omitted')
+  .option('--tasks <path>', 'Path to tasks.json, for titles', '.taskmaster/tasks/tasks.json')
+  .option('--tag <name>', 'Resolve untagged task-master IDs in this tag only')
+  .option('--map-file <path>', 'Path to ID mapping file', './tm2bd-map.json')
+  .option('--json', 'Print the results as JSON')
+  .action(async (ids: string[], options) => {
+    try {
+      if (ids.length === 0) {
+        if (process.stdin.isTTY) {
+          throw new Tm2bdError('Pass IDs as arguments or pipe them on stdin.', 'validation');
+        }
+        ids = await readStdinWords();
+      }
+
+      if (!(await IdMapper.exists(options.mapFile))) {
+        throw new Tm2bdError(
+          `Mapping file ${options.mapFile} not found.\nRun \`tm2bd sync\` first.`,
+          'mapping-conflict',
+        );
+      }
+      const mapper = await IdMapper.load(options.mapFile);
+
+      let projects: TaggedProject[] = [];
+      try {
+        projects = await parseTaggedProjects(options.tasks, { allTags: true });
+      } catch (error) {
+        warn(`titles unavailable: ${error instanceof Error ? error.message : error}`);
+      }
+
+      const results = lookupIds(ids, mapper, projects, options.tag);
+      if (results.some((r) => r.matches.length === 0)) process.exitCode = EXIT_CODES.failure;
+
+      if (ndjson()) {
+        emitRecord('summary', { command: 'lookup', results });
+        return;
+      }
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
+      for (const { input, matches } of results) {
+        if (matches.length === 0) {
+          console.error(chalk.yellow(`${input}: not in the mapping`));
+        }
+        for (const match of matches) {
+          console.log([match.ref, match.beadsId, match.title ?? ''].join('\t'));
+        }
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('graph')
+  .description('Render the task dependency graph as Mermaid, Graphviz DOT or JSON')
+  .option('--tasks <path>', 'Path to tasks.json', '.taskmaster/tasks/tasks.json')
+  .addOption(new Option('--format <format>', 'Output format').choices(GRAPH_FORMATS).default('mermaid'))
+  .option('-o, --out <path>', 'Write the graph to a file instead of stdout')
+  .option('--focus <id>', "Show only this task's ancestors and descendants, e.g. 3, 3.2 or v2:3")
+  .option('--tag <name>', 'Graph only this task-master tag')
+  .option('--all-tags', 'Graph every task-master tag in tasks.json')
+  .option('--map-file <path>', 'ID mapping file to annotate nodes with Beads IDs', './tm2bd-map.json')
+  .action(async (options) => {
+    try {
+      // Beads IDs are shown when the tasks have been synced
+      const mapper = (await IdMapper.exists(options.mapFile)) ? await IdMapper.load(options.mapFile) : new IdMapper();
+      const projects = await loadProjects(
+        options.tasks,
+        { tag: options.tag, allTags: options.allTags },
+        mapper,
+        createEventReporter(options.out ? say : sayToStderr),
+      );
+
+      let graph = buildDependencyGraph(projects, mapper);
+      if (options.focus) graph = focusGraph(graph, options.focus);
+
+      const rendered = renderGraph(graph, options.format);
+      if (options.out) {
+        await fs.writeFile(options.out, rendered, 'utf-8');
+        emitRecord('summary', { command: 'graph', out: options.out, nodes: graph.nodes.length });
+        say(chalk.green(`Graph with ${graph.nodes.length} node(s) written to ${options.out}`));
+      } else if (ndjson()) {
+        emitRecord('summary', { command: 'graph', graph });
+      } else {
+        process.stdout.write(rendered);
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+function printSchedule(analysis: ScheduleAnalysis, tag: string | undefined): void {
+  const describePath = (path: CriticalPath) =>
+    path.taskIds.length > 0 ? `${path.taskIds.join(' → ')} (weight ${path.length})` : 'none';
+  if (tag !== undefined) console.log(chalk.bold(`\nTag "${tag}"`));
+  console.log(`Critical path: ${describePath(analysis.criticalPath)}`);
+  console.log(`Remaining critical path: ${describePath(analysis.remainingCriticalPath)}`);
+
+  console.log(chalk.blue('Tiers:'));
+  for (const tier of analysis.tiers) {
+    console.log(`  Tier ${tier.tier}: ${tier.width} task(s), ${tier.remaining} remaining`);
+  }
+
+  console.log(chalk.blue('Tasks:'));
+  console.log(chalk.gray(`  ${'ID'.padEnd(6)}${'Weight'.padEnd(8)}${'Start'.padEnd(7)}${'Slack'.padEnd(7)}Title`));
+  const critical = new Set(analysis.criticalPath.taskIds);
+  for (const task of analysis.tasks) {
+    const row = `  ${String(task.taskId).padEnd(6)}${String(task.weight).padEnd(8)}${String(task.earliestStart).padEnd(7)}${String(task.slack).padEnd(7)}${task.title}`;
+    console.log(critical.has(task.taskId) ? chalk.bold(row) : row);
+  }
+}
+
+program
+  .command('analyze')
+  .description('Report the complexity-weighted critical path, slack and tier widths')
+  .option('--tasks <path>', 'Path to tasks.json', '.taskmaster/tasks/tasks.json')
+  .option('--tag <name>', 'Analyze only this task-master tag')
+  .option('--all-tags', 'Analyze every task-master tag in tasks.json')
+  .addOption(new Option('--format <format>', 'Output format').choices(['text', 'json']).default('text'))
+  .action(async (options) => {
+    try {
+      const projects = await loadProjects(
+        options.tasks,
+        { tag: options.tag, allTags: options.allTags },
+        new IdMapper(),
+        createEventReporter(sayToStderr),
+      );
+      const analyses = projects.map((project) => ({ tag: project.tag, ...analyzeSchedule(project.tasks) }));
+
+      if (ndjson()) {
+        emitRecord('summary', { command: 'analyze', projects: analyses });
+        return;
+      }
+      if (options.format === 'json') {
+        console.log(JSON.stringify(analyses, null, 2));
+        return;
+      }
+      for (const { tag, ...analysis } of analyses) printSchedule(analysis, tag);
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program
+  .command('watch')
+  .description('Keep Beads in sync while tasks.json changes')
+  .option('--tasks <path>', 'Path to tasks.json', '.taskmaster/tasks/tasks.json')
+  .option('--project <path>', 'Path to project root with .beads/', '.')
+  .addOption(
+    new Option('--backend <kind>', 'Write through the bd CLI or directly to .beads/issues.jsonl')
+      .choices(BACKEND_KINDS)
+      .default('cli'),
+  )
+  .option('--tag <name>', 'Sync only this task-master tag')
+  .option('--all-tags', 'Sync every task-master tag in tasks.json')
+  .addOption(
+    new Option('--tag-as <mode>', 'Represent each tag in Beads as a label or an umbrella epic')
+      .choices(TAG_MODES),
+  )
+  .option('--raise-critical-path', 'Raise epics on the remaining critical path one priority level')
+  .option('--leaf-deps', "Also block a dependent task's entry subtasks on its prerequisites' exit subtasks")
+  .option('--reduce-deps', 'Leave out dependencies a longer chain of dependencies already implies')
+  .option('--map-file <path>', 'Path to ID mapping file', './tm2bd-map.json')
+  .option(
+    '--debounce <ms>',
+    'Wait this long after the last write before syncing',
+    parseNonNegativeInteger,
+    DEFAULT_DEBOUNCE_MS,
+  )
+  .option('-v, --verbose', 'Verbose output')
+  .action(async (options) => {
+    try {
+      say(chalk.bold('tm2bd: Watching Task-Master for changes\n'));
+
+      const stamp = () => chalk.gray(`[${new Date().toLocaleTimeString()}]`);
+      let report = createEventReporter();
+      const watcher = watchProject({
+        tasksFile: options.tasks,
+        backend: createBackend(options.backend, options.project, options.verbose, trace),
+        mapFile: options.mapFile,
+        tag: options.tag,
+        allTags: options.allTags,
+        tagMode: options.tagAs,
+        rules: mappingRules(options),
+        reduceDependencies: options.reduceDeps,
+        debounceMs: options.debounce,
+        onEvent: (event: WatchEvent) => {
+          switch (event.type) {
+            case 'watching':
+              emitRecord('phase', { phase: 'watch', path: event.path });
+              say(chalk.blue(`Watching ${event.path} (Ctrl-C to stop)`));
+              break;
+            case 'sync-started':
+              report = createEventReporter();
+              emitRecord('phase', { phase: 'sync', initial: event.initial });
+              say(`\n${stamp()} ${event.initial ? 'Initial sync' : 'Change detected, syncing'}`);
+              break;
+            case 'sync-finished': {
+              const { changes, created } = event.result;
+              emitRecord('summary', { command: 'watch', changes: changes?.length, created: created.length });
+              const detail = changes && changes.length === 0 ? 'nothing to apply' : `${created.length} issue(s) created`;
+              say(`${stamp()} ${chalk.green(`Synced, ${detail}`)}`);
+              break;
+            }
+            case 'sync-failed':
+              if (ndjson()) {
+                emitRecord('error', { class: 'failure', exitCode: EXIT_CODES.failure, message: event.message });
+                break;
+              }
+              console.error(`${stamp()} ${chalk.red('Sync failed:')} ${event.message}`);
+              console.error(chalk.yellow('  Waiting for the next change...'));
+              break;
+            default:
+              report(event);
+          }
+        },
+      });
+
+      await new Promise<void>((resolve) => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+      });
+      say(chalk.blue('\nStopping...'));
+      await watcher.close();
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+program.parseAsync().catch((error) => {
+  // Commander has already printed its own usage errors
+  if (error instanceof CommanderError) {
+    // A rejected option stops parsing before the preAction hook reads the output mode
+    output = { format: program.opts().output, quiet: program.opts().quiet ?? false };
+    if (error.exitCode !== 0) {
+      emitRecord('error', { class: 'validation', exitCode: EXIT_CODES.validation, message: error.message });
+    }
+    process.exit(error.exitCode === 0 ? 0 : EXIT_CODES.validation);
+  }
+  fail(error);
+});
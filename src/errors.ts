@@ -0,0 +1,52 @@
+/** What went wrong, coarsely enough for a script to react to. */
+export type FailureClass = 'validation' | 'bd-missing' | 'bd-failure' | 'mapping-conflict';
+
+/**
+ * Exit codes of the tm2bd CLI:
+ *
+ * - 0: success
+ * - 1: any other failure; also drift found by `verify` and unknown IDs in `lookup`
+ * - 2: validation: tasks.json, a plan file, the config or the options given
+ *   are invalid
+ * - 3: bd missing: the bd CLI is not installed or Beads is not initialized
+ * - 4: bd failure: a bd command failed or Beads data could not be read
+ * - 5: mapping conflict: the mapping file is missing, already exists, is
+ *   locked, unreadable, or belongs to another Beads project
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  validation: 2,
+  'bd-missing': 3,
+  'bd-failure': 4,
+  'mapping-conflict': 5,
+} as const;
+
+/** An error tm2bd can classify; anything else counts as a plain failure. */
+export class Tm2bdError extends Error {
+  constructor(
+    message: string,
+    readonly failure: FailureClass,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = 'Tm2bdError';
+  }
+}
+
+/** A Beads issue or dependency that does not exist; a bd failure to anyone not expecting it. */
+export class BeadsNotFoundError extends Tm2bdError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, 'bd-failure', options);
+    this.name = 'BeadsNotFoundError';
+  }
+}
+
+export function failureClass(error: unknown): FailureClass | undefined {
+  return error instanceof Tm2bdError ? error.failure : undefined;
+}
+
+export function exitCodeFor(error: unknown): number {
+  const failure = failureClass(error);
+  return failure ? EXIT_CODES[failure] : EXIT_CODES.failure;
+}
@@ -0,0 +1,128 @@
+import type { TaggedProject, TaskMasterStatus } from '../schemas/taskmaster.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { parseTaskRef, taskRef } from '../plan/planner.js';
+import { topologicalSort } from '../utils/topological-sort.js';
+import { Tm2bdError } from '../errors.js';
+
+/** A task or subtask in the dependency graph. */
+export interface GraphNode {
+  /** task-master reference, e.g. `3`, `3.2` or `v2:3.2`. */
+  ref: string;
+  tag?: string;
+  taskId: number;
+  subtaskId?: number;
+  title: string;
+  status: TaskMasterStatus;
+  /** Dependency tier of the task; subtasks share their parent's. */
+  tier: number;
+  /** From the mapping, when the node has been synced. */
+  beadsId?: string;
+  /** Refs of the nodes this one waits on. */
+  dependsOn: string[];
+}
+
+/** Nodes in tier order, tags kept together, each subtask after its parent. */
+export interface DependencyGraph {
+  nodes: GraphNode[];
+}
+
+/**
+ * Build the task and subtask dependency graph of the given projects,
+ * annotated with Beads IDs when a mapper is given. Projects must already
+ * be validated: dependencies are assumed to exist and form no cycle.
+ */
+export function buildDependencyGraph(projects: TaggedProject[], mapper?: IdMapper): DependencyGraph {
+  const nodes: GraphNode[] = [];
+
+  for (const project of projects) {
+    const { tag } = project;
+    const tagMapper = mapper?.forTag(tag);
+    for (const { task, tier } of topologicalSort(project.tasks)) {
+      const beadsId = tagMapper?.getEpicId(task.id);
+      nodes.push({
+        ref: taskRef(tag, task.id),
+        ...(tag !== undefined && { tag }),
+        taskId: task.id,
+        title: task.title,
+        status: task.status,
+        tier,
+        ...(beadsId && { beadsId }),
+        dependsOn: task.dependencies.map((depId) => taskRef(tag, depId)),
+      });
+
+      for (const subtask of task.subtasks ?? []) {
+        const childId = tagMapper?.getSubtaskId(task.id, subtask.id);
+        nodes.push({
+          ref: taskRef(tag, task.id, subtask.id),
+          ...(tag !== undefined && { tag }),
+          taskId: task.id,
+          subtaskId: subtask.id,
+          title: subtask.title,
+          status: subtask.status,
+          tier,
+          ...(childId && { beadsId: childId }),
+          dependsOn: (subtask.dependencies ?? []).map((dep) => taskRef(tag, dep.taskId, dep.subtaskId)),
+        });
+      }
+    }
+  }
+
+  return { nodes };
+}
+
+/** Nodes a focus reference names: a subtask, or a task with its subtasks. */
+function focusSeeds(graph: DependencyGraph, focus: string): GraphNode[] {
+  const ref = parseTaskRef(focus);
+  if (!ref) {
+    throw new Tm2bdError(`Invalid --focus value "${focus}"; expected a task ID such as 3, 3.2 or v2:3`, 'validation');
+  }
+  const seeds = graph.nodes.filter(
+    (node) =>
+      (ref.tag === undefined || node.tag === ref.tag) &&
+      node.taskId === ref.taskId &&
+      (ref.subtaskId === undefined || node.subtaskId === ref.subtaskId),
+  );
+  if (seeds.length === 0) {
+    throw new Tm2bdError(`Task ${focus} not found in the selected tasks`, 'validation');
+  }
+  return seeds;
+}
+
+/**
+ * Narrow the graph to a task's ancestors, the nodes it transitively waits
+ * on, and its descendants, the nodes that transitively wait on it.
+ * Focusing a task includes its subtasks. An untagged reference matches in
+ * every tag.
+ */
+export function focusGraph(graph: DependencyGraph, focus: string): DependencyGraph {
+  const byRef = new Map(graph.nodes.map((node) => [node.ref, node]));
+  const dependents = new Map<string, string[]>();
+  for (const node of graph.nodes) {
+    for (const dep of node.dependsOn) {
+      dependents.set(dep, [...(dependents.get(dep) ?? []), node.ref]);
+    }
+  }
+
+  const keep = new Set<string>();
+  const walk = (start: string[], next: (ref: string) => string[]) => {
+    const seen = new Set<string>();
+    const queue = [...start];
+    while (queue.length > 0) {
+      const ref = queue.shift()!;
+      if (seen.has(ref)) continue;
+      seen.add(ref);
+      keep.add(ref);
+      queue.push(...next(ref));
+    }
+  };
+
+  const seeds = focusSeeds(graph, focus).map((node) => node.ref);
+  walk(seeds, (ref) => byRef.get(ref)?.dependsOn ?? []);
+  walk(seeds, (ref) => dependents.get(ref) ?? []);
+
+  return {
+    nodes: graph.nodes
+      .filter((node) => keep.has(node.ref))
+      .map((node) => ({ ...node, dependsOn: node.dependsOn.filter((dep) => keep.has(dep)) })),
+  };
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import type { TaggedProject, TaskMasterTask } from '../schemas/taskmaster.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { buildDependencyGraph, focusGraph } from './dependency-graph.js';
+import { renderGraphDot, renderGraphMermaid } from './render.js';
+import { analyzeSchedule, criticalTaskIds } from './schedule.js';
+import { reduceDependencies } from './reduction.js';
+
+function makeTask(overrides: Partial<TaskMasterTask> & { id: number }): TaskMasterTask {
+  return {
+    title: `Task ${overrides.id}`,
+    description: '',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+// 1 ← 2 ← 3, and 4 on its own; 2.1 waits on 1
+const project: TaggedProject = {
+  tag: 'master',
+  tasks: [
+    makeTask({ id: 3, dependencies: [2] }),
+    makeTask({
+      id: 2,
+      dependencies: [1],
+      subtasks: [{ id: 1, title: 'Sub', description: '', status: 'in-progress', dependencies: [{ taskId: 1 }] }],
+    }),
+    makeTask({ id: 1, title: 'Say "hi"', status: 'done' }),
+    makeTask({ id: 4 }),
+  ],
+};
+
+describe('buildDependencyGraph', () => {
+  it('orders nodes by tier with subtasks after their parent', () => {
+    const graph = buildDependencyGraph([project]);
+    expect(graph.nodes.map((n) => [n.ref, n.tier])).toEqual([
+      ['master:1', 0],
+      ['master:4', 0],
+      ['master:2', 1],
+      ['master:2.1', 1],
+      ['master:3', 2],
+    ]);
+    expect(graph.nodes[3].dependsOn).toEqual(['master:1']);
+  });
+
+  it('annotates synced nodes with their Beads IDs', () => {
+    const mapper = new IdMapper();
+    mapper.forTag('master').addEpic(2, 'bd-2');
+    mapper.forTag('master').addSubtask(2, 1, 'bd-2.1');
+    const graph = buildDependencyGraph([project], mapper);
+    expect(graph.nodes.find((n) => n.ref === 'master:2')?.beadsId).toBe('bd-2');
+    expect(graph.nodes.find((n) => n.ref === 'master:2.1')?.beadsId).toBe('bd-2.1');
+    expect(graph.nodes.find((n) => n.ref === 'master:1')).not.toHaveProperty('beadsId');
+  });
+});
+
+describe('focusGraph', () => {
+  const graph = buildDependencyGraph([project]);
+
+  it("keeps a task's ancestors, descendants and subtasks", () => {
+    expect(focusGraph(graph, '2').nodes.map((n) => n.ref)).toEqual(['master:1', 'master:2', 'master:2.1', 'master:3']);
+  });
+
+  it('leaves out dependents of ancestors', () => {
+    expect(focusGraph(graph, '2.1').nodes.map((n) => n.ref)).toEqual(['master:1', 'master:2.1']);
+  });
+
+  it('rejects unknown tasks', () => {
+    expect(() => focusGraph(graph, '9')).toThrow('Task 9 not found');
+    expect(() => focusGraph(graph, 'x.y')).toThrow('Invalid --focus value');
+  });
+});
+
+describe('render', () => {
+  const graph = buildDependencyGraph([project]);
+
+  it('renders Mermaid with a subgraph per tier and a class per status', () => {
+    const mermaid = renderGraphMermaid(graph);
+    expect(mermaid).toContain('subgraph g0["master: Tier 0"]');
+    expect(mermaid).toContain('n0["1: Say #quot;hi#quot;"]:::done');
+    expect(mermaid).toContain('n3["2.1: Sub"]:::in_progress');
+    expect(mermaid).toContain('n0 --> n2');
+    expect(mermaid).toContain('classDef in_progress');
+  });
+
+  it('renders DOT with a cluster per tier and escaped labels', () => {
+    const dot = renderGraphDot(graph);
+    expect(dot).toContain('subgraph cluster_2 {');
+    expect(dot).toContain('n0 [label="1: Say \\"hi\\"", fillcolor="#c8e6c9"');
+    expect(dot).toContain('n2 -> n4;');
+  });
+});
+
+describe('analyzeSchedule', () => {
+  // 1 (3) → 2 (4) → 4 (2), and 1 → 3 (1) → 4
+  const tasks = [
+    makeTask({ id: 1, complexity: 3, status: 'done' }),
+    makeTask({ id: 2, complexity: 4, dependencies: [1] }),
+    makeTask({ id: 3, complexity: 1, dependencies: [1] }),
+    makeTask({ id: 4, complexity: 2, dependencies: [2, 3] }),
+  ];
+
+  it('finds the complexity-weighted critical path and slack', () => {
+    const analysis = analyzeSchedule(tasks);
+    expect(analysis.criticalPath).toEqual({ taskIds: [1, 2, 4], length: 9 });
+    expect(analysis.tasks.map((t) => [t.taskId, t.earliestStart, t.slack])).toEqual([
+      [1, 0, 0],
+      [2, 3, 0],
+      [3, 3, 3],
+      [4, 7, 0],
+    ]);
+  });
+
+  it('counts tier widths and leaves finished work out of the remaining path', () => {
+    const analysis = analyzeSchedule(tasks);
+    expect(analysis.tiers).toEqual([
+      { tier: 0, width: 1, remaining: 0 },
+      { tier: 1, width: 2, remaining: 2 },
+      { tier: 2, width: 1, remaining: 1 },
+    ]);
+    expect(analysis.remainingCriticalPath).toEqual({ taskIds: [2, 4], length: 6 });
+    expect(criticalTaskIds(tasks)).toEqual(new Set([2, 4]));
+  });
+
+  it('weighs unscored tasks at the middle of the scale', () => {
+    const analysis = analyzeSchedule([makeTask({ id: 1 }), makeTask({ id: 2, complexity: 9 })]);
+    expect(analysis.criticalPath).toEqual({ taskIds: [2], length: 9 });
+    expect(analysis.tasks[0]).toMatchObject({ weight: 5, slack: 4 });
+  });
+});
+
+describe('reduceDependencies', () => {
+  // 3 waits on 1 directly and through 2; 2.1 waits on 1 directly and through 2.2
+  const diamond: TaggedProject = {
+    tag: 'master',
+    tasks: [
+      makeTask({ id: 1 }),
+      makeTask({
+        id: 2,
+        dependencies: [1],
+        subtasks: [
+          { id: 1, title: 'A', description: '', status: 'pending', dependencies: [{ taskId: 1 }, { taskId: 2, subtaskId: 2 }] },
+          { id: 2, title: 'B', description: '', status: 'pending', dependencies: [{ taskId: 1 }] },
+        ],
+      }),
+      makeTask({ id: 3, dependencies: [1, 2] }),
+    ],
+  };
+
+  it('drops task and subtask edges implied by a longer chain', () => {
+    const { project: reduced, dropped } = reduceDependencies(diamond);
+    expect(dropped).toEqual([
+      { blocked: 'master:2.1', blocking: 'master:1', via: ['master:2.2'] },
+      { blocked: 'master:3', blocking: 'master:1', via: ['master:2'] },
+    ]);
+    expect(reduced.tasks[2].dependencies).toEqual([2]);
+    expect(reduced.tasks[1].subtasks![0].dependencies).toEqual([{ taskId: 2, subtaskId: 2 }]);
+    expect(reduced.tasks[1].subtasks![1].dependencies).toEqual([{ taskId: 1 }]);
+  });
+
+  it('leaves an already reduced graph alone', () => {
+    expect(reduceDependencies(project).dropped).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import type { TaggedProject } from '../schemas/taskmaster.js';
+import { taskRef } from '../plan/planner.js';
+import { buildDependencyGraph } from './dependency-graph.js';
+
+/** A dependency implied by a longer chain of other dependencies. */
+export interface RedundantDependency {
+  blocked: string;
+  blocking: string;
+  /** Refs between the two ends on the chain that implies the edge. */
+  via: string[];
+}
+
+export interface ReducedProject {
+  project: TaggedProject;
+  dropped: RedundantDependency[];
+}
+
+/**
+ * Shortest chain from `from` to `to` over dependency edges, as the refs
+ * strictly between them, or undefined when `to` is out of reach.
+ */
+function findChain(
+  dependsOn: Map<string, string[]>,
+  from: string,
+  to: string,
+): string[] | undefined {
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const ref = queue.shift()!;
+    if (ref === to) {
+      const chain: string[] = [];
+      for (let at = previous.get(to)!; at !== from; at = previous.get(at)!) chain.unshift(at);
+      return chain;
+    }
+    for (const next of dependsOn.get(ref) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, ref);
+        queue.push(next);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Drop every dependency that another chain of dependencies already
+ * implies: the transitive reduction of the combined task and subtask
+ * graph, whose edges all become Beads blocking edges. The project must
+ * be validated and acyclic. Reachability is unchanged, so the reduced
+ * project blocks exactly the same work.
+ */
+export function reduceDependencies(project: TaggedProject): ReducedProject {
+  const { tag } = project;
+  const graph = buildDependencyGraph([project]);
+  const dependsOn = new Map(graph.nodes.map((node) => [node.ref, node.dependsOn]));
+
+  const dropped: RedundantDependency[] = [];
+  const droppedKeys = new Set<string>();
+  for (const node of graph.nodes) {
+    for (const blocking of new Set(node.dependsOn)) {
+      // Implied when another direct dependency reaches the same target
+      for (const other of node.dependsOn) {
+        if (other === blocking) continue;
+        const chain = findChain(dependsOn, other, blocking);
+        if (chain) {
+          dropped.push({ blocked: node.ref, blocking, via: [other, ...chain] });
+          droppedKeys.add(`${node.ref}\0${blocking}`);
+          break;
+        }
+      }
+    }
+  }
+
+  const keep = (blocked: string, blocking: string) => !droppedKeys.has(`${blocked}\0${blocking}`);
+  return {
+    project: {
+      ...project,
+      tasks: project.tasks.map((task) => {
+        const ref = taskRef(tag, task.id);
+        return {
+          ...task,
+          dependencies: task.dependencies.filter((depId) => keep(ref, taskRef(tag, depId))),
+          ...(task.subtasks && {
+            subtasks: task.subtasks.map((subtask) => {
+              const childRef = taskRef(tag, task.id, subtask.id);
+              return {
+                ...subtask,
+                ...(subtask.dependencies && {
+                  dependencies: subtask.dependencies.filter((dep) =>
+                    keep(childRef, taskRef(tag, dep.taskId, dep.subtaskId)),
+                  ),
+                }),
+              };
+            }),
+          }),
+        };
+      }),
+    },
+    dropped,
+  };
+}
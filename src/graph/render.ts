@@ -0,0 +1,118 @@
+import type { TaskMasterStatus } from '../schemas/taskmaster.js';
+import type { DependencyGraph, GraphNode } from './dependency-graph.js';
+
+export type GraphFormat = 'mermaid' | 'dot' | 'json';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['mermaid', 'dot', 'json'];
+
+/** Fill and border colors per status, shared by Mermaid and DOT. */
+const STATUS_COLORS: Record<TaskMasterStatus, { fill: string; stroke: string }> = {
+  pending: { fill: '#eceff1', stroke: '#607d8b' },
+  'in-progress': { fill: '#bbdefb', stroke: '#1565c0' },
+  done: { fill: '#c8e6c9', stroke: '#2e7d32' },
+  blocked: { fill: '#ffcdd2', stroke: '#c62828' },
+  deferred: { fill: '#fff9c4', stroke: '#f9a825' },
+  cancelled: { fill: '#f5f5f5', stroke: '#9e9e9e' },
+};
+
+/** Nodes grouped by tag and tier, in graph order. */
+function tierGroups(graph: DependencyGraph): { label: string; nodes: GraphNode[] }[] {
+  const groups = new Map<string, { label: string; nodes: GraphNode[] }>();
+  for (const node of graph.nodes) {
+    const key = `${node.tag ?? ''}\0${node.tier}`;
+    let group = groups.get(key);
+    if (!group) {
+      const prefix = node.tag !== undefined ? `${node.tag}: ` : '';
+      group = { label: `${prefix}Tier ${node.tier}`, nodes: [] };
+      groups.set(key, group);
+    }
+    group.nodes.push(node);
+  }
+  return [...groups.values()];
+}
+
+/** Node IDs safe in both Mermaid and DOT, which refs like `v2:3.1` are not. */
+function nodeIds(graph: DependencyGraph): Map<string, string> {
+  return new Map(graph.nodes.map((node, i) => [node.ref, `n${i}`]));
+}
+
+function nodeLabel(node: GraphNode): string[] {
+  const id = node.subtaskId === undefined ? `${node.taskId}` : `${node.taskId}.${node.subtaskId}`;
+  return [`${id}: ${node.title}`, ...(node.beadsId ? [node.beadsId] : [])];
+}
+
+/** Mermaid renders `#quot;`-style entities inside quoted labels. */
+function mermaidText(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+const mermaidClass = (status: TaskMasterStatus) => status.replace(/-/g, '_');
+
+/** Render as a Mermaid flowchart, dependencies pointing at their dependents. */
+export function renderGraphMermaid(graph: DependencyGraph): string {
+  const ids = nodeIds(graph);
+  const lines = ['flowchart LR'];
+
+  tierGroups(graph).forEach((group, i) => {
+    lines.push(`  subgraph g${i}["${mermaidText(group.label)}"]`);
+    for (const node of group.nodes) {
+      const label = nodeLabel(node).map(mermaidText).join('<br/>');
+      lines.push(`    ${ids.get(node.ref)}["${label}"]:::${mermaidClass(node.status)}`);
+    }
+    lines.push('  end');
+  });
+
+  for (const node of graph.nodes) {
+    for (const dep of node.dependsOn) {
+      lines.push(`  ${ids.get(dep)} --> ${ids.get(node.ref)}`);
+    }
+  }
+
+  const statuses = new Set(graph.nodes.map((node) => node.status));
+  for (const status of statuses) {
+    const { fill, stroke } = STATUS_COLORS[status];
+    lines.push(`  classDef ${mermaidClass(status)} fill:${fill},stroke:${stroke}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function dotEscape(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/** Render as a Graphviz digraph with one cluster per tier. */
+export function renderGraphDot(graph: DependencyGraph): string {
+  const ids = nodeIds(graph);
+  const lines = ['digraph tasks {', '  rankdir=LR;', '  node [shape=box, style="rounded,filled"];'];
+
+  tierGroups(graph).forEach((group, i) => {
+    lines.push(`  subgraph cluster_${i} {`, `    label="${dotEscape(group.label)}";`);
+    for (const node of group.nodes) {
+      const { fill, stroke } = STATUS_COLORS[node.status];
+      const label = nodeLabel(node).map(dotEscape).join('\\n');
+      lines.push(`    ${ids.get(node.ref)} [label="${label}", fillcolor="${fill}", color="${stroke}"];`);
+    }
+    lines.push('  }');
+  });
+
+  for (const node of graph.nodes) {
+    for (const dep of node.dependsOn) {
+      lines.push(`  ${ids.get(dep)} -> ${ids.get(node.ref)};`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+export function renderGraph(graph: DependencyGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'mermaid':
+      return renderGraphMermaid(graph);
+    case 'dot':
+      return renderGraphDot(graph);
+    case 'json':
+      return JSON.stringify(graph, null, 2) + '\n';
+  }
+}
@@ -0,0 +1,159 @@
+import type { TaskMasterStatus, TaskMasterTask } from '../schemas/taskmaster.js';
+import { topologicalSort } from '../utils/topological-sort.js';
+
+/** Weight of a task without a complexity score: the middle of task-master's 1–10 scale. */
+export const DEFAULT_COMPLEXITY = 5;
+
+/** Statuses whose work is behind us and no longer counts toward the remaining path. */
+const FINISHED: TaskMasterStatus[] = ['done', 'cancelled'];
+
+export interface TaskSchedule {
+  taskId: number;
+  title: string;
+  status: TaskMasterStatus;
+  tier: number;
+  /** Complexity score, or {@link DEFAULT_COMPLEXITY} when unscored. */
+  weight: number;
+  /** Weight still to do: 0 once the task is done or cancelled. */
+  remaining: number;
+  /** Earliest point the task can start, in weight units from the beginning. */
+  earliestStart: number;
+  /** Latest it can start without lengthening the critical path. */
+  latestStart: number;
+  /** How far the task can slip; 0 on the critical path. */
+  slack: number;
+}
+
+export interface CriticalPath {
+  /** Task IDs from first to last. */
+  taskIds: number[];
+  /** Sum of the weights along the path. */
+  length: number;
+}
+
+export interface TierWidth {
+  tier: number;
+  /** Tasks in the tier, which can all be worked on in parallel. */
+  width: number;
+  /** Of those, the ones not yet done or cancelled. */
+  remaining: number;
+}
+
+export interface ScheduleAnalysis {
+  /** In tier order. */
+  tasks: TaskSchedule[];
+  criticalPath: CriticalPath;
+  /** The critical path of the work left, finished tasks weighing nothing. */
+  remainingCriticalPath: CriticalPath;
+  tiers: TierWidth[];
+}
+
+interface Timing {
+  earliestStart: Map<number, number>;
+  latestStart: Map<number, number>;
+  path: CriticalPath;
+}
+
+/**
+ * Forward and backward pass over tasks in topological order: earliest
+ * starts from dependencies, latest starts from dependents, and one longest
+ * chain, preferring lower task IDs on ties.
+ */
+function computeTiming(sorted: TaskMasterTask[], weight: (task: TaskMasterTask) => number): Timing {
+  const byId = new Map(sorted.map((task) => [task.id, task]));
+  const earliestStart = new Map<number, number>();
+  const finish = (id: number) => earliestStart.get(id)! + weight(byId.get(id)!);
+
+  for (const task of sorted) {
+    earliestStart.set(task.id, Math.max(0, ...task.dependencies.map(finish)));
+  }
+  const length = Math.max(0, ...sorted.map((task) => finish(task.id)));
+
+  const dependents = new Map<number, number[]>();
+  for (const task of sorted) {
+    for (const depId of task.dependencies) {
+      dependents.set(depId, [...(dependents.get(depId) ?? []), task.id]);
+    }
+  }
+  const latestStart = new Map<number, number>();
+  for (const task of [...sorted].reverse()) {
+    const latestFinish = Math.min(length, ...(dependents.get(task.id) ?? []).map((id) => latestStart.get(id)!));
+    latestStart.set(task.id, latestFinish - weight(task));
+  }
+
+  // Walk back from the task that finishes last through the dependency
+  // that held it up
+  const taskIds: number[] = [];
+  let current = sorted
+    .filter((task) => finish(task.id) === length)
+    .sort((a, b) => a.id - b.id)[0];
+  while (current && length > 0) {
+    taskIds.unshift(current.id);
+    const start = earliestStart.get(current.id)!;
+    current = current.dependencies
+      .filter((depId) => finish(depId) === start)
+      .sort((a, b) => a - b)
+      .map((depId) => byId.get(depId)!)[0];
+  }
+
+  return { earliestStart, latestStart, path: { taskIds, length } };
+}
+
+function taskWeight(task: TaskMasterTask): number {
+  return task.complexity ?? DEFAULT_COMPLEXITY;
+}
+
+function remainingWeight(task: TaskMasterTask): number {
+  return FINISHED.includes(task.status) ? 0 : taskWeight(task);
+}
+
+/**
+ * Complexity-weighted schedule of a project's tasks: the critical path,
+ * each task's slack, how much work each dependency tier holds, and the
+ * critical path of what is left given current statuses. Subtasks are
+ * part of their task's weight. Tasks must form no cycle.
+ */
+export function analyzeSchedule(tasks: TaskMasterTask[]): ScheduleAnalysis {
+  const sorted = topologicalSort(tasks);
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const ordered = sorted.map((s) => s.task);
+  const full = computeTiming(ordered, taskWeight);
+  const remaining = computeTiming(ordered, remainingWeight);
+
+  const tiers: TierWidth[] = [];
+  for (const { task, tier } of sorted) {
+    tiers[tier] ??= { tier, width: 0, remaining: 0 };
+    tiers[tier].width++;
+    if (!FINISHED.includes(task.status)) tiers[tier].remaining++;
+  }
+
+  return {
+    tasks: sorted.map(({ task, tier }) => {
+      const earliestStart = full.earliestStart.get(task.id)!;
+      const latestStart = full.latestStart.get(task.id)!;
+      return {
+        taskId: task.id,
+        title: task.title,
+        status: task.status,
+        tier,
+        weight: taskWeight(task),
+        remaining: remainingWeight(task),
+        earliestStart,
+        latestStart,
+        slack: latestStart - earliestStart,
+      };
+    }),
+    criticalPath: full.path,
+    remainingCriticalPath: {
+      // Finished tasks weigh nothing but can still head the chain
+      taskIds: remaining.path.taskIds.filter((id) => remainingWeight(byId.get(id)!) > 0),
+      length: remaining.path.length,
+    },
+    tiers,
+  };
+}
+
+/** Unfinished tasks on the remaining critical path, whose Beads priority sync may raise. */
+export function criticalTaskIds(tasks: TaskMasterTask[]): Set<number> {
+  return new Set(analyzeSchedule(tasks).remainingCriticalPath.taskIds);
+}
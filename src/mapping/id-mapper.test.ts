@@ -3,6 +3,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import { IdMapper } from './id-mapper.js';
+import { MAPPING_VERSION } from '../schemas/mapping.js';
 
 describe('IdMapper', () => {
   it('adds and retrieves epic IDs', () => {
@@ -29,6 +30,15 @@ describe('IdMapper', () => {
     expect(() => mapper.addSubtask(99, 1, 'bd-x.1')).toThrow('not found');
   });
 
+  it('recognizes mapped Beads IDs', () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-abc');
+    mapper.addSubtask(1, 1, 'bd-abc.1');
+    expect(mapper.hasBeadsId('bd-abc')).toBe(true);
+    expect(mapper.hasBeadsId('bd-abc.1')).toBe(true);
+    expect(mapper.hasBeadsId('bd-other')).toBe(false);
+  });
+
   it('tracks stats correctly', () => {
     const mapper = new IdMapper();
     mapper.addEpic(1, 'bd-a');
@@ -41,6 +51,139 @@ describe('IdMapper', () => {
     expect(stats.childCount).toBe(3);
   });
 
+  describe('tag scoping', () => {
+    it('keeps repeated task IDs apart per tag', () => {
+      const mapper = new IdMapper();
+      const master = mapper.forTag('master');
+      const v2 = mapper.forTag('v2');
+      master.addEpic(1, 'bd-a');
+      v2.addEpic(1, 'bd-b');
+      v2.addSubtask(1, 1, 'bd-b.1');
+      expect(master.getEpicId(1)).toBe('bd-a');
+      expect(v2.getEpicId(1)).toBe('bd-b');
+      expect(master.getSubtaskId(1, 1)).toBeUndefined();
+      expect(mapper.getStats()).toEqual({ epicCount: 2, childCount: 1 });
+      expect(v2.getStats()).toEqual({ epicCount: 1, childCount: 1 });
+    });
+
+    it('claims untagged entries for a tag', () => {
+      const mapper = new IdMapper();
+      mapper.addEpic(1, 'bd-a');
+      mapper.assignTag('master');
+      expect(mapper.getTags()).toEqual(['master']);
+      expect(mapper.forTag('master').getEpicId(1)).toBe('bd-a');
+    });
+
+    it('tracks one umbrella epic per tag', () => {
+      const mapper = new IdMapper();
+      mapper.forTag('v2').setTagEpicId('bd-tag');
+      expect(mapper.forTag('v2').getTagEpicId()).toBe('bd-tag');
+      expect(mapper.forTag('master').getTagEpicId()).toBeUndefined();
+      expect(() => mapper.setTagEpicId('bd-x')).toThrow('tag-scoped');
+    });
+
+    it("replaces a tag's reduced dependencies and claims untagged ones", () => {
+      const mapper = new IdMapper();
+      mapper.setReducedDependencies([{ blocked: '3', blocking: '1', via: ['2'] }]);
+      mapper.assignTag('master');
+      mapper.forTag('v2').setReducedDependencies([{ blocked: 'v2:5', blocking: 'v2:3', via: ['v2:4'] }]);
+      expect(mapper.forTag('master').getReducedDependencies()).toEqual([
+        { tag: 'master', blocked: 'master:3', blocking: 'master:1', via: ['master:2'] },
+      ]);
+
+      mapper.forTag('master').setReducedDependencies([]);
+      expect(mapper.forTag('master').getReducedDependencies()).toEqual([]);
+      expect(mapper.getReducedDependencies()).toHaveLength(1);
+    });
+  });
+
+  it('lists issues and forgets one with its journal', () => {
+    const mapper = new IdMapper();
+    const v1 = mapper.forTag('v1');
+    v1.setTagEpicId('bd-tag');
+    v1.addEpic(1, 'bd-1');
+    v1.addSubtask(1, 1, 'bd-1.1');
+    mapper.recordDependency('bd-1.1', 'bd-x');
+    mapper.recordStatus('bd-1.1', 'closed');
+
+    expect(mapper.getIssues()).toEqual([
+      { beadsId: 'bd-tag', kind: 'tag-epic', tag: 'v1' },
+      { beadsId: 'bd-1', kind: 'epic', tag: 'v1', taskId: 1 },
+      { beadsId: 'bd-1.1', kind: 'child', tag: 'v1', taskId: 1, subtaskId: 1 },
+    ]);
+
+    mapper.forgetIssue('bd-1.1');
+    expect(v1.getSubtaskId(1, 1)).toBeUndefined();
+    expect(mapper.getDependencies()).toEqual([]);
+    expect(mapper.getAppliedStatus('bd-1.1')).toBeUndefined();
+
+    mapper.forgetIssue('bd-1');
+    mapper.forgetIssue('bd-tag');
+    expect(mapper.getIssues()).toEqual([]);
+  });
+
+  it('finds what a Beads ID stands for and keeps lookups current', () => {
+    const mapper = new IdMapper();
+    const v2 = mapper.forTag('v2');
+    v2.setTagEpicId('bd-tag');
+    v2.addEpic(1, 'bd-a');
+    v2.addSubtask(1, 2, 'bd-a.2');
+    expect(mapper.findIssue('bd-a.2')).toEqual({ beadsId: 'bd-a.2', kind: 'child', tag: 'v2', taskId: 1, subtaskId: 2 });
+    expect(mapper.findIssue('bd-tag')).toEqual({ beadsId: 'bd-tag', kind: 'tag-epic', tag: 'v2' });
+
+    mapper.forgetIssue('bd-a');
+    expect(mapper.findIssue('bd-a.2')).toBeUndefined();
+    expect(v2.getSubtaskId(1, 2)).toBeUndefined();
+    v2.addEpic(1, 'bd-b');
+    expect(v2.getEpicId(1)).toBe('bd-b');
+    expect(mapper.hasBeadsId('bd-b')).toBe(true);
+  });
+
+  it('refuses to bind to a project with another issue prefix', () => {
+    const mapper = new IdMapper();
+    mapper.bindProject({ issuePrefix: 'wp' });
+    mapper.bindProject({ issuePrefix: undefined, tasksFile: 'tasks.json' });
+    expect(mapper.getProject()).toEqual({ issuePrefix: 'wp', tasksFile: 'tasks.json' });
+    expect(() => mapper.bindProject({ issuePrefix: 'bd' })).toThrow(
+      'Mapping file belongs to Beads project "wp" but the target project uses prefix "bd"',
+    );
+  });
+
+  it('judges a mapping without a recorded prefix by its issue IDs', () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'wp-a1');
+    mapper.addSubtask(1, 1, 'wp-a1.1');
+    expect(() => mapper.bindProject({ issuePrefix: 'bd' })).toThrow('belongs to Beads project "wp"');
+    mapper.bindProject({ issuePrefix: 'wp' });
+    expect(mapper.getProject().issuePrefix).toBe('wp');
+  });
+
+  it('stamps only tasks whose content changed', () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-a');
+    mapper.addSubtask(1, 1, 'bd-a.1');
+    mapper.addEpic(2, 'bd-b');
+    const task = (id: number, title: string) => ({
+      id,
+      title,
+      description: '',
+      status: 'pending' as const,
+      priority: 'medium' as const,
+      dependencies: [],
+      subtasks: id === 1 ? [{ id: 1, title: 'S', description: '', status: 'pending' as const }] : undefined,
+    });
+
+    mapper.recordSynced([task(1, 'One'), task(2, 'Two')]);
+    const [first, second] = mapper.getMappings().map((m) => ({ ...m }));
+    expect(first.hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(first.subtasks[0].syncedAt).toBeDefined();
+
+    mapper.recordSynced([task(1, 'One'), task(2, 'Renamed')]);
+    const [firstAgain, secondAgain] = mapper.getMappings();
+    expect(firstAgain.hash).toBe(first.hash);
+    expect(secondAgain.hash).not.toBe(second.hash);
+  });
+
   describe('persistence', () => {
     let tmpDir: string;
 
@@ -67,6 +210,102 @@ describe('IdMapper', () => {
       expect(loaded.getEpicId(2)).toBe('bd-def');
     });
 
+    it('persists tags and umbrella epics', async () => {
+      const mapper = new IdMapper();
+      const v2 = mapper.forTag('v2');
+      v2.setTagEpicId('bd-tag');
+      v2.addEpic(3, 'bd-tag.1');
+
+      const file = path.join(tmpDir, 'tags.json');
+      await mapper.save(file);
+
+      const loaded = await IdMapper.load(file);
+      expect(loaded.forTag('v2').getEpicId(3)).toBe('bd-tag.1');
+      expect(loaded.forTag('v2').getTagEpicId()).toBe('bd-tag');
+      expect(loaded.getEpicId(3)).toBeUndefined();
+    });
+
+    it('persists the journal of applied operations', async () => {
+      const mapper = new IdMapper();
+      mapper.addEpic(1, 'bd-a');
+      mapper.addEpic(2, 'bd-b');
+      mapper.recordDependency('bd-b', 'bd-a');
+      mapper.recordStatus('bd-a', 'closed');
+      mapper.setReducedDependencies([{ blocked: '3', blocking: '1', via: ['2'] }]);
+
+      const file = path.join(tmpDir, 'journal.json');
+      await mapper.save(file);
+
+      const loaded = await IdMapper.load(file);
+      expect(loaded.hasDependency('bd-b', 'bd-a')).toBe(true);
+      expect(loaded.hasDependency('bd-a', 'bd-b')).toBe(false);
+      expect(loaded.getAppliedStatus('bd-a')).toBe('closed');
+      expect(loaded.getReducedDependencies()).toEqual([{ blocked: '3', blocking: '1', via: ['2'] }]);
+    });
+
+    it('loads v1.0 files without a journal', async () => {
+      const file = path.join(tmpDir, 'legacy.json');
+      await fs.writeFile(file, JSON.stringify({
+        version: '1.0',
+        generatedAt: '2026-01-01T00:00:00.000Z',
+        tasks: [{ tmId: 1, beadsId: 'bd-a', subtasks: [] }],
+      }));
+      const loaded = await IdMapper.load(file);
+      expect(loaded.getEpicId(1)).toBe('bd-a');
+      expect(loaded.hasDependency('bd-a', 'bd-b')).toBe(false);
+    });
+
+    it('migrates v1.0 files to the current version on save', async () => {
+      const file = path.join(tmpDir, 'migrate.json');
+      await fs.writeFile(file, JSON.stringify({
+        version: '1.0',
+        generatedAt: '2026-01-01T00:00:00.000Z',
+        tasks: [{ tmId: 1, beadsId: 'wp-a', tag: 'master', subtasks: [] }],
+        journal: { statuses: [{ beadsId: 'wp-a', status: 'closed' }] },
+      }));
+      const loaded = await IdMapper.load(file);
+      expect(loaded.getProject()).toEqual({});
+      loaded.bindProject({ issuePrefix: 'wp', tasksFile: 'tasks.json' });
+      await loaded.save(file);
+
+      const saved = JSON.parse(await fs.readFile(file, 'utf-8'));
+      expect(saved.version).toBe(MAPPING_VERSION);
+      expect(saved.project).toEqual({ issuePrefix: 'wp', tasksFile: 'tasks.json' });
+      expect(saved.journal).toEqual({
+        dependencies: [],
+        statuses: [{ beadsId: 'wp-a', status: 'closed' }],
+        labels: [],
+      });
+    });
+
+    it('rejects invalid mapping files with the offending path', async () => {
+      const file = path.join(tmpDir, 'invalid.json');
+      await fs.writeFile(file, JSON.stringify({
+        version: MAPPING_VERSION,
+        generatedAt: '2026-01-01T00:00:00.000Z',
+        project: {},
+        tasks: [{ tmId: '1', beadsId: 'bd-a', subtasks: [] }],
+        journal: {},
+      }));
+      await expect(IdMapper.load(file)).rejects.toThrow('tasks.0.tmId');
+
+      await fs.writeFile(file, JSON.stringify({ version: '3.0' }));
+      await expect(IdMapper.load(file)).rejects.toThrow('Unsupported mapping file version "3.0"');
+    });
+
+    it('writes on checkpoint only when enabled', async () => {
+      const file = path.join(tmpDir, 'checkpoint.json');
+      const mapper = new IdMapper();
+      mapper.addEpic(1, 'bd-a');
+      await mapper.checkpoint();
+      expect(await IdMapper.exists(file)).toBe(false);
+
+      mapper.enableCheckpoints(file);
+      await mapper.checkpoint();
+      expect((await IdMapper.load(file)).getEpicId(1)).toBe('bd-a');
+      expect(await fs.readdir(tmpDir)).not.toContainEqual(expect.stringMatching(/\.tmp$/));
+    });
+
     it('detects file existence', async () => {
       const file = path.join(tmpDir, 'exists.json');
       expect(await IdMapper.exists(file)).toBe(false);
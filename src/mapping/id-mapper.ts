@@ -1,64 +1,420 @@
 import fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { MAPPING_VERSION, parseMappingFile } from '../schemas/mapping.js';
+import type {
+  DependencyRecord,
+  MappingFile,
+  MappingProject,
+  ReducedDependency,
+  SyncJournal,
+  TagEpicMapping,
+  TaskMapping,
+} from '../schemas/mapping.js';
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
 
-export interface SubtaskMapping {
-  tmId: number;
+export type {
+  DependencyRecord,
+  LabelRecord,
+  MappingFile,
+  MappingProject,
+  ReducedDependency,
+  StatusRecord,
+  SubtaskMapping,
+  SyncJournal,
+  TagEpicMapping,
+  TaskMapping,
+} from '../schemas/mapping.js';
+import { Tm2bdError } from '../errors.js';
+
+/** One Beads issue the mapping accounts for. */
+export interface MappedIssue {
   beadsId: string;
+  kind: 'tag-epic' | 'epic' | 'child';
+  tag?: string;
+  taskId?: number;
+  subtaskId?: number;
 }
 
-export interface TaskMapping {
-  tmId: number;
-  beadsId: string;
-  subtasks: SubtaskMapping[];
+/** Lookups by task-master position and by Beads ID, built on first use. */
+interface MapperIndex {
+  tasks: Map<string, TaskMapping>;
+  subtasks: Map<string, string>;
+  tagEpics: Map<string, string>;
+  issues: Map<string, MappedIssue>;
 }
 
-export interface MappingFile {
-  version: string;
-  generatedAt: string;
+/** Storage shared between a mapper and its tag-scoped views. */
+interface MapperState {
+  project: MappingProject;
   tasks: TaskMapping[];
+  tagEpics: TagEpicMapping[];
+  journal: SyncJournal;
+  reducedDependencies: ReducedDependency[];
+  checkpointFile?: string;
+  /** Kept in step by additions; dropped by anything that removes or retags. */
+  index?: MapperIndex;
+}
+
+function taskKey(tag: string | undefined, tmId: number, subtaskTmId?: number): string {
+  const id = subtaskTmId === undefined ? String(tmId) : `${tmId}.${subtaskTmId}`;
+  return tag === undefined ? id : `${tag}\0${id}`;
+}
+
+function buildIndex(state: MapperState): MapperIndex {
+  const index: MapperIndex = { tasks: new Map(), subtasks: new Map(), tagEpics: new Map(), issues: new Map() };
+  for (const epic of state.tagEpics) indexTagEpic(index, epic);
+  for (const task of state.tasks) {
+    indexTask(index, task);
+    for (const subtask of task.subtasks) indexSubtask(index, task, subtask.tmId, subtask.beadsId);
+  }
+  return index;
+}
+
+function indexTagEpic(index: MapperIndex, epic: TagEpicMapping): void {
+  index.tagEpics.set(epic.tag, epic.beadsId);
+  index.issues.set(epic.beadsId, { beadsId: epic.beadsId, kind: 'tag-epic', tag: epic.tag });
+}
+
+function indexTask(index: MapperIndex, task: TaskMapping): void {
+  index.tasks.set(taskKey(task.tag, task.tmId), task);
+  index.issues.set(task.beadsId, { beadsId: task.beadsId, kind: 'epic', tag: task.tag, taskId: task.tmId });
+}
+
+function indexSubtask(index: MapperIndex, task: TaskMapping, subtaskTmId: number, beadsId: string): void {
+  index.subtasks.set(taskKey(task.tag, task.tmId, subtaskTmId), beadsId);
+  index.issues.set(beadsId, { beadsId, kind: 'child', tag: task.tag, taskId: task.tmId, subtaskId: subtaskTmId });
 }
 
 export class IdMapper {
-  private tasks: TaskMapping[] = [];
+  private state: MapperState = {
+    project: {},
+    tasks: [],
+    tagEpics: [],
+    journal: { dependencies: [], statuses: [], labels: [] },
+    reducedDependencies: [],
+  };
+  private tag?: string;
+  private scoped = false;
+
+  /**
+   * A view of this mapping restricted to one task-master tag. Task lookups
+   * and additions only see that tag; everything else is shared.
+   */
+  forTag(tag: string | undefined): IdMapper {
+    const view = new IdMapper();
+    view.state = this.state;
+    view.tag = tag;
+    view.scoped = true;
+    return view;
+  }
+
+  /** The Beads project and tasks file this mapping belongs to, as far as known. */
+  getProject(): Readonly<MappingProject> {
+    return this.state.project;
+  }
+
+  /**
+   * Tie the mapping to a Beads project and tasks file. Throws when the
+   * mapping was written for issues with another prefix: its IDs would
+   * point at the wrong issues, or at none. A mapping that never recorded
+   * its prefix is judged by the IDs it holds.
+   */
+  bindProject(project: MappingProject): void {
+    const issuePrefix = this.state.project.issuePrefix ?? this.inferIssuePrefix(project.issuePrefix);
+    if (issuePrefix && project.issuePrefix && issuePrefix !== project.issuePrefix) {
+      throw new Tm2bdError(
+        `Mapping file belongs to Beads project "${issuePrefix}" but the target project uses prefix "${project.issuePrefix}".\nPoint --map-file at this project's mapping, or --project at the one the mapping belongs to.`,
+        'mapping-conflict',
+      );
+    }
+    for (const [key, value] of Object.entries(project) as [keyof MappingProject, string | undefined][]) {
+      if (value !== undefined) this.state.project[key] = value;
+    }
+  }
+
+  /**
+   * Prefix of the mapped issue IDs when none of them carries `expected`;
+   * undefined when one does or nothing is mapped.
+   */
+  private inferIssuePrefix(expected: string | undefined): string | undefined {
+    const ids = this.getIssues().map((issue) => issue.beadsId);
+    if (expected === undefined || ids.length === 0) return undefined;
+    if (ids.some((id) => id.startsWith(`${expected}-`))) return undefined;
+    return ids[0].slice(0, Math.max(ids[0].lastIndexOf('-'), 0)) || ids[0];
+  }
+
+  /** Claim untagged entries from a pre-tag mapping file for `tag`. */
+  assignTag(tag: string): void {
+    for (const task of this.state.tasks) {
+      task.tag ??= tag;
+    }
+    const retag = (ref: string) => `${tag}:${ref}`;
+    this.state.reducedDependencies = this.state.reducedDependencies.map((d) =>
+      d.tag !== undefined
+        ? d
+        : { tag, blocked: retag(d.blocked), blocking: retag(d.blocking), via: d.via.map(retag) },
+    );
+    this.state.index = undefined;
+  }
+
+  /** The tag this view is scoped to. */
+  getTag(): string | undefined {
+    return this.tag;
+  }
+
+  getTags(): (string | undefined)[] {
+    return [...new Set(this.state.tasks.map((t) => t.tag))];
+  }
+
+  private get index(): MapperIndex {
+    return (this.state.index ??= buildIndex(this.state));
+  }
+
+  private findTask(tmId: number): TaskMapping | undefined {
+    return this.index.tasks.get(taskKey(this.tag, tmId));
+  }
 
   addEpic(tmId: number, beadsId: string): void {
-    this.tasks.push({ tmId, beadsId, subtasks: [] });
+    const mapping: TaskMapping = { tmId, beadsId, subtasks: [] };
+    if (this.tag !== undefined) mapping.tag = this.tag;
+    this.state.tasks.push(mapping);
+    indexTask(this.index, mapping);
   }
 
   addSubtask(taskTmId: number, subtaskTmId: number, beadsId: string): void {
-    const task = this.tasks.find((t) => t.tmId === taskTmId);
+    const task = this.findTask(taskTmId);
     if (!task) throw new Error(`Task ${taskTmId} not found in mapping`);
     task.subtasks.push({ tmId: subtaskTmId, beadsId });
+    indexSubtask(this.index, task, subtaskTmId, beadsId);
   }
 
   getEpicId(tmId: number): string | undefined {
-    return this.tasks.find((t) => t.tmId === tmId)?.beadsId;
+    return this.findTask(tmId)?.beadsId;
   }
 
   getSubtaskId(taskTmId: number, subtaskTmId: number): string | undefined {
-    const task = this.tasks.find((t) => t.tmId === taskTmId);
-    return task?.subtasks.find((s) => s.tmId === subtaskTmId)?.beadsId;
+    return this.index.subtasks.get(taskKey(this.tag, taskTmId, subtaskTmId));
+  }
+
+  /** Umbrella epic of this view's tag, if one was created. */
+  getTagEpicId(): string | undefined {
+    if (this.tag === undefined) return undefined;
+    return this.index.tagEpics.get(this.tag);
+  }
+
+  setTagEpicId(beadsId: string): void {
+    if (this.tag === undefined) throw new Error('Tag epics require a tag-scoped mapper');
+    const epic = { tag: this.tag, beadsId };
+    this.state.tagEpics.push(epic);
+    indexTagEpic(this.index, epic);
+  }
+
+  /** What a Beads ID stands for, in any tag; undefined when it is not mapped. */
+  findIssue(beadsId: string): MappedIssue | undefined {
+    const issue = this.index.issues.get(beadsId);
+    return issue && { ...issue };
+  }
+
+  getTagEpics(): readonly TagEpicMapping[] {
+    return this.scoped
+      ? this.state.tagEpics.filter((e) => e.tag === this.tag)
+      : this.state.tagEpics;
+  }
+
+  getMappings(): readonly TaskMapping[] {
+    return this.scoped
+      ? this.state.tasks.filter((t) => t.tag === this.tag)
+      : this.state.tasks;
+  }
+
+  /** Every mapped issue: per tag its umbrella epic, then each epic and its children. */
+  getIssues(): MappedIssue[] {
+    const issues: MappedIssue[] = [];
+    const tags = this.scoped
+      ? [this.tag]
+      : [...new Set([...this.getTags(), ...this.state.tagEpics.map((e) => e.tag)])];
+    for (const tag of tags) {
+      const tagMapper = this.forTag(tag);
+      const tagEpicId = tagMapper.getTagEpicId();
+      if (tagEpicId) {
+        issues.push({ beadsId: tagEpicId, kind: 'tag-epic', tag });
+      }
+      for (const task of tagMapper.getMappings()) {
+        issues.push({ beadsId: task.beadsId, kind: 'epic', tag, taskId: task.tmId });
+        for (const subtask of task.subtasks) {
+          issues.push({ beadsId: subtask.beadsId, kind: 'child', tag, taskId: task.tmId, subtaskId: subtask.tmId });
+        }
+      }
+    }
+    return issues;
+  }
+
+  hasBeadsId(beadsId: string): boolean {
+    return this.index.issues.has(beadsId);
+  }
+
+  hasDependency(blocked: string, blocking: string): boolean {
+    return this.state.journal.dependencies.some(
+      (d) => d.blocked === blocked && d.blocking === blocking,
+    );
+  }
+
+  recordDependency(blocked: string, blocking: string): void {
+    if (!this.hasDependency(blocked, blocking)) {
+      this.state.journal.dependencies.push({ blocked, blocking });
+    }
+  }
+
+  getDependencies(): readonly DependencyRecord[] {
+    return this.state.journal.dependencies;
+  }
+
+  forgetDependency(blocked: string, blocking: string): void {
+    this.state.journal.dependencies = this.state.journal.dependencies.filter(
+      (d) => !(d.blocked === blocked && d.blocking === blocking),
+    );
+  }
+
+  /** Dependencies `--reduce-deps` left unwired; this tag's only on a tag-scoped view. */
+  getReducedDependencies(): readonly ReducedDependency[] {
+    return this.scoped
+      ? this.state.reducedDependencies.filter((d) => d.tag === this.tag)
+      : this.state.reducedDependencies;
+  }
+
+  /** Replace this tag's reduced dependencies with those of the latest sync. */
+  setReducedDependencies(dependencies: Omit<ReducedDependency, 'tag'>[]): void {
+    this.state.reducedDependencies = [
+      ...this.state.reducedDependencies.filter((d) => d.tag !== this.tag),
+      ...dependencies.map((d) => ({ ...(this.tag !== undefined && { tag: this.tag }), ...d })),
+    ];
+  }
+
+  getAppliedStatus(beadsId: string): string | undefined {
+    return this.state.journal.statuses.find((s) => s.beadsId === beadsId)?.status;
+  }
+
+  recordStatus(beadsId: string, status: string): void {
+    const existing = this.state.journal.statuses.find((s) => s.beadsId === beadsId);
+    if (existing) {
+      existing.status = status;
+    } else {
+      this.state.journal.statuses.push({ beadsId, status });
+    }
+  }
+
+  hasLabel(beadsId: string, label: string): boolean {
+    return this.state.journal.labels.some((l) => l.beadsId === beadsId && l.label === label);
+  }
+
+  getLabels(beadsId: string): string[] {
+    return this.state.journal.labels.filter((l) => l.beadsId === beadsId).map((l) => l.label);
+  }
+
+  recordLabel(beadsId: string, label: string): void {
+    if (!this.hasLabel(beadsId, label)) {
+      this.state.journal.labels.push({ beadsId, label });
+    }
+  }
+
+  forgetLabel(beadsId: string, label: string): void {
+    this.state.journal.labels = this.state.journal.labels.filter(
+      (l) => !(l.beadsId === beadsId && l.label === label),
+    );
+  }
+
+  /**
+   * Drop an issue from the mapping along with everything journaled about
+   * it. An epic's subtask mappings go with it.
+   */
+  forgetIssue(beadsId: string): void {
+    const { state } = this;
+    state.tasks = state.tasks.filter((t) => t.beadsId !== beadsId);
+    for (const task of state.tasks) {
+      task.subtasks = task.subtasks.filter((s) => s.beadsId !== beadsId);
+    }
+    state.tagEpics = state.tagEpics.filter((e) => e.beadsId !== beadsId);
+    state.journal.dependencies = state.journal.dependencies.filter(
+      (d) => d.blocked !== beadsId && d.blocking !== beadsId,
+    );
+    state.journal.statuses = state.journal.statuses.filter((s) => s.beadsId !== beadsId);
+    state.journal.labels = state.journal.labels.filter((l) => l.beadsId !== beadsId);
+    state.index = undefined;
+  }
+
+  /**
+   * Record the content of this view's tasks and subtasks as synced. Only
+   * entries whose content changed since the last record get a new hash
+   * and timestamp, so `syncedAt` is when Beads last received an edit.
+   */
+  recordSynced(tasks: TaskMasterTask[]): void {
+    const now = new Date().toISOString();
+    for (const task of tasks) {
+      const mapping = this.findTask(task.id);
+      if (!mapping) continue;
+      const { subtasks, ...fields } = task;
+      const hash = contentHash(fields);
+      if (mapping.hash !== hash) {
+        mapping.hash = hash;
+        mapping.syncedAt = now;
+      }
+      for (const subtask of subtasks ?? []) {
+        const subtaskMapping = mapping.subtasks.find((s) => s.tmId === subtask.id);
+        if (!subtaskMapping) continue;
+        const subtaskHash = contentHash(subtask);
+        if (subtaskMapping.hash !== subtaskHash) {
+          subtaskMapping.hash = subtaskHash;
+          subtaskMapping.syncedAt = now;
+        }
+      }
+    }
+  }
+
+  /**
+   * Persist to `filePath` on every subsequent checkpoint() so a crashed
+   * run leaves a mapping that --resume can pick up.
+   */
+  enableCheckpoints(filePath: string): void {
+    this.state.checkpointFile = filePath;
+  }
+
+  async checkpoint(): Promise<void> {
+    if (this.state.checkpointFile) {
+      await this.save(this.state.checkpointFile);
+    }
   }
 
   getStats() {
-    const epicCount = this.tasks.length;
-    const childCount = this.tasks.reduce((sum, t) => sum + t.subtasks.length, 0);
+    const tasks = this.getMappings();
+    const epicCount = tasks.length;
+    const childCount = tasks.reduce((sum, t) => sum + t.subtasks.length, 0);
     return { epicCount, childCount };
   }
 
   async save(filePath: string): Promise<void> {
     const data: MappingFile = {
-      version: '1.0',
+      version: MAPPING_VERSION,
       generatedAt: new Date().toISOString(),
-      tasks: this.tasks,
+      project: this.state.project,
+      tasks: this.state.tasks,
+      tagEpics: this.state.tagEpics,
+      journal: this.state.journal,
+      reducedDependencies: this.state.reducedDependencies,
     };
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    // Write-then-rename so a crash mid-write never truncates the mapping
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
   }
 
   static async load(filePath: string): Promise<IdMapper> {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const data: MappingFile = JSON.parse(content);
+    const data = parseMappingFile(await fs.readFile(filePath, 'utf-8'), filePath);
     const mapper = new IdMapper();
-    mapper.tasks = data.tasks;
+    mapper.state.project = data.project;
+    mapper.state.tasks = data.tasks;
+    mapper.state.tagEpics = data.tagEpics;
+    mapper.state.journal = data.journal;
+    mapper.state.reducedDependencies = data.reducedDependencies;
     return mapper;
   }
 
@@ -71,3 +427,9 @@ export class IdMapper {
     }
   }
 }
+
+/** Short, stable fingerprint of a task or subtask's fields. */
+export function contentHash(value: object): string {
+  const sorted = Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+  return createHash('sha256').update(JSON.stringify(sorted)).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { acquireLock } from './lock.js';
+import type { MapFileLock } from './lock.js';
+
+describe('acquireLock', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-lock-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true });
+  });
+
+  it('creates and releases a lock file next to the map file', async () => {
+    const mapFile = path.join(tmpDir, 'map.json');
+    const lock = await acquireLock(mapFile);
+    expect(await fs.readFile(`${mapFile}.lock`, 'utf-8')).toBe(String(process.pid));
+    await lock.release();
+    await expect(fs.access(`${mapFile}.lock`)).rejects.toThrow();
+  });
+
+  it('refuses a lock held by a live process', async () => {
+    const mapFile = path.join(tmpDir, 'held.json');
+    const lock = await acquireLock(mapFile);
+    await expect(acquireLock(mapFile)).rejects.toThrow('locked by another tm2bd run');
+    await lock.release();
+  });
+
+  it('takes over a stale lock', async () => {
+    const mapFile = path.join(tmpDir, 'stale.json');
+    // PIDs are capped well below this on every supported platform
+    await fs.writeFile(`${mapFile}.lock`, '99999999');
+    const lock = await acquireLock(mapFile);
+    expect(await fs.readFile(`${mapFile}.lock`, 'utf-8')).toBe(String(process.pid));
+    await lock.release();
+  });
+
+  it('leaves no moved-aside files behind after a takeover', async () => {
+    const mapFile = path.join(tmpDir, 'moved.json');
+    await fs.writeFile(`${mapFile}.lock`, '99999999');
+    const lock = await acquireLock(mapFile);
+    await lock.release();
+    expect((await fs.readdir(tmpDir)).filter((f) => f.startsWith('moved.json'))).toEqual([]);
+  });
+
+  it('leaves a lock another run took over in place on release', async () => {
+    const mapFile = path.join(tmpDir, 'taken.json');
+    const lock = await acquireLock(mapFile);
+    await fs.writeFile(`${mapFile}.lock`, '12345');
+    await lock.release();
+    expect(await fs.readFile(`${mapFile}.lock`, 'utf-8')).toBe('12345');
+    await fs.rm(`${mapFile}.lock`);
+  });
+
+  it('lets only one of two concurrent runs take over a stale lock', async () => {
+    const mapFile = path.join(tmpDir, 'race.json');
+    await fs.writeFile(`${mapFile}.lock`, '99999999');
+    const results = await Promise.allSettled([acquireLock(mapFile), acquireLock(mapFile)]);
+    const won = results.filter((r): r is PromiseFulfilledResult<MapFileLock> => r.status === 'fulfilled');
+    expect(won).toHaveLength(1);
+    await won[0].value.release();
+  });
+});
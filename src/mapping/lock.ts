@@ -0,0 +1,100 @@
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { Tm2bdError } from '../errors.js';
+
+export interface MapFileLock {
+  path: string;
+  release(): Promise<void>;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function readLockPid(lockPath: string): Promise<number | undefined> {
+  try {
+    const pid = Number.parseInt(await fs.readFile(lockPath, 'utf-8'), 10);
+    return Number.isNaN(pid) ? undefined : pid;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create the lock holding our pid, or fail with EEXIST. The pid is written
+ * to a file of its own first and linked into place, so no run ever reads a
+ * lock that exists but is still empty.
+ */
+async function createLock(lockPath: string): Promise<void> {
+  const tempPath = `${lockPath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, String(process.pid), { encoding: 'utf-8', flag: 'wx' });
+  try {
+    await fs.link(tempPath, lockPath);
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+}
+
+/**
+ * Remove the lock if it still holds `pid`. The rename is atomic, so of
+ * several runs removing the same lock only one moves it; the moved file is
+ * then checked to still be the one expected, since another run may have
+ * taken over and locked in between. Returns false when that happened.
+ */
+async function removeLock(lockPath: string, pid: number | undefined): Promise<boolean> {
+  const movedPath = `${lockPath}.${randomUUID()}.stale`;
+  try {
+    await fs.rename(lockPath, movedPath);
+  } catch (err) {
+    // Someone else cleared it first; try creating the lock again
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return true;
+    throw err;
+  }
+  const movedPid = await readLockPid(movedPath);
+  if (movedPid !== pid) {
+    // Not the lock expected: put it back, unless a third run has locked meanwhile
+    await fs.link(movedPath, lockPath).catch(() => {});
+    await fs.rm(movedPath, { force: true });
+    return false;
+  }
+  await fs.rm(movedPath, { force: true });
+  return true;
+}
+
+/**
+ * Take an exclusive lock on a mapping file by creating `<mapFile>.lock`.
+ * A lock left behind by a process that no longer exists is taken over;
+ * when another run takes it over at the same time, this one fails.
+ */
+export async function acquireLock(mapFile: string): Promise<MapFileLock> {
+  const lockPath = `${mapFile}.lock`;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      await createLock(lockPath);
+      return {
+        path: lockPath,
+        // A run that found us dead may own the lock by now
+        release: async () => {
+          if ((await readLockPid(lockPath)) === process.pid) await removeLock(lockPath, process.pid);
+        },
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+
+      const pid = await readLockPid(lockPath);
+      if (pid !== undefined && isProcessAlive(pid)) {
+        throw new Tm2bdError(`Mapping file ${mapFile} is locked by another tm2bd run (pid ${pid})`, 'mapping-conflict');
+      }
+      if (!(await removeLock(lockPath, pid))) break;
+    }
+  }
+
+  throw new Tm2bdError(`Could not acquire lock ${lockPath}`, 'mapping-conflict');
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { IdMapper } from './id-mapper.js';
+import { lookupIds } from './lookup.js';
+
+function makeMapper() {
+  const mapper = new IdMapper();
+  const master = mapper.forTag('master');
+  master.addEpic(1, 'bd-a');
+  master.addSubtask(1, 3, 'bd-a.3');
+  const v2 = mapper.forTag('v2');
+  v2.setTagEpicId('bd-tag');
+  v2.addEpic(1, 'bd-b');
+  return mapper;
+}
+
+const projects = [
+  {
+    tag: 'master',
+    tasks: [
+      {
+        id: 1,
+        title: 'Parser',
+        description: '',
+        status: 'pending' as const,
+        priority: 'high' as const,
+        dependencies: [],
+        subtasks: [{ id: 3, title: 'Tokenizer', description: '', status: 'pending' as const }],
+      },
+    ],
+  },
+];
+
+describe('lookupIds', () => {
+  it('translates Beads IDs to task-master references with titles', () => {
+    const [result] = lookupIds(['bd-a.3'], makeMapper(), projects);
+    expect(result.matches).toEqual([
+      { beadsId: 'bd-a.3', kind: 'child', tag: 'master', taskId: 1, subtaskId: 3, ref: 'master:1.3', title: 'Tokenizer' },
+    ]);
+  });
+
+  it('translates task-master references, in every tag unless scoped', () => {
+    const mapper = makeMapper();
+    const [untagged, tagged, tagEpic] = lookupIds(['1', 'master:1.3', '@v2'], mapper, projects);
+    expect(untagged.matches.map((m) => m.beadsId)).toEqual(['bd-a', 'bd-b']);
+    expect(tagged.matches.map((m) => m.beadsId)).toEqual(['bd-a.3']);
+    expect(tagEpic.matches).toEqual([{ beadsId: 'bd-tag', kind: 'tag-epic', tag: 'v2', ref: '@v2', title: 'v2' }]);
+
+    expect(lookupIds(['1'], mapper, projects, 'v2')[0].matches.map((m) => m.ref)).toEqual(['v2:1']);
+  });
+
+  it('returns no matches for unknown inputs', () => {
+    expect(lookupIds(['bd-zzz', '9.9', 'nonsense'], makeMapper()).map((r) => r.matches)).toEqual([[], [], []]);
+  });
+});
@@ -0,0 +1,77 @@
+import type { TaggedProject } from '../schemas/taskmaster.js';
+import type { IdMapper, MappedIssue } from './id-mapper.js';
+import { parseTaskRef } from '../plan/planner.js';
+
+/** One input of `tm2bd lookup` resolved in both directions. */
+export interface LookupMatch extends MappedIssue {
+  /** task-master reference, e.g. `1.3`, `v2:1.3` or `@v2` for a tag epic. */
+  ref: string;
+  /** From tasks.json; absent when the task is no longer there. */
+  title?: string;
+}
+
+export interface LookupResult {
+  input: string;
+  /** Several when an untagged task-master ID exists in more than one tag. */
+  matches: LookupMatch[];
+}
+
+function formatRef(issue: MappedIssue): string {
+  if (issue.kind === 'tag-epic') return `@${issue.tag}`;
+  const id = issue.subtaskId === undefined ? `${issue.taskId}` : `${issue.taskId}.${issue.subtaskId}`;
+  return issue.tag === undefined ? id : `${issue.tag}:${id}`;
+}
+
+function findTitle(issue: MappedIssue, projects: TaggedProject[]): string | undefined {
+  if (issue.kind === 'tag-epic') return issue.tag;
+  const task = projects.find((p) => p.tag === issue.tag)?.tasks.find((t) => t.id === issue.taskId);
+  if (issue.subtaskId === undefined) return task?.title;
+  return task?.subtasks?.find((s) => s.id === issue.subtaskId)?.title;
+}
+
+/** Mapped issues a task-master reference names; an untagged one may match in every tag. */
+function resolveTaskRef(input: string, mapper: IdMapper, tag: string | undefined): MappedIssue[] {
+  if (input.startsWith('@')) {
+    const beadsId = mapper.forTag(input.slice(1)).getTagEpicId();
+    return beadsId ? [mapper.findIssue(beadsId)!] : [];
+  }
+
+  const ref = parseTaskRef(input);
+  if (!ref) return [];
+  const { taskId, subtaskId } = ref;
+  const tags = ref.tag !== undefined || tag !== undefined ? [ref.tag ?? tag] : mapper.getTags();
+
+  const issues: MappedIssue[] = [];
+  for (const candidate of tags) {
+    const tagMapper = mapper.forTag(candidate);
+    const beadsId = subtaskId === undefined
+      ? tagMapper.getEpicId(taskId)
+      : tagMapper.getSubtaskId(taskId, subtaskId);
+    if (beadsId) issues.push(mapper.findIssue(beadsId)!);
+  }
+  return issues;
+}
+
+/**
+ * Translate Beads IDs to task-master references and back. Each input is
+ * tried as a mapped Beads ID first, then as a task-master reference
+ * (`1`, `1.3`, `v2:1.3`, `@v2`); `tag` scopes untagged references.
+ */
+export function lookupIds(
+  inputs: string[],
+  mapper: IdMapper,
+  projects: TaggedProject[] = [],
+  tag?: string,
+): LookupResult[] {
+  return inputs.map((input) => {
+    const byBeadsId = mapper.findIssue(input);
+    const issues = byBeadsId ? [byBeadsId] : resolveTaskRef(input, mapper, tag);
+    return {
+      input,
+      matches: issues.map((issue) => {
+        const title = findTitle(issue, projects);
+        return { ...issue, ref: formatRef(issue), ...(title !== undefined && { title }) };
+      }),
+    };
+  });
+}
@@ -0,0 +1,335 @@
+import type { PlanOperation, SyncPlan } from '../schemas/sync-plan.js';
+import type { BeadsBackend, BeadsBulkImporter } from '../beads/backend.js';
+import { isBulkImporter } from '../beads/backend.js';
+import { createdBy, dependencyRecord, newIssueId, timestamp } from '../beads/jsonl-format.js';
+import type { JsonlIssue } from '../beads/jsonl-format.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { UNDONE_LABEL } from '../sync/undo.js';
+import { applySyncPlan, operationIds } from './executor.js';
+import type { ApplyOptions, ApplyResult, OperationListener } from './executor.js';
+
+export interface ImportResult extends ApplyResult {
+  /** Issues written by the single `bd import`. */
+  imported: number;
+  /** Why the plan was applied call by call instead, if it was. */
+  fallback?: string;
+}
+
+/** Marks imported issues so their assigned IDs can be found afterwards. */
+export function externalRef(ref: string): string {
+  return `tm2bd:${ref}`;
+}
+
+type CreateOperation = Extract<PlanOperation, { op: 'create-tag-epic' | 'create-epic' | 'create-child' }>;
+
+function isCreate(op: PlanOperation): op is CreateOperation {
+  return op.op === 'create-tag-epic' || op.op === 'create-epic' || op.op === 'create-child';
+}
+
+function existingId(op: CreateOperation, mapper: IdMapper): string | undefined {
+  const tagMapper = mapper.forTag(op.tag);
+  switch (op.op) {
+    case 'create-tag-epic':
+      return tagMapper.getTagEpicId();
+    case 'create-epic':
+      return tagMapper.getEpicId(op.taskId);
+    case 'create-child':
+      return tagMapper.getSubtaskId(op.taskId, op.subtaskId);
+  }
+}
+
+/**
+ * Map issues an earlier import created but never checkpointed, found by
+ * their external_ref, together with the edges, status and labels they
+ * carry, so a resumed run does not create them again. Issues a soft undo
+ * closed are left alone. Returns how many were adopted.
+ */
+function adoptImportedIssues(plan: SyncPlan, issues: JsonlIssue[], mapper: IdMapper): number {
+  const byRef = new Map(
+    issues
+      .filter((issue) => issue.external_ref && !issue.labels?.includes(UNDONE_LABEL) && !mapper.hasBeadsId(issue.id))
+      .map((issue) => [issue.external_ref!, issue]),
+  );
+  let adopted = 0;
+  for (const op of plan.operations) {
+    if (!isCreate(op) || existingId(op, mapper)) continue;
+    const issue = byRef.get(externalRef(op.ref));
+    if (!issue) continue;
+    const tagMapper = mapper.forTag(op.tag);
+    switch (op.op) {
+      case 'create-tag-epic':
+        tagMapper.setTagEpicId(issue.id);
+        break;
+      case 'create-epic':
+        tagMapper.addEpic(op.taskId, issue.id);
+        break;
+      case 'create-child':
+        if (!tagMapper.getEpicId(op.taskId)) continue;
+        tagMapper.addSubtask(op.taskId, op.subtaskId, issue.id);
+        break;
+    }
+    for (const dependency of issue.dependencies ?? []) {
+      if (dependency.type === 'blocks') mapper.recordDependency(issue.id, dependency.depends_on_id);
+    }
+    mapper.recordStatus(issue.id, issue.status);
+    for (const label of issue.labels ?? []) mapper.recordLabel(issue.id, label);
+    adopted++;
+  }
+  return adopted;
+}
+
+/**
+ * Split a plan into the operations one import can carry and the rest.
+ * An import only adds new issues, so anything that touches an issue that
+ * already exists, or depends on one created the slow way, is left for
+ * per-call execution. Creates already in the mapper become bindings.
+ */
+export function partitionPlan(
+  plan: SyncPlan,
+  mapper: IdMapper,
+): { imported: PlanOperation[]; remaining: SyncPlan; skipped: PlanOperation[] } {
+  const bindings = { ...plan.bindings };
+  const imported: PlanOperation[] = [];
+  const remaining: PlanOperation[] = [];
+  const importedRefs = new Set<string>();
+  const skipped: PlanOperation[] = [];
+
+  for (const op of plan.operations) {
+    if (isCreate(op)) {
+      const existing = existingId(op, mapper);
+      if (existing) {
+        bindings[op.ref] = existing;
+        skipped.push(op);
+      } else if (!('parent' in op) || op.parent === undefined || importedRefs.has(op.parent)) {
+        imported.push(op);
+        importedRefs.add(op.ref);
+      } else {
+        remaining.push(op);
+      }
+      continue;
+    }
+
+    // A dependency must live on a new issue but may point at an existing one
+    const [target, blocking] =
+      op.op === 'add-dependency' ? [op.blocked, op.blocking] : [op.target, undefined];
+    const reachable = blocking === undefined || importedRefs.has(blocking) || blocking in bindings;
+    if (importedRefs.has(target) && reachable) {
+      imported.push(op);
+    } else {
+      remaining.push(op);
+    }
+  }
+
+  return { imported, remaining: { ...plan, bindings, operations: remaining }, skipped };
+}
+
+/**
+ * Render import operations as bd JSONL records. Top-level IDs avoid
+ * `taken`; children are numbered under their new parent.
+ */
+export function renderImportIssues(
+  operations: PlanOperation[],
+  bindings: Record<string, string>,
+  prefix: string,
+  taken: Set<string>,
+): JsonlIssue[] {
+  const now = timestamp();
+  const records = new Map<string, JsonlIssue>();
+  const ids = new Map(Object.entries(bindings));
+  const childCounts = new Map<string, number>();
+  const used = new Set(taken);
+
+  const record = (ref: string) => records.get(ref)!;
+
+  for (const op of operations) {
+    switch (op.op) {
+      case 'create-tag-epic':
+      case 'create-epic':
+      case 'create-child': {
+        const parentId = 'parent' in op && op.parent !== undefined ? ids.get(op.parent)! : undefined;
+        let id: string;
+        if (parentId) {
+          const n = (childCounts.get(parentId) ?? 0) + 1;
+          childCounts.set(parentId, n);
+          id = `${parentId}.${n}`;
+        } else {
+          id = newIssueId(prefix, used);
+        }
+        used.add(id);
+        ids.set(op.ref, id);
+
+        const issue: JsonlIssue = {
+          id,
+          title: op.title,
+          ...(op.description && { description: op.description }),
+          status: 'open',
+          priority: op.op === 'create-child' ? 2 : op.priority,
+          issue_type: op.op === 'create-child' ? (op.issueType ?? 'task') : 'epic',
+          created_at: now,
+          created_by: createdBy(),
+          updated_at: now,
+          external_ref: externalRef(op.ref),
+        };
+        if (parentId) {
+          issue.dependencies = [dependencyRecord(id, parentId, 'parent-child', now)];
+        }
+        records.set(op.ref, issue);
+        break;
+      }
+
+      case 'add-dependency': {
+        const issue = record(op.blocked);
+        (issue.dependencies ??= []).push(dependencyRecord(issue.id, ids.get(op.blocking)!, 'blocks', now));
+        break;
+      }
+
+      case 'set-status': {
+        const issue = record(op.target);
+        issue.status = op.status;
+        if (op.status === 'closed') {
+          issue.closed_at = now;
+          issue.close_reason = 'Closed';
+        }
+        break;
+      }
+
+      case 'add-label':
+        (record(op.target).labels ??= []).push(op.label);
+        break;
+    }
+  }
+
+  return [...records.values()];
+}
+
+async function importOperations(
+  operations: PlanOperation[],
+  bindings: Record<string, string>,
+  before: JsonlIssue[],
+  backend: BeadsBackend & BeadsBulkImporter,
+  mapper: IdMapper,
+  result: ImportResult,
+): Promise<Record<string, string>> {
+  const prefix = await backend.getIssuePrefix();
+  const issues = renderImportIssues(operations, bindings, prefix, new Set(before.map((i) => i.id)));
+  await backend.importIssues(issues);
+
+  // bd may renumber on import; trust what it exported, found by external_ref
+  const assigned = new Map<string, string>();
+  for (const issue of await backend.exportIssues()) {
+    if (issue.external_ref) assigned.set(issue.external_ref, issue.id);
+  }
+
+  const ids: Record<string, string> = { ...bindings };
+  for (const op of operations) {
+    if (!isCreate(op)) continue;
+    const id = assigned.get(externalRef(op.ref));
+    if (!id) {
+      throw new Error(`bd import did not create ${op.ref}; no issue has external_ref ${externalRef(op.ref)}`);
+    }
+    ids[op.ref] = id;
+  }
+
+  for (const op of operations) {
+    switch (op.op) {
+      case 'create-tag-epic':
+        mapper.forTag(op.tag).setTagEpicId(ids[op.ref]);
+        result.epicsCreated++;
+        break;
+      case 'create-epic':
+        mapper.forTag(op.tag).addEpic(op.taskId, ids[op.ref]);
+        result.epicsCreated++;
+        break;
+      case 'create-child':
+        mapper.forTag(op.tag).addSubtask(op.taskId, op.subtaskId, ids[op.ref]);
+        result.childrenCreated++;
+        break;
+      case 'add-dependency':
+        mapper.recordDependency(ids[op.blocked], ids[op.blocking]);
+        if (op.kind === 'epic') {
+          result.epicDeps++;
+        } else {
+          result.subtaskDeps++;
+        }
+        break;
+      case 'set-status':
+        mapper.recordStatus(ids[op.target], op.status);
+        result.statusesSet++;
+        break;
+      case 'add-label':
+        mapper.recordLabel(ids[op.target], op.label);
+        result.labelsAdded++;
+        break;
+    }
+  }
+  await mapper.checkpoint();
+  result.imported = issues.length;
+  return ids;
+}
+
+/**
+ * Apply a plan with one `bd import` for every new issue, its dependencies,
+ * status and labels, then run whatever touches existing issues call by
+ * call. Falls back to {@link applySyncPlan} entirely when the backend or
+ * the installed bd cannot import.
+ */
+export async function importSyncPlan(
+  plan: SyncPlan,
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  onOperation?: OperationListener,
+  options: ApplyOptions = {},
+): Promise<ImportResult> {
+  if (!isBulkImporter(backend) || !(await backend.supportsImport())) {
+    const fallback = isBulkImporter(backend)
+      ? 'The installed bd has no import command; creating issues one call at a time'
+      : 'Bulk import needs the cli backend; creating issues one call at a time';
+    const applied = await applySyncPlan(plan, backend, mapper, onOperation, options);
+    return { ...applied, imported: 0, fallback };
+  }
+
+  // A run that died between importing and checkpointing left its issues unmapped
+  const existing = await backend.exportIssues();
+  if (adoptImportedIssues(plan, existing, mapper) > 0) {
+    await mapper.checkpoint();
+  }
+
+  const { imported, remaining, skipped } = partitionPlan(plan, mapper);
+  const result: ImportResult = {
+    epicsCreated: 0,
+    childrenCreated: 0,
+    epicDeps: 0,
+    subtaskDeps: 0,
+    statusesSet: 0,
+    labelsAdded: 0,
+    skipped: skipped.length,
+    imported: 0,
+  };
+  const total = plan.operations.length;
+  let completed = 0;
+
+  let bindings = remaining.bindings;
+  for (const op of skipped) {
+    const ids = bindings;
+    onOperation?.(op, ++completed, total, { ids: operationIds(op, (ref) => ids[ref]), skipped: true });
+  }
+  if (imported.length > 0) {
+    bindings = await importOperations(imported, bindings, existing, backend, mapper, result);
+    const ids = bindings;
+    for (const op of imported) {
+      onOperation?.(op, ++completed, total, { ids: operationIds(op, (ref) => ids[ref]), skipped: false });
+    }
+  }
+
+  const rest = await applySyncPlan(
+    { ...remaining, bindings },
+    backend,
+    mapper,
+    (op, current, _total, outcome) => onOperation?.(op, completed + current, total, outcome),
+    options,
+  );
+  for (const key of Object.keys(rest) as (keyof ApplyResult)[]) {
+    result[key] += rest[key];
+  }
+  return result;
+}
@@ -0,0 +1,347 @@
+import type { PlanOperation, SyncPlan } from '../schemas/sync-plan.js';
+import type { BeadsBackend } from '../beads/backend.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import type { ValidationResult } from '../schemas/taskmaster.js';
+import { runConcurrently } from '../utils/concurrency.js';
+import { Tm2bdError } from '../errors.js';
+
+export interface ApplyResult {
+  epicsCreated: number;
+  childrenCreated: number;
+  epicDeps: number;
+  subtaskDeps: number;
+  statusesSet: number;
+  labelsAdded: number;
+  /** Operations already done by an earlier, interrupted run. */
+  skipped: number;
+}
+
+function referencedRefs(op: PlanOperation): string[] {
+  switch (op.op) {
+    case 'create-tag-epic':
+      return [];
+    case 'create-epic':
+      return op.parent !== undefined ? [op.parent] : [];
+    case 'create-child':
+      return [op.parent];
+    case 'add-dependency':
+      return [op.blocked, op.blocking];
+    case 'set-status':
+    case 'add-label':
+      return [op.target];
+  }
+}
+
+/** How an operation ended, for progress reporting. */
+export interface OperationOutcome {
+  /** Beads IDs of the operation's refs, including the issue it created. */
+  ids: Record<string, string>;
+  /** Already done by an earlier, interrupted run. */
+  skipped: boolean;
+}
+
+export type OperationListener = (
+  op: PlanOperation,
+  current: number,
+  total: number,
+  outcome: OperationOutcome,
+) => void;
+
+/** Beads IDs of the issues an operation created or touched, by ref. */
+export function operationIds(op: PlanOperation, lookup: (ref: string) => string | undefined): Record<string, string> {
+  const ids: Record<string, string> = {};
+  for (const ref of [...('ref' in op ? [op.ref] : []), ...referencedRefs(op)]) {
+    const beadsId = lookup(ref);
+    if (beadsId !== undefined) ids[ref] = beadsId;
+  }
+  return ids;
+}
+
+/**
+ * Check that every reference is bound or created by an earlier operation,
+ * so a hand-edited plan fails before anything is sent to Beads.
+ */
+export function validatePlanReferences(plan: SyncPlan): ValidationResult {
+  const known = new Set(Object.keys(plan.bindings));
+  const errors: string[] = [];
+
+  plan.operations.forEach((op, index) => {
+    for (const ref of referencedRefs(op)) {
+      if (!known.has(ref)) {
+        errors.push(`operations.${index} (${op.op}) references unknown issue "${ref}"`);
+      }
+    }
+    if ('ref' in op) {
+      if (known.has(op.ref)) {
+        errors.push(`operations.${index} (${op.op}) creates "${op.ref}" which already exists`);
+      }
+      known.add(op.ref);
+    }
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+export interface ApplyOptions {
+  /**
+   * Most Beads calls in flight at once. Epics of one dependency tier,
+   * children of different epics, and dependencies, statuses and labels
+   * of different issues run side by side.
+   */
+  concurrency?: number;
+}
+
+/** Records an operation's outcome in the mapper once it is its turn. */
+type Commit = () => Promise<void>;
+
+/**
+ * Consecutive operations that may run concurrently. A batch ends where a
+ * later operation could depend on an earlier one's result.
+ */
+function batchKey(op: PlanOperation): string {
+  switch (op.op) {
+    case 'create-epic':
+      return `${op.op}:${op.tag ?? ''}:${op.tier}`;
+    case 'create-tag-epic':
+      return `${op.op}:${op.tag}`;
+    default:
+      return op.op;
+  }
+}
+
+/**
+ * Operations sharing a lane run one after the other: bd numbers children
+ * in creation order, and updates to one issue should land in plan order.
+ */
+function laneKey(op: PlanOperation): string {
+  switch (op.op) {
+    case 'create-tag-epic':
+    case 'create-epic':
+      return op.ref;
+    case 'create-child':
+      return op.parent;
+    case 'add-dependency':
+      return op.blocked;
+    case 'set-status':
+    case 'add-label':
+      return op.target;
+  }
+}
+
+function splitBatches(operations: PlanOperation[]): PlanOperation[][] {
+  const batches: PlanOperation[][] = [];
+  let key: string | undefined;
+  for (const op of operations) {
+    if (batchKey(op) !== key) {
+      batches.push([]);
+      key = batchKey(op);
+    }
+    batches[batches.length - 1].push(op);
+  }
+  return batches;
+}
+
+/**
+ * Run one batch with up to `concurrency` lanes at a time. Outcomes are
+ * committed in plan order, so the mapping comes out the same however the
+ * calls interleave; after a failure the calls that did succeed are still
+ * committed before the error is rethrown, so a resumed run skips them.
+ */
+async function runBatch(
+  batch: PlanOperation[],
+  concurrency: number,
+  perform: (op: PlanOperation) => Promise<Commit>,
+  commit: (op: PlanOperation, record: Commit) => Promise<void>,
+): Promise<void> {
+  const lanes = new Map<string, number[]>();
+  batch.forEach((op, index) => {
+    const key = laneKey(op);
+    lanes.set(key, [...(lanes.get(key) ?? []), index]);
+  });
+
+  const done = new Map<number, Commit>();
+  let next = 0;
+  let committing = Promise.resolve();
+  const commitReady = () => {
+    committing = committing.then(async () => {
+      while (done.has(next)) {
+        const record = done.get(next)!;
+        done.delete(next);
+        await commit(batch[next++], record);
+      }
+    });
+    return committing;
+  };
+
+  let failure: unknown;
+  try {
+    await runConcurrently(
+      [...lanes.values()].map((indexes) => async () => {
+        for (const index of indexes) {
+          done.set(index, await perform(batch[index]));
+          await commitReady();
+        }
+      }),
+      concurrency,
+    );
+  } catch (error) {
+    failure = error;
+  }
+
+  await commitReady();
+  if (failure === undefined) return;
+
+  // A failed operation blocks the in-order commit; keep what came after it
+  for (const index of [...done.keys()].sort((a, b) => a - b)) {
+    await commit(batch[index], done.get(index)!);
+  }
+  throw failure;
+}
+
+/**
+ * Run a plan against Beads, recording each created issue, dependency and
+ * status in the mapper as it goes. Operations the mapper shows as already
+ * applied are skipped, so re-applying an interrupted plan resumes it.
+ * Progress is reported as operations complete.
+ */
+export async function applySyncPlan(
+  plan: SyncPlan,
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  onOperation?: OperationListener,
+  options: ApplyOptions = {},
+): Promise<ApplyResult> {
+  const refCheck = validatePlanReferences(plan);
+  if (!refCheck.valid) {
+    throw new Tm2bdError(`Invalid plan:\n${refCheck.errors.map((e) => `  ${e}`).join('\n')}`, 'validation');
+  }
+
+  const ids = new Map(Object.entries(plan.bindings));
+  const result: ApplyResult = {
+    epicsCreated: 0,
+    childrenCreated: 0,
+    epicDeps: 0,
+    subtaskDeps: 0,
+    statusesSet: 0,
+    labelsAdded: 0,
+    skipped: 0,
+  };
+
+  const resolve = (ref: string): string => ids.get(ref)!;
+
+  const skips = new WeakSet<Commit>();
+  const skip = (ref?: string, beadsId?: string): Commit => {
+    const record: Commit = async () => {
+      if (ref !== undefined) ids.set(ref, beadsId!);
+      result.skipped++;
+    };
+    skips.add(record);
+    return record;
+  };
+
+  async function perform(op: PlanOperation): Promise<Commit> {
+    switch (op.op) {
+      case 'create-tag-epic': {
+        const tagMapper = mapper.forTag(op.tag);
+        const existing = tagMapper.getTagEpicId();
+        if (existing) return skip(op.ref, existing);
+        const created = await backend.createEpic(op.title, op.description, op.priority);
+        return async () => {
+          tagMapper.setTagEpicId(created.id);
+          ids.set(op.ref, created.id);
+          await mapper.checkpoint();
+          result.epicsCreated++;
+        };
+      }
+
+      case 'create-epic': {
+        const tagMapper = mapper.forTag(op.tag);
+        const existing = tagMapper.getEpicId(op.taskId);
+        if (existing) return skip(op.ref, existing);
+        const parentId = op.parent !== undefined ? resolve(op.parent) : undefined;
+        const created = await backend.createEpic(op.title, op.description, op.priority, parentId);
+        return async () => {
+          tagMapper.addEpic(op.taskId, created.id);
+          ids.set(op.ref, created.id);
+          await mapper.checkpoint();
+          result.epicsCreated++;
+        };
+      }
+
+      case 'create-child': {
+        const tagMapper = mapper.forTag(op.tag);
+        const existing = tagMapper.getSubtaskId(op.taskId, op.subtaskId);
+        if (existing) return skip(op.ref, existing);
+        const created = await backend.createChild(
+          resolve(op.parent),
+          op.title,
+          op.description,
+          op.issueType,
+        );
+        return async () => {
+          tagMapper.addSubtask(op.taskId, op.subtaskId, created.id);
+          ids.set(op.ref, created.id);
+          await mapper.checkpoint();
+          result.childrenCreated++;
+        };
+      }
+
+      case 'add-dependency': {
+        const blockedId = resolve(op.blocked);
+        const blockingId = resolve(op.blocking);
+        if (mapper.hasDependency(blockedId, blockingId)) return skip();
+        await backend.addDependency(blockedId, blockingId);
+        return async () => {
+          mapper.recordDependency(blockedId, blockingId);
+          await mapper.checkpoint();
+          if (op.kind === 'epic') {
+            result.epicDeps++;
+          } else {
+            result.subtaskDeps++;
+          }
+        };
+      }
+
+      case 'set-status': {
+        const issueId = resolve(op.target);
+        if (mapper.getAppliedStatus(issueId) === op.status) return skip();
+        if (op.status === 'closed') {
+          await backend.close(issueId);
+        } else {
+          await backend.updateStatus(issueId, op.status);
+        }
+        return async () => {
+          mapper.recordStatus(issueId, op.status);
+          await mapper.checkpoint();
+          result.statusesSet++;
+        };
+      }
+
+      case 'add-label': {
+        const issueId = resolve(op.target);
+        if (mapper.hasLabel(issueId, op.label)) return skip();
+        await backend.addLabel(issueId, op.label);
+        return async () => {
+          mapper.recordLabel(issueId, op.label);
+          await mapper.checkpoint();
+          result.labelsAdded++;
+        };
+      }
+    }
+  }
+
+  let completed = 0;
+  const commit = async (op: PlanOperation, record: Commit) => {
+    await record();
+    onOperation?.(op, ++completed, plan.operations.length, {
+      ids: operationIds(op, (ref) => ids.get(ref)),
+      skipped: skips.has(record),
+    });
+  };
+
+  for (const batch of splitBatches(plan.operations)) {
+    await runBatch(batch, options.concurrency ?? 1, perform, commit);
+  }
+
+  return result;
+}
@@ -0,0 +1,433 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { TaskMasterTask, TaggedProject } from '../schemas/taskmaster.js';
+import type { SyncPlan } from '../schemas/sync-plan.js';
+import type { OperationOutcome } from './executor.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { resolveMappingRules } from '../schemas/config.js';
+import { buildSyncPlan, taskRef } from './planner.js';
+import { applySyncPlan, validatePlanReferences } from './executor.js';
+import { importSyncPlan } from './bulk-import.js';
+import type { JsonlIssue } from '../beads/jsonl-format.js';
+import { renderPlanShell, renderPlanText } from './render.js';
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Test task',
+    description: 'A test task',
+    status: 'pending',
+    priority: 'high',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+function makeMockCli() {
+  let n = 0;
+  return {
+    createEpic: vi.fn(async () => ({ id: `bd-${++n}`, title: 'T' })),
+    createChild: vi.fn(async (parentId: string) => ({ id: `${parentId}.${++n}`, title: 'C' })),
+    addDependency: vi.fn().mockResolvedValue(undefined),
+    updateStatus: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    addLabel: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+const project: TaggedProject = {
+  tasks: [
+    makeTask({ id: 2, title: 'Second', dependencies: [1], status: 'in-progress' }),
+    makeTask({
+      id: 1,
+      status: 'done',
+      subtasks: [
+        { id: 1, title: 'S1', description: 'D', status: 'pending' },
+        { id: 2, title: 'S2', description: 'D', status: 'pending', dependencies: [{ taskId: 1, subtaskId: 1 }] },
+      ],
+    }),
+  ],
+};
+
+describe('planner', () => {
+  it('orders creates by tier, then children, dependencies, statuses and labels', () => {
+    const plan = buildSyncPlan([project], new IdMapper(), { tasksFile: 'tasks.json' });
+    expect(plan.operations.map((op) => op.op)).toEqual([
+      'create-epic',
+      'create-epic',
+      'create-child',
+      'create-child',
+      'add-dependency',
+      'add-dependency',
+      'set-status',
+      'set-status',
+      'add-label',
+      'add-label',
+      'add-label',
+      'add-label',
+      'add-label',
+    ]);
+    expect(plan.operations[0]).toMatchObject({ ref: '1', tier: 0, priority: 0 });
+    expect(plan.operations[1]).toMatchObject({ ref: '2', tier: 1 });
+    expect(plan.operations[5]).toEqual({ op: 'add-dependency', kind: 'subtask', blocked: '1.2', blocking: '1.1' });
+    expect(plan.operations[6]).toEqual({ op: 'set-status', target: '2', status: 'in_progress' });
+    expect(plan.operations[7]).toEqual({ op: 'set-status', target: '1', status: 'closed' });
+  });
+
+  it('binds mapped issues and omits journaled work', () => {
+    const mapper = new IdMapper();
+    mapper.forTag(undefined).addEpic(1, 'bd-a');
+    mapper.recordStatus('bd-a', 'closed');
+    const plan = buildSyncPlan([project], mapper, { tasksFile: 'tasks.json' });
+    expect(plan.bindings).toEqual({ '1': 'bd-a' });
+    expect(plan.operations.filter((op) => op.op === 'create-epic')).toHaveLength(1);
+    expect(plan.operations).not.toContainEqual({ op: 'set-status', target: '1', status: 'closed' });
+  });
+
+  it('namespaces refs by tag and nests under the tag epic', () => {
+    const plan = buildSyncPlan([{ ...project, tag: 'v2' }], new IdMapper(), {
+      tasksFile: 'tasks.json',
+      tagMode: 'epic',
+    });
+    expect(plan.operations[0]).toMatchObject({ op: 'create-tag-epic', ref: '@v2', tag: 'v2' });
+    expect(plan.operations[1]).toMatchObject({ op: 'create-epic', ref: 'v2:1', parent: '@v2' });
+    expect(taskRef('v2', 1, 2)).toBe('v2:1.2');
+  });
+
+  it('applies mapping rules', () => {
+    const plan = buildSyncPlan([project], new IdMapper(), {
+      tasksFile: 'tasks.json',
+      rules: resolveMappingRules({ priorityMap: { high: 1 }, statusMap: { done: 'deferred' }, issueType: 'chore' }),
+    });
+    expect(plan.operations[0]).toMatchObject({ op: 'create-epic', priority: 1 });
+    expect(plan.operations[2]).toMatchObject({ op: 'create-child', issueType: 'chore' });
+    expect(plan.operations).toContainEqual({ op: 'set-status', target: '1', status: 'deferred' });
+    expect(renderPlanShell(plan)).toContain("--parent \"$ID_1\" --json -t 'chore'");
+  });
+
+  it('adds label operations in label mode', () => {
+    const plan = buildSyncPlan([{ ...project, tag: 'v2' }], new IdMapper(), {
+      tasksFile: 'tasks.json',
+      tagMode: 'label',
+    });
+    const labels = plan.operations.filter((op) => op.op === 'add-label' && op.label === 'tm-tag:v2');
+    expect(labels).toHaveLength(4);
+    expect(labels[0]).toEqual({ op: 'add-label', target: 'v2:1', label: 'tm-tag:v2' });
+  });
+
+  it('labels provenance, closed status and complexity', () => {
+    const tasks = [makeTask({ id: 1, status: 'cancelled', complexity: 7 }), makeTask({ id: 2 })];
+    const plan = buildSyncPlan([{ tasks }], new IdMapper(), { tasksFile: 'tasks.json' });
+    const labels = plan.operations.filter((op) => op.op === 'add-label');
+    expect(labels).toEqual([
+      { op: 'add-label', target: '1', label: 'tm2bd' },
+      { op: 'add-label', target: '1', label: 'tm-status:cancelled' },
+      { op: 'add-label', target: '1', label: 'complexity:7' },
+      { op: 'add-label', target: '2', label: 'tm2bd' },
+    ]);
+  });
+
+  it('omits journaled labels and disabled label rules', () => {
+    const mapper = new IdMapper();
+    mapper.forTag(undefined).addEpic(1, 'bd-a');
+    mapper.recordLabel('bd-a', 'tm2bd');
+    const tasks = [makeTask({ id: 1, status: 'done' })];
+    const rules = resolveMappingRules({ labels: { status: false } });
+    const plan = buildSyncPlan([{ tasks }], mapper, { tasksFile: 'tasks.json', rules });
+    expect(plan.operations.filter((op) => op.op === 'add-label')).toEqual([]);
+  });
+
+  it('raises unfinished critical-path epics when asked', () => {
+    const tasks = [
+      makeTask({ id: 1, priority: 'low', complexity: 8 }),
+      makeTask({ id: 2, priority: 'low', complexity: 2 }),
+      makeTask({ id: 3, priority: 'low', dependencies: [1] }),
+    ];
+    const rules = { ...resolveMappingRules({}), raiseCriticalPath: true };
+    const plan = buildSyncPlan([{ tasks }], new IdMapper(), { tasksFile: 'tasks.json', rules });
+    const priorities = plan.operations.flatMap((op) => (op.op === 'create-epic' ? [[op.taskId, op.priority]] : []));
+    expect(priorities).toEqual([
+      [1, 1],
+      [2, 2],
+      [3, 1],
+    ]);
+  });
+});
+
+describe('executor', () => {
+  it('runs the plan and records everything in the mapper', async () => {
+    const cli = makeMockCli();
+    const mapper = new IdMapper();
+    const plan = buildSyncPlan([project], mapper, { tasksFile: 'tasks.json' });
+
+    const result = await applySyncPlan(plan, cli as any, mapper);
+
+    expect(mapper.getEpicId(1)).toBe('bd-1');
+    expect(mapper.getEpicId(2)).toBe('bd-2');
+    expect(mapper.getSubtaskId(1, 1)).toBe('bd-1.3');
+    expect(cli.addDependency).toHaveBeenCalledWith('bd-2', 'bd-1');
+    expect(cli.addDependency).toHaveBeenCalledWith('bd-1.4', 'bd-1.3');
+    expect(cli.close).toHaveBeenCalledWith('bd-1');
+    expect(cli.updateStatus).toHaveBeenCalledWith('bd-2', 'in_progress');
+    expect(result).toMatchObject({ epicsCreated: 2, childrenCreated: 2, epicDeps: 1, subtaskDeps: 1, statusesSet: 2 });
+  });
+
+  it('skips work already applied when re-run', async () => {
+    const cli = makeMockCli();
+    const mapper = new IdMapper();
+    const plan = buildSyncPlan([project], mapper, { tasksFile: 'tasks.json' });
+    await applySyncPlan(plan, cli as any, mapper);
+    vi.clearAllMocks();
+
+    const result = await applySyncPlan(plan, cli as any, mapper);
+
+    expect(cli.createEpic).not.toHaveBeenCalled();
+    expect(cli.addDependency).not.toHaveBeenCalled();
+    expect(result.skipped).toBe(plan.operations.length);
+  });
+
+  it('reports the Beads IDs each operation created or touched', async () => {
+    const cli = makeMockCli();
+    const mapper = new IdMapper();
+    const plan = buildSyncPlan([project], mapper, { tasksFile: 'tasks.json' });
+    const outcomes: OperationOutcome[] = [];
+
+    await applySyncPlan(plan, cli as any, mapper, (_op, _current, _total, outcome) => outcomes.push(outcome));
+    expect(outcomes[0]).toEqual({ ids: { '1': 'bd-1' }, skipped: false });
+    const dep = plan.operations.findIndex((op) => op.op === 'add-dependency' && op.kind === 'epic');
+    expect(outcomes[dep].ids).toEqual({ '2': 'bd-2', '1': 'bd-1' });
+
+    outcomes.length = 0;
+    await applySyncPlan(plan, cli as any, mapper, (_op, _current, _total, outcome) => outcomes.push(outcome));
+    expect(outcomes.every((o) => o.skipped)).toBe(true);
+    expect(outcomes[0].ids).toEqual({ '1': 'bd-1' });
+  });
+
+  describe('with concurrency', () => {
+    // Four independent tasks, each with two subtasks; later calls finish first
+    const wide: TaggedProject = {
+      tasks: [1, 2, 3, 4].map((id) =>
+        makeTask({
+          id,
+          subtasks: [
+            { id: 1, title: 'S1', description: 'D', status: 'pending' },
+            { id: 2, title: 'S2', description: 'D', status: 'pending' },
+          ],
+        }),
+      ),
+    };
+
+    function makeSlowCli() {
+      let inFlight = 0;
+      const stats = { maxInFlight: 0, childCalls: [] as string[] };
+      const slow = async <T>(delay: number, value: T): Promise<T> => {
+        stats.maxInFlight = Math.max(stats.maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        inFlight--;
+        return value;
+      };
+      let epics = 0;
+      const cli = {
+        ...makeMockCli(),
+        createEpic: vi.fn(async (title: string) => {
+          const n = ++epics;
+          return slow(20 - n * 4, { id: `bd-${n}`, title });
+        }),
+        createChild: vi.fn(async (parentId: string, title: string) => {
+          stats.childCalls.push(`${parentId}:${title}`);
+          return slow(5, { id: `${parentId}.${title}`, title });
+        }),
+      };
+      return { cli, stats };
+    }
+
+    it('runs up to the limit at once and keeps the mapping in plan order', async () => {
+      const { cli, stats } = makeSlowCli();
+      const mapper = new IdMapper();
+      const plan = buildSyncPlan([wide], mapper, { tasksFile: 'tasks.json' });
+      const progress: number[] = [];
+
+      await applySyncPlan(plan, cli as any, mapper, (_op, current) => progress.push(current), {
+        concurrency: 3,
+      });
+
+      expect(stats.maxInFlight).toBe(3);
+      expect(mapper.getMappings().map((t) => t.tmId)).toEqual([1, 2, 3, 4]);
+      expect(progress).toEqual(plan.operations.map((_op, i) => i + 1));
+      // Children of one epic are still created in order
+      const epic1 = stats.childCalls.filter((c) => c.startsWith('bd-1:'));
+      expect(epic1).toEqual(['bd-1:S1', 'bd-1:S2']);
+    });
+
+    it('keeps the work that succeeded when a call fails', async () => {
+      const { cli } = makeSlowCli();
+      cli.createChild.mockImplementation(async (parentId: string, title: string) => {
+        if (parentId === 'bd-2') throw new Error('bd failed');
+        return { id: `${parentId}.${title}`, title };
+      });
+      const mapper = new IdMapper();
+      const plan = buildSyncPlan([wide], mapper, { tasksFile: 'tasks.json' });
+
+      await expect(applySyncPlan(plan, cli as any, mapper, undefined, { concurrency: 4 })).rejects.toThrow(
+        'bd failed',
+      );
+      expect(mapper.getSubtaskId(1, 2)).toBe('bd-1.S2');
+      expect(mapper.getSubtaskId(2, 1)).toBeUndefined();
+      expect(mapper.getSubtaskId(4, 1)).toBe('bd-4.S1');
+    });
+  });
+
+  it('rejects plans with unknown references before touching Beads', async () => {
+    const cli = makeMockCli();
+    const plan: SyncPlan = {
+      version: 1,
+      generatedAt: '',
+      tasksFile: 'tasks.json',
+      bindings: {},
+      operations: [{ op: 'add-dependency', kind: 'epic', blocked: '2', blocking: '1' }],
+    };
+    expect(validatePlanReferences(plan).errors[0]).toContain('unknown issue "2"');
+    await expect(applySyncPlan(plan, cli as any, new IdMapper())).rejects.toMatchObject({
+      message: expect.stringContaining('Invalid plan'),
+      failure: 'validation',
+    });
+    expect(cli.addDependency).not.toHaveBeenCalled();
+  });
+});
+
+describe('bulk import', () => {
+  function makeImportingCli(supported = true) {
+    const stored: JsonlIssue[] = [];
+    return {
+      ...makeMockCli(),
+      stored,
+      supportsImport: vi.fn(async () => supported),
+      getIssuePrefix: vi.fn(async () => 'proj'),
+      exportIssues: vi.fn(async () => structuredClone(stored)),
+      importIssues: vi.fn(async (issues: JsonlIssue[]) => {
+        stored.push(...issues);
+      }),
+    };
+  }
+
+  it('imports new issues in one call and maps the exported IDs', async () => {
+    const cli = makeImportingCli();
+    const mapper = new IdMapper();
+    const plan = buildSyncPlan([project], mapper, { tasksFile: 'tasks.json' });
+    const progress: number[] = [];
+
+    const result = await importSyncPlan(plan, cli as any, mapper, (_op, current) => progress.push(current));
+
+    expect(cli.importIssues).toHaveBeenCalledTimes(1);
+    expect(cli.createEpic).not.toHaveBeenCalled();
+    expect(cli.addDependency).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ imported: 4, epicsCreated: 2, childrenCreated: 2, epicDeps: 1, subtaskDeps: 1 });
+    expect(progress).toEqual(plan.operations.map((_op, i) => i + 1));
+
+    const byRef = new Map(cli.stored.map((issue) => [issue.external_ref, issue]));
+    const epic1 = byRef.get('tm2bd:1')!;
+    const epic2 = byRef.get('tm2bd:2')!;
+    const child2 = byRef.get('tm2bd:1.2')!;
+    expect(epic1).toMatchObject({ issue_type: 'epic', status: 'closed', labels: expect.arrayContaining(['tm2bd']) });
+    expect(epic2.dependencies).toEqual([expect.objectContaining({ depends_on_id: epic1.id, type: 'blocks' })]);
+    expect(child2.id).toBe(`${epic1.id}.2`);
+    expect(child2.dependencies!.map((d) => [d.depends_on_id, d.type])).toEqual([
+      [epic1.id, 'parent-child'],
+      [`${epic1.id}.1`, 'blocks'],
+    ]);
+
+    expect(mapper.getEpicId(1)).toBe(epic1.id);
+    expect(mapper.getSubtaskId(1, 2)).toBe(child2.id);
+    expect(mapper.hasDependency(epic2.id, epic1.id)).toBe(true);
+    expect(mapper.getAppliedStatus(epic1.id)).toBe('closed');
+  });
+
+  it('applies work on existing issues call by call', async () => {
+    const cli = makeImportingCli();
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-old');
+    mapper.addSubtask(1, 1, 'bd-old.1');
+    mapper.addSubtask(1, 2, 'bd-old.2');
+    const plan = buildSyncPlan([project], mapper, { tasksFile: 'tasks.json' });
+
+    await importSyncPlan(plan, cli as any, mapper);
+
+    expect(cli.stored.map((issue) => issue.external_ref)).toEqual(['tm2bd:2']);
+    expect(cli.stored[0].dependencies).toEqual([expect.objectContaining({ depends_on_id: 'bd-old' })]);
+    expect(cli.close).toHaveBeenCalledWith('bd-old');
+    expect(cli.addDependency).toHaveBeenCalledWith('bd-old.2', 'bd-old.1');
+  });
+
+  it('adopts issues an interrupted import created instead of importing them again', async () => {
+    const cli = makeImportingCli();
+    const plan = buildSyncPlan([project], new IdMapper(), { tasksFile: 'tasks.json' });
+    await importSyncPlan(plan, cli as any, new IdMapper());
+
+    // The mapping was never checkpointed
+    const mapper = new IdMapper();
+    const result = await importSyncPlan(plan, cli as any, mapper);
+
+    expect(cli.importIssues).toHaveBeenCalledTimes(1);
+    expect(cli.stored).toHaveLength(4);
+    expect(result).toMatchObject({ imported: 0, epicsCreated: 0, skipped: plan.operations.length });
+    expect(cli.addDependency).not.toHaveBeenCalled();
+    expect(cli.close).not.toHaveBeenCalled();
+    const epic1 = cli.stored.find((issue) => issue.external_ref === 'tm2bd:1')!;
+    expect(mapper.getEpicId(1)).toBe(epic1.id);
+    expect(mapper.getSubtaskId(1, 2)).toBe(`${epic1.id}.2`);
+  });
+
+  it('numbers progress from 1 when some issues already exist', async () => {
+    const cli = makeImportingCli();
+    // A plan built before an earlier apply created epic 1
+    const plan = buildSyncPlan([project], new IdMapper(), { tasksFile: 'tasks.json' });
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-old');
+    mapper.addSubtask(1, 1, 'bd-old.1');
+    mapper.addSubtask(1, 2, 'bd-old.2');
+    const progress: number[] = [];
+    const skipped: boolean[] = [];
+
+    await importSyncPlan(plan, cli as any, mapper, (_op, current, _total, outcome) => {
+      progress.push(current);
+      skipped.push(outcome.skipped);
+    });
+
+    expect(progress).toEqual(plan.operations.map((_op, i) => i + 1));
+    expect(skipped.filter(Boolean)).toHaveLength(3);
+  });
+
+  it('falls back to per-call creation when bd cannot import', async () => {
+    const cli = makeImportingCli(false);
+    const mapper = new IdMapper();
+    const plan = buildSyncPlan([project], mapper, { tasksFile: 'tasks.json' });
+
+    const result = await importSyncPlan(plan, cli as any, mapper);
+
+    expect(result.fallback).toContain('no import command');
+    expect(result.imported).toBe(0);
+    expect(cli.importIssues).not.toHaveBeenCalled();
+    expect(cli.createEpic).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('render', () => {
+  it('renders one line per operation as text', () => {
+    const plan = buildSyncPlan([project], new IdMapper(), { tasksFile: 'tasks.json' });
+    const text = renderPlanText(plan);
+    expect(text).toContain('[tier 0] create epic 1 "Test task" (P0)');
+    expect(text).toContain('create child 1.2 "S2" under 1');
+    expect(text).toContain('add dependency 2 blocked by 1');
+    expect(text).toContain('set status 1 → closed');
+  });
+
+  it('renders a shell script that captures created IDs', () => {
+    const mapper = new IdMapper();
+    mapper.forTag(undefined).addEpic(1, 'bd-a');
+    const plan = buildSyncPlan([project], mapper, { tasksFile: 'tasks.json' });
+    const script = renderPlanShell(plan);
+    expect(script).toContain("ID_1='bd-a'");
+    expect(script).toMatch(/ID_2=\$\(bd create 'Second' -t epic -p 0 --json -d '[^']*' \| jq -r \.id\)/);
+    expect(script).toContain('bd dep add "$ID_2" "$ID_1"');
+    expect(script).toContain('bd update "$ID_2" -s \'in_progress\'');
+  });
+});
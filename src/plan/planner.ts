@@ -0,0 +1,196 @@
+import type { TaggedProject } from '../schemas/taskmaster.js';
+import type { PlanOperation, SyncPlan } from '../schemas/sync-plan.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { topologicalSort } from '../utils/topological-sort.js';
+import { criticalTaskIds } from '../graph/schedule.js';
+import { formatEpicDescription, mapPriority } from '../sync/epic-creator.js';
+import { formatChildDescription } from '../sync/child-creator.js';
+import { mapStatus } from '../sync/status-syncer.js';
+import { formatTagEpicDescription } from '../sync/tag-organizer.js';
+import { PROVENANCE_LABEL, issueLabels, tagLabel } from '../sync/labeler.js';
+import type { TagMode } from '../sync/tag-organizer.js';
+import { DEFAULT_MAPPING_RULES } from '../sync/mapping-rules.js';
+import type { MappingRules } from '../sync/mapping-rules.js';
+
+export interface PlanOptions {
+  tasksFile: string;
+  tagMode?: TagMode;
+  rules?: MappingRules;
+  /**
+   * The same tags before a task filter narrowed them; the critical path
+   * runs through every task, selected or not.
+   */
+  unfiltered?: TaggedProject[];
+}
+
+export function taskRef(tag: string | undefined, taskId: number, subtaskId?: number): string {
+  const id = subtaskId === undefined ? String(taskId) : `${taskId}.${subtaskId}`;
+  return tag === undefined ? id : `${tag}:${id}`;
+}
+
+export function tagEpicRef(tag: string): string {
+  return `@${tag}`;
+}
+
+const TASK_REF = /^(?:(.+):)?(\d+)(?:\.(\d+))?$/;
+
+/** Read back a {@link taskRef}; the tag is left out when the ref has none. */
+export function parseTaskRef(ref: string): { tag?: string; taskId: number; subtaskId?: number } | undefined {
+  const match = TASK_REF.exec(ref);
+  if (!match) return undefined;
+  const [, tag, taskId, subtaskId] = match;
+  return {
+    ...(tag !== undefined && { tag }),
+    taskId: Number(taskId),
+    ...(subtaskId !== undefined && { subtaskId: Number(subtaskId) }),
+  };
+}
+
+/**
+ * Turn validated projects into the ordered operations a sync performs.
+ * Issues already in the mapping become bindings instead of create
+ * operations, and journaled dependencies and statuses are left out, so a
+ * plan built from a partial mapping only contains the remaining work.
+ */
+export function buildSyncPlan(
+  projects: TaggedProject[],
+  mapper: IdMapper,
+  options: PlanOptions,
+): SyncPlan {
+  const rules = options.rules ?? DEFAULT_MAPPING_RULES;
+  const bindings: Record<string, string> = {};
+  const creates: PlanOperation[] = [];
+  const children: PlanOperation[] = [];
+  const dependencies: PlanOperation[] = [];
+  const statuses: PlanOperation[] = [];
+  const labels: PlanOperation[] = [];
+
+  function bind(ref: string, beadsId: string | undefined): boolean {
+    if (beadsId) bindings[ref] = beadsId;
+    return beadsId !== undefined;
+  }
+
+  function addDependency(kind: 'epic' | 'subtask', blocked: string, blocking: string): void {
+    const blockedId = bindings[blocked];
+    const blockingId = bindings[blocking];
+    if (blockedId && blockingId && mapper.hasDependency(blockedId, blockingId)) return;
+    dependencies.push({ op: 'add-dependency', kind, blocked, blocking });
+  }
+
+  function addStatus(target: string, tmStatus: string): void {
+    const { status, close } = mapStatus(tmStatus, rules);
+    const desired = close ? 'closed' : status;
+    if (!desired) return;
+    const beadsId = bindings[target];
+    if (beadsId && mapper.getAppliedStatus(beadsId) === desired) return;
+    statuses.push({ op: 'set-status', target, status: desired });
+  }
+
+  function addLabels(target: string, wanted: string[]): void {
+    const beadsId = bindings[target];
+    for (const label of new Set(wanted)) {
+      if (beadsId && mapper.hasLabel(beadsId, label)) continue;
+      labels.push({ op: 'add-label', target, label });
+    }
+  }
+
+  for (const project of projects) {
+    const { tag } = project;
+    const tagMapper = mapper.forTag(tag);
+    const sorted = topologicalSort(project.tasks);
+    const all = options.unfiltered?.find((p) => p.tag === tag) ?? project;
+    const critical = rules.raiseCriticalPath ? criticalTaskIds(all.tasks) : new Set<number>();
+
+    let parent: string | undefined;
+    if (tag !== undefined && options.tagMode === 'epic') {
+      parent = tagEpicRef(tag);
+      if (!bind(parent, tagMapper.getTagEpicId())) {
+        creates.push({
+          op: 'create-tag-epic',
+          ref: parent,
+          tag,
+          title: tag,
+          description: formatTagEpicDescription(tag),
+          priority: mapPriority('medium', undefined, rules),
+        });
+      }
+    }
+
+    for (const { task, tier } of sorted) {
+      const ref = taskRef(tag, task.id);
+      if (!bind(ref, tagMapper.getEpicId(task.id))) {
+        creates.push({
+          op: 'create-epic',
+          ref,
+          ...(tag !== undefined && { tag }),
+          taskId: task.id,
+          tier,
+          ...(parent !== undefined && { parent }),
+          title: task.title,
+          description: formatEpicDescription(task, rules, tag),
+          priority: mapPriority(task.priority, task.complexity, rules, critical.has(task.id)),
+        });
+      }
+
+      const sortedSubtasks = [...(task.subtasks ?? [])].sort((a, b) => a.id - b.id);
+      for (const subtask of sortedSubtasks) {
+        const childRef = taskRef(tag, task.id, subtask.id);
+        if (!bind(childRef, tagMapper.getSubtaskId(task.id, subtask.id))) {
+          children.push({
+            op: 'create-child',
+            ref: childRef,
+            ...(tag !== undefined && { tag }),
+            taskId: task.id,
+            subtaskId: subtask.id,
+            parent: ref,
+            title: subtask.title,
+            description: formatChildDescription(subtask, task, rules, tag),
+            issueType: rules.issueType,
+          });
+        }
+      }
+    }
+
+    for (const task of project.tasks) {
+      const ref = taskRef(tag, task.id);
+      for (const depId of task.dependencies) {
+        addDependency('epic', ref, taskRef(tag, depId));
+      }
+    }
+
+    for (const task of project.tasks) {
+      for (const subtask of task.subtasks ?? []) {
+        const ref = taskRef(tag, task.id, subtask.id);
+        for (const dep of subtask.dependencies ?? []) {
+          addDependency('subtask', ref, taskRef(tag, dep.taskId, dep.subtaskId));
+        }
+      }
+    }
+
+    for (const task of project.tasks) {
+      addStatus(taskRef(tag, task.id), task.status);
+      for (const subtask of task.subtasks ?? []) {
+        addStatus(taskRef(tag, task.id, subtask.id), subtask.status);
+      }
+    }
+
+    if (parent !== undefined && rules.labels.provenance) {
+      addLabels(parent, [PROVENANCE_LABEL]);
+    }
+    const tagLabels = tag !== undefined && options.tagMode === 'label' ? [tagLabel(tag)] : [];
+    for (const { task } of sorted) {
+      addLabels(taskRef(tag, task.id), [...issueLabels(task, tag, rules), ...tagLabels]);
+      for (const subtask of task.subtasks ?? []) {
+        addLabels(taskRef(tag, task.id, subtask.id), [...issueLabels(subtask, tag, rules), ...tagLabels]);
+      }
+    }
+  }
+
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    tasksFile: options.tasksFile,
+    bindings,
+    operations: [...creates, ...children, ...dependencies, ...statuses, ...labels],
+  };
+}
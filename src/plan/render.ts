@@ -0,0 +1,132 @@
+import type { PlanOperation, SyncPlan } from '../schemas/sync-plan.js';
+
+export type PlanFormat = 'text' | 'json' | 'shell';
+
+export const PLAN_FORMATS: PlanFormat[] = ['text', 'json', 'shell'];
+
+function describeOperation(op: PlanOperation): string {
+  switch (op.op) {
+    case 'create-tag-epic':
+      return `create epic ${op.ref} "${op.title}" (P${op.priority})`;
+    case 'create-epic': {
+      const under = op.parent !== undefined ? ` under ${op.parent}` : '';
+      return `[tier ${op.tier}] create epic ${op.ref} "${op.title}" (P${op.priority})${under}`;
+    }
+    case 'create-child':
+      return `create child ${op.ref} "${op.title}" under ${op.parent}`;
+    case 'add-dependency':
+      return `add dependency ${op.blocked} blocked by ${op.blocking}`;
+    case 'set-status':
+      return `set status ${op.target} → ${op.status}`;
+    case 'add-label':
+      return `add label ${op.target} ${op.label}`;
+  }
+}
+
+export function renderPlanText(plan: SyncPlan): string {
+  const lines = [`Plan for ${plan.tasksFile} (${plan.operations.length} operation(s))`];
+
+  const bound = Object.entries(plan.bindings);
+  if (bound.length > 0) {
+    lines.push('', 'Existing issues:');
+    for (const [ref, beadsId] of bound) {
+      lines.push(`  ${ref} = ${beadsId}`);
+    }
+  }
+
+  if (plan.operations.length > 0) {
+    lines.push('', 'Operations:');
+    for (const op of plan.operations) {
+      lines.push(`  ${describeOperation(op)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Render the plan as a bash script issuing the same bd commands as
+ * `tm2bd apply`. Created IDs are captured in shell variables with jq.
+ */
+export function renderPlanShell(plan: SyncPlan): string {
+  const varNames = new Map<string, string>();
+  const used = new Set<string>();
+
+  function varFor(ref: string): string {
+    let name = varNames.get(ref);
+    if (name) return name;
+    const base = `ID_${ref.replace(/[^A-Za-z0-9]/g, '_')}`;
+    name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+    used.add(name);
+    varNames.set(ref, name);
+    return name;
+  }
+
+  const use = (ref: string) => `"$${varFor(ref)}"`;
+
+  const lines = [
+    '#!/usr/bin/env bash',
+    `# Generated by tm2bd from ${plan.tasksFile} at ${plan.generatedAt}.`,
+    '# Does not update the tm2bd mapping file; use `tm2bd apply` for that.',
+    'set -euo pipefail',
+    '',
+  ];
+
+  for (const [ref, beadsId] of Object.entries(plan.bindings)) {
+    lines.push(`${varFor(ref)}=${shellQuote(beadsId)}`);
+  }
+  if (Object.keys(plan.bindings).length > 0) lines.push('');
+
+  for (const op of plan.operations) {
+    switch (op.op) {
+      case 'create-tag-epic':
+      case 'create-epic': {
+        const args = ['bd create', shellQuote(op.title), '-t epic', `-p ${op.priority}`, '--json'];
+        if (op.op === 'create-epic' && op.parent !== undefined) {
+          args.push('--parent', use(op.parent));
+        }
+        if (op.description) args.push('-d', shellQuote(op.description));
+        lines.push(`${varFor(op.ref)}=$(${args.join(' ')} | jq -r .id)`);
+        break;
+      }
+      case 'create-child': {
+        const args = ['bd create', shellQuote(op.title), '--parent', use(op.parent), '--json'];
+        if (op.issueType) args.push('-t', shellQuote(op.issueType));
+        if (op.description) args.push('-d', shellQuote(op.description));
+        lines.push(`${varFor(op.ref)}=$(${args.join(' ')} | jq -r .id)`);
+        break;
+      }
+      case 'add-dependency':
+        lines.push(`bd dep add ${use(op.blocked)} ${use(op.blocking)}`);
+        break;
+      case 'set-status':
+        lines.push(
+          op.status === 'closed'
+            ? `bd close ${use(op.target)}`
+            : `bd update ${use(op.target)} -s ${shellQuote(op.status)}`,
+        );
+        break;
+      case 'add-label':
+        lines.push(`bd update ${use(op.target)} --add-label ${shellQuote(op.label)}`);
+        break;
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function renderPlan(plan: SyncPlan, format: PlanFormat): string {
+  switch (format) {
+    case 'text':
+      return renderPlanText(plan);
+    case 'json':
+      return JSON.stringify(plan, null, 2) + '\n';
+    case 'shell':
+      return renderPlanShell(plan);
+  }
+}
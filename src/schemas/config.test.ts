@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { loadProjectConfig, resolveMappingRules } from './config.js';
+import { DEFAULT_MAPPING_RULES } from '../sync/mapping-rules.js';
+
+describe('loadProjectConfig', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-config-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true });
+  });
+
+  it('returns an empty config when there is none', async () => {
+    expect(await loadProjectConfig(tmpDir)).toEqual({ config: {}, templates: {} });
+  });
+
+  it('reads .tm2bd.json in preference to package.json', async () => {
+    await fs.writeFile(path.join(tmpDir, '.tm2bd.json'), JSON.stringify({ issueType: 'chore' }));
+    await fs.writeFile(path.join(tmpDir, 'package.json'), JSON.stringify({ tm2bd: { issueType: 'bug' } }));
+    const loaded = await loadProjectConfig(tmpDir);
+    expect(loaded.config.issueType).toBe('chore');
+    expect(loaded.source).toBe(path.join(tmpDir, '.tm2bd.json'));
+  });
+
+  it('reads the tm2bd key of package.json', async () => {
+    await fs.writeFile(
+      path.join(tmpDir, 'package.json'),
+      JSON.stringify({ name: 'x', tm2bd: { defaults: { backend: 'jsonl' } } }),
+    );
+    const loaded = await loadProjectConfig(tmpDir);
+    expect(loaded.config.defaults).toEqual({ backend: 'jsonl' });
+  });
+
+  it('points at the bad key', async () => {
+    await fs.writeFile(
+      path.join(tmpDir, 'package.json'),
+      JSON.stringify({ tm2bd: { priorityMap: { low: 7 }, defaults: { mapfile: 'x' } } }),
+    );
+    const error = await loadProjectConfig(tmpDir).catch((e: Error) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('tm2bd.priorityMap.low:');
+    expect((error as Error).message).toContain('tm2bd.defaults.mapfile: Unrecognized key');
+  });
+
+  it('loads templates relative to the config file', async () => {
+    const configDir = path.join(tmpDir, 'conf');
+    await fs.mkdir(configDir);
+    await fs.writeFile(path.join(configDir, 'child.md'), '{{description}} ({{parent.title}})\n');
+    const configPath = path.join(configDir, 'tm2bd.json');
+    await fs.writeFile(configPath, JSON.stringify({ templates: { child: 'child.md' } }));
+    const loaded = await loadProjectConfig(tmpDir, configPath);
+    expect(loaded.templates).toEqual({ child: '{{description}} ({{parent.title}})' });
+    expect(resolveMappingRules(loaded.config, loaded.templates).templates.child).toBe(
+      '{{description}} ({{parent.title}})',
+    );
+  });
+
+  it('rejects templates with unknown placeholders', async () => {
+    await fs.writeFile(path.join(tmpDir, 'epic.md'), '{{titel}}');
+    await fs.writeFile(path.join(tmpDir, '.tm2bd.json'), JSON.stringify({ templates: { epic: 'epic.md' } }));
+    await expect(loadProjectConfig(tmpDir)).rejects.toThrow('Unknown placeholder(s) {{titel}}');
+  });
+
+  it('requires an explicitly given config file to exist', async () => {
+    await expect(loadProjectConfig(tmpDir, path.join(tmpDir, 'nope.json'))).rejects.toThrow(
+      'Config file not found',
+    );
+  });
+});
+
+describe('resolveMappingRules', () => {
+  it('is the built-in mapping for an empty config', () => {
+    expect(resolveMappingRules({})).toEqual(DEFAULT_MAPPING_RULES);
+  });
+
+  it('overlays configured entries', () => {
+    const rules = resolveMappingRules({
+      statusMap: { cancelled: 'deferred' },
+      priorityMap: { low: 4 },
+      complexityBump: { atLeast: 8, by: 1 },
+    });
+    expect(rules.statusMap.cancelled).toBe('deferred');
+    expect(rules.statusMap.done).toBe('closed');
+    expect(rules.priorityMap).toEqual({ high: 0, medium: 1, low: 4 });
+    expect(rules.complexityBump).toEqual({ atLeast: 8, by: 1 });
+  });
+});
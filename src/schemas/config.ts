@@ -0,0 +1,196 @@
+import { z } from 'zod';
+import fs from 'fs/promises';
+import path from 'path';
+import { TaskMasterPrioritySchema, TaskMasterStatusSchema } from './taskmaster.js';
+import { BACKEND_KINDS } from '../beads/backend.js';
+import { TAG_MODES } from '../sync/tag-organizer.js';
+import { OUTSIDE_DEPENDENCY_POLICIES } from '../sync/task-filter.js';
+import { PLAN_FORMATS } from '../plan/render.js';
+import { BEADS_STATUSES, CHILD_ISSUE_TYPES, DEFAULT_MAPPING_RULES } from '../sync/mapping-rules.js';
+import type { MappingRules } from '../sync/mapping-rules.js';
+import { validateDescriptionTemplate } from '../sync/description-templates.js';
+import type { DescriptionTemplates, TemplateKind } from '../sync/description-templates.js';
+import { Tm2bdError } from '../errors.js';
+
+export const CONFIG_FILE_NAME = '.tm2bd.json';
+
+/** Key holding the config when it lives in package.json. */
+export const PACKAGE_JSON_KEY = 'tm2bd';
+
+const BeadsPrioritySchema = z.number().int().min(0).max(4);
+
+/** Default values for CLI flags, keyed by their camelCased option names. */
+const FlagDefaultsSchema = z.strictObject({
+  tasks: z.string(),
+  project: z.string(),
+  backend: z.enum(BACKEND_KINDS),
+  mapFile: z.string(),
+  tag: z.string(),
+  allTags: z.boolean(),
+  tagAs: z.enum(TAG_MODES),
+  format: z.enum(PLAN_FORMATS),
+  concurrency: z.number().int().min(1),
+  bulk: z.boolean(),
+  raiseCriticalPath: z.boolean(),
+  reduceDeps: z.boolean(),
+  leafDeps: z.boolean(),
+  skipDone: z.boolean(),
+  outsideDeps: z.enum(OUTSIDE_DEPENDENCY_POLICIES),
+  verbose: z.boolean(),
+}).partial();
+
+export const ProjectConfigSchema = z.strictObject({
+  statusMap: z.partialRecord(TaskMasterStatusSchema, z.enum(BEADS_STATUSES)).optional(),
+  priorityMap: z.partialRecord(TaskMasterPrioritySchema, BeadsPrioritySchema).optional(),
+  complexityBump: z
+    .strictObject({
+      atLeast: z.number().int().min(1).max(10),
+      by: z.number().int().min(1).max(4).default(1),
+    })
+    .optional(),
+  issueType: z.enum(CHILD_ISSUE_TYPES).optional(),
+  labels: z
+    .strictObject({
+      provenance: z.boolean(),
+      status: z.boolean(),
+      complexity: z.boolean(),
+      tag: z.boolean(),
+    })
+    .partial()
+    .optional(),
+  /** Description template files, relative to the config file. */
+  templates: z.strictObject({ epic: z.string(), child: z.string() }).partial().optional(),
+  defaults: FlagDefaultsSchema.optional(),
+});
+
+export type FlagDefaults = z.infer<typeof FlagDefaultsSchema>;
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
+export interface LoadedConfig {
+  config: ProjectConfig;
+  /** Where the config was read from, if anywhere. */
+  source?: string;
+  /** Contents of the template files the config names. */
+  templates: Partial<DescriptionTemplates>;
+}
+
+async function readJson(filePath: string): Promise<unknown | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw new Tm2bdError(`Failed to read ${filePath}: ${(err as Error).message}`, 'validation');
+  }
+
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Tm2bdError(`Invalid JSON in ${filePath}`, 'validation');
+  }
+}
+
+function validateConfig(raw: unknown, source: string, keyPrefix: string[]): ProjectConfig {
+  const result = ProjectConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => {
+        // Unknown keys are reported on their parent; name them instead
+        const keys = i.code === 'unrecognized_keys' ? i.keys : [undefined];
+        return keys
+          .map((key) => {
+            const where = [...keyPrefix, ...i.path, ...(key !== undefined ? [key] : [])];
+            return `  ${where.join('.') || '(root)'}: ${i.message}`;
+          })
+          .join('\n');
+      })
+      .join('\n');
+    throw new Tm2bdError(`Invalid tm2bd config in ${source}:\n${issues}`, 'validation');
+  }
+  return result.data;
+}
+
+async function loadTemplates(
+  config: ProjectConfig,
+  source: string,
+  keyPrefix: string[],
+): Promise<Partial<DescriptionTemplates>> {
+  const templates: Partial<DescriptionTemplates> = {};
+  for (const [kind, file] of Object.entries(config.templates ?? {}) as [TemplateKind, string][]) {
+    const key = [...keyPrefix, 'templates', kind].join('.');
+    const templatePath = path.resolve(path.dirname(source), file);
+    let content: string;
+    try {
+      content = await fs.readFile(templatePath, 'utf-8');
+    } catch (err) {
+      throw new Tm2bdError(
+        `Invalid tm2bd config in ${source}:\n  ${key}: cannot read ${templatePath} (${(err as Error).message})`,
+        'validation',
+      );
+    }
+    // Editors end files with a newline the description should not get
+    content = content.replace(/\r?\n$/, '');
+    try {
+      validateDescriptionTemplate(content, kind);
+    } catch (err) {
+      throw new Tm2bdError(
+        `Invalid ${kind} template ${templatePath} (${key}):\n  ${(err as Error).message}`,
+        'validation',
+      );
+    }
+    templates[kind] = content;
+  }
+  return templates;
+}
+
+async function loadConfigAt(
+  raw: unknown,
+  source: string,
+  keyPrefix: string[],
+): Promise<LoadedConfig> {
+  const config = validateConfig(raw, source, keyPrefix);
+  return { config, source, templates: await loadTemplates(config, source, keyPrefix) };
+}
+
+/**
+ * Load the project config: `configPath` when given, otherwise
+ * `.tm2bd.json` in `dir`, otherwise the `tm2bd` key of `dir`/package.json.
+ * Returns an empty config when none exists.
+ */
+export async function loadProjectConfig(dir: string, configPath?: string): Promise<LoadedConfig> {
+  if (configPath) {
+    const raw = await readJson(configPath);
+    if (raw === undefined) throw new Tm2bdError(`Config file not found: ${configPath}`, 'validation');
+    return loadConfigAt(raw, configPath, []);
+  }
+
+  const configFile = path.join(dir, CONFIG_FILE_NAME);
+  const raw = await readJson(configFile);
+  if (raw !== undefined) {
+    return loadConfigAt(raw, configFile, []);
+  }
+
+  const packageFile = path.join(dir, 'package.json');
+  const pkg = await readJson(packageFile);
+  if (typeof pkg === 'object' && pkg !== null && PACKAGE_JSON_KEY in pkg) {
+    const section = (pkg as Record<string, unknown>)[PACKAGE_JSON_KEY];
+    return loadConfigAt(section, packageFile, [PACKAGE_JSON_KEY]);
+  }
+
+  return { config: {}, templates: {} };
+}
+
+/** Overlay the config's mappings and loaded templates on the built-in ones. */
+export function resolveMappingRules(
+  config: ProjectConfig,
+  templates: Partial<DescriptionTemplates> = {},
+): MappingRules {
+  return {
+    statusMap: { ...DEFAULT_MAPPING_RULES.statusMap, ...config.statusMap },
+    priorityMap: { ...DEFAULT_MAPPING_RULES.priorityMap, ...config.priorityMap },
+    complexityBump: config.complexityBump,
+    issueType: config.issueType ?? DEFAULT_MAPPING_RULES.issueType,
+    labels: { ...DEFAULT_MAPPING_RULES.labels, ...config.labels },
+    templates: { ...DEFAULT_MAPPING_RULES.templates, ...templates },
+  };
+}
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import { Tm2bdError } from '../errors.js';
+
+/** Version written by {@link IdMapper.save}; older files are migrated on load. */
+export const MAPPING_VERSION = '2.0';
+
+const SubtaskMappingSchema = z.object({
+  tmId: z.number(),
+  beadsId: z.string().min(1),
+  /** Hash of the subtask as last written to Beads. */
+  hash: z.string().optional(),
+  /** When that content was written. */
+  syncedAt: z.string().optional(),
+});
+
+const TaskMappingSchema = z.object({
+  tmId: z.number(),
+  beadsId: z.string().min(1),
+  /** task-master tag the task came from; task IDs repeat across tags. */
+  tag: z.string().optional(),
+  /** Hash of the task, subtasks aside, as last written to Beads. */
+  hash: z.string().optional(),
+  syncedAt: z.string().optional(),
+  subtasks: z.array(SubtaskMappingSchema),
+});
+
+/** Umbrella epic standing in for a whole task-master tag. */
+const TagEpicMappingSchema = z.object({
+  tag: z.string(),
+  beadsId: z.string().min(1),
+});
+
+const DependencyRecordSchema = z.object({ blocked: z.string(), blocking: z.string() });
+const StatusRecordSchema = z.object({ beadsId: z.string(), status: z.string() });
+const LabelRecordSchema = z.object({ beadsId: z.string(), label: z.string() });
+
+/** Operations already applied to Beads, so a resumed run can skip them. */
+const SyncJournalSchema = z.object({
+  dependencies: z.array(DependencyRecordSchema).default([]),
+  statuses: z.array(StatusRecordSchema).default([]),
+  labels: z.array(LabelRecordSchema).default([]),
+});
+
+/**
+ * A dependency from tasks.json that `--reduce-deps` left unwired because
+ * a longer chain already implies it. Ends and path are task-master refs.
+ */
+const ReducedDependencySchema = z.object({
+  tag: z.string().optional(),
+  blocked: z.string(),
+  blocking: z.string(),
+  /** Refs between the two ends on the chain that implies the edge. */
+  via: z.array(z.string()),
+});
+
+/** Which Beads project and tasks file a mapping belongs to. */
+const MappingProjectSchema = z.object({
+  /** Prefix of the Beads project's issue IDs, from .beads/config.yaml. */
+  issuePrefix: z.string().optional(),
+  /** tasks.json the mapping was last synced from. */
+  tasksFile: z.string().optional(),
+});
+
+const LegacyMappingFileSchema = z.object({
+  version: z.literal('1.0'),
+  generatedAt: z.string(),
+  tasks: z.array(TaskMappingSchema),
+  tagEpics: z.array(TagEpicMappingSchema).optional(),
+  journal: SyncJournalSchema.partial().optional(),
+});
+
+export const MappingFileSchema = z.object({
+  version: z.literal(MAPPING_VERSION),
+  generatedAt: z.string(),
+  project: MappingProjectSchema,
+  tasks: z.array(TaskMappingSchema),
+  tagEpics: z.array(TagEpicMappingSchema).default([]),
+  journal: SyncJournalSchema,
+  reducedDependencies: z.array(ReducedDependencySchema).default([]),
+});
+
+export type SubtaskMapping = z.infer<typeof SubtaskMappingSchema>;
+export type TaskMapping = z.infer<typeof TaskMappingSchema>;
+export type TagEpicMapping = z.infer<typeof TagEpicMappingSchema>;
+export type DependencyRecord = z.infer<typeof DependencyRecordSchema>;
+export type StatusRecord = z.infer<typeof StatusRecordSchema>;
+export type LabelRecord = z.infer<typeof LabelRecordSchema>;
+export type SyncJournal = z.infer<typeof SyncJournalSchema>;
+export type ReducedDependency = z.infer<typeof ReducedDependencySchema>;
+export type MappingProject = z.infer<typeof MappingProjectSchema>;
+export type MappingFile = z.infer<typeof MappingFileSchema>;
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => `  ${i.path.join('.')}: ${i.message}`).join('\n');
+}
+
+/**
+ * Validate the contents of a mapping file, migrating 1.0 files to the
+ * current version. A 1.0 file has no project identity; it is filled in
+ * by the next sync.
+ */
+export function parseMappingFile(content: string, filePath: string): MappingFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Tm2bdError(`Invalid JSON in mapping file ${filePath}`, 'mapping-conflict');
+  }
+
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (version === '1.0') {
+    const result = LegacyMappingFileSchema.safeParse(raw);
+    if (!result.success) {
+      throw new Tm2bdError(
+        `Validation errors in mapping file ${filePath}:\n${formatIssues(result.error)}`,
+        'mapping-conflict',
+      );
+    }
+    const legacy = result.data;
+    return {
+      version: MAPPING_VERSION,
+      generatedAt: legacy.generatedAt,
+      project: {},
+      tasks: legacy.tasks,
+      tagEpics: legacy.tagEpics ?? [],
+      journal: SyncJournalSchema.parse(legacy.journal ?? {}),
+      reducedDependencies: [],
+    };
+  }
+  if (version !== MAPPING_VERSION) {
+    throw new Tm2bdError(
+      `Unsupported mapping file version ${JSON.stringify(version)} in ${filePath}.\nThis tm2bd reads versions 1.0 and ${MAPPING_VERSION}.`,
+      'mapping-conflict',
+    );
+  }
+
+  const result = MappingFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Tm2bdError(
+      `Validation errors in mapping file ${filePath}:\n${formatIssues(result.error)}`,
+      'mapping-conflict',
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { validateProject, validateTasksFile } from './project-validator.js';
+import type { TaskMasterTask } from './taskmaster.js';
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: '',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+const subtask = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  title: `Subtask ${id}`,
+  description: '',
+  status: 'pending' as const,
+  ...overrides,
+});
+
+describe('validateProject', () => {
+  it('accepts a consistent project', () => {
+    const tasks = [
+      makeTask({ id: 1, subtasks: [subtask(1), subtask(2, { dependencies: [{ taskId: 1, subtaskId: 1 }] })] }),
+      makeTask({ id: 2, dependencies: [1] }),
+    ];
+    expect(validateProject({ tag: 'master', tasks })).toEqual([]);
+  });
+
+  it('reports duplicate IDs and empty titles with their paths', () => {
+    const tasks = [
+      makeTask({ id: 1, title: ' ', subtasks: [subtask(1), subtask(1)] }),
+      makeTask({ id: 1 }),
+    ];
+    expect(validateProject({ tasks })).toEqual([
+      { severity: 'error', code: 'duplicate-id', path: 'tasks.0.subtasks.1', message: 'Duplicate subtask ID 1.1' },
+      { severity: 'error', code: 'duplicate-id', path: 'tasks.1', message: 'Duplicate task ID 1' },
+      { severity: 'error', code: 'empty-title', path: 'tasks.0.title', message: 'Task 1 has an empty title' },
+    ]);
+  });
+
+  it('reports dangling and self dependencies of tasks and subtasks', () => {
+    const tasks = [
+      makeTask({
+        id: 1,
+        dependencies: [1, 5],
+        subtasks: [subtask(1, { dependencies: [{ taskId: 1, subtaskId: 1 }, { taskId: 1, subtaskId: 9 }] })],
+      }),
+    ];
+    expect(validateProject({ tag: 'v2', tasks }).map((p) => [p.code, p.path, p.message])).toEqual([
+      ['self-dependency', 'v2.tasks.0.dependencies.0', 'Task 1 depends on itself'],
+      ['missing-dependency', 'v2.tasks.0.dependencies.1', 'Task 1 depends on non-existent task 5'],
+      ['self-dependency', 'v2.tasks.0.subtasks.0.dependencies.0', 'Subtask 1.1 depends on itself'],
+      ['missing-dependency', 'v2.tasks.0.subtasks.0.dependencies.1', 'Subtask 1.1 depends on non-existent subtask 1.9'],
+    ]);
+  });
+
+  it('finds cycles among tasks and among subtasks across tasks', () => {
+    const tasks = [
+      makeTask({ id: 1, subtasks: [subtask(1, { dependencies: [{ taskId: 2, subtaskId: 1 }] })] }),
+      makeTask({ id: 2, subtasks: [subtask(1, { dependencies: [{ taskId: 1, subtaskId: 1 }] })] }),
+      makeTask({ id: 3, dependencies: [4] }),
+      makeTask({ id: 4, dependencies: [3] }),
+    ];
+    expect(validateProject({ tasks })).toEqual([
+      {
+        severity: 'error',
+        code: 'cycle',
+        path: 'tasks.0.subtasks.0.dependencies',
+        message: 'Circular dependency: 1.1 → 2.1 → 1.1',
+      },
+      {
+        severity: 'error',
+        code: 'cycle',
+        path: 'tasks.2.dependencies',
+        message: 'Circular dependency: 3 → 4 → 3',
+      },
+    ]);
+  });
+
+  it('warns when finished work depends on unfinished work', () => {
+    const tasks = [
+      makeTask({ id: 1, status: 'in-progress' }),
+      makeTask({ id: 2, status: 'done', dependencies: [1] }),
+      makeTask({ id: 3, status: 'done', dependencies: [4] }),
+      makeTask({ id: 4, status: 'cancelled' }),
+    ];
+    expect(validateProject({ tasks })).toEqual([
+      {
+        severity: 'warning',
+        code: 'done-before-dependency',
+        path: 'tasks.1.dependencies.0',
+        message: 'Task 2 is done but depends on task 1, which is in-progress',
+      },
+    ]);
+  });
+});
+
+describe('validateTasksFile', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-validate-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true });
+  });
+
+  it('reports schema errors per tag and checks the tags that parse', async () => {
+    const file = path.join(tmpDir, 'tasks.json');
+    await fs.writeFile(
+      file,
+      JSON.stringify({
+        master: { tasks: [makeTask({ dependencies: [3] })] },
+        v2: { tasks: [{ ...makeTask(), status: 'started' }] },
+      }),
+    );
+
+    const problems = await validateTasksFile(file, { allTags: true });
+
+    expect(problems.map((p) => [p.code, p.path])).toEqual([
+      ['missing-dependency', 'master.tasks.0.dependencies.0'],
+      ['schema', 'v2.tasks.0.status'],
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  TaskMasterProjectSchema,
+  formatDependencyRef,
+  readTasksFile,
+  selectTags,
+  unwrapTaggedFormat,
+} from './taskmaster.js';
+import type { TagSelection, TaggedProject, TaskMasterStatus } from './taskmaster.js';
+
+export type ProblemSeverity = 'error' | 'warning';
+
+export type ProblemCode =
+  | 'schema'
+  | 'duplicate-id'
+  | 'empty-title'
+  | 'missing-dependency'
+  | 'self-dependency'
+  | 'cycle'
+  | 'done-before-dependency';
+
+/** Something wrong with a tasks.json; errors stop a sync, warnings do not. */
+export interface ValidationProblem {
+  severity: ProblemSeverity;
+  code: ProblemCode;
+  /** Where in tasks.json, e.g. `master.tasks.2.subtasks.0.dependencies.1`. */
+  path: string;
+  message: string;
+}
+
+/** Statuses that leave nothing for a dependent to wait on. */
+const FINISHED: TaskMasterStatus[] = ['done', 'cancelled'];
+
+interface Node {
+  ref: string;
+  path: string;
+  title: string;
+  status: TaskMasterStatus;
+  /** Refs this task or subtask waits on, with the path of each entry. */
+  dependencies: { ref: string; path: string }[];
+}
+
+/**
+ * Every task and subtask as a node keyed `3` or `3.2`, reporting duplicate
+ * IDs on the way; the first occurrence wins, as it would in a sync.
+ */
+function collectNodes(project: TaggedProject, base: string, problems: ValidationProblem[]): Map<string, Node> {
+  const nodes = new Map<string, Node>();
+  const add = (node: Node, kind: string) => {
+    if (nodes.has(node.ref)) {
+      problems.push({
+        severity: 'error',
+        code: 'duplicate-id',
+        path: node.path,
+        message: `Duplicate ${kind} ID ${node.ref}`,
+      });
+      return false;
+    }
+    nodes.set(node.ref, node);
+    return true;
+  };
+
+  project.tasks.forEach((task, i) => {
+    const path = `${base}tasks.${i}`;
+    const added = add(
+      {
+        ref: String(task.id),
+        path,
+        title: task.title,
+        status: task.status,
+        dependencies: task.dependencies.map((dep, j) => ({ ref: String(dep), path: `${path}.dependencies.${j}` })),
+      },
+      'task',
+    );
+    if (!added) return;
+
+    (task.subtasks ?? []).forEach((subtask, k) => {
+      const subtaskPath = `${path}.subtasks.${k}`;
+      add(
+        {
+          ref: `${task.id}.${subtask.id}`,
+          path: subtaskPath,
+          title: subtask.title,
+          status: subtask.status,
+          dependencies: (subtask.dependencies ?? []).map((dep, j) => ({
+            ref: formatDependencyRef(dep),
+            path: `${subtaskPath}.dependencies.${j}`,
+          })),
+        },
+        'subtask',
+      );
+    });
+  });
+
+  return nodes;
+}
+
+function describe(ref: string): string {
+  return ref.includes('.') ? `Subtask ${ref}` : `Task ${ref}`;
+}
+
+/** Report each dependency cycle once, from the node where it was entered. */
+function findCycles(nodes: Map<string, Node>, problems: ValidationProblem[]): void {
+  const visited = new Set<string>();
+  const visiting = new Set<string>();
+
+  function visit(ref: string, trail: string[]): void {
+    if (visited.has(ref)) return;
+    if (visiting.has(ref)) {
+      const cycle = trail.slice(trail.indexOf(ref)).concat(ref);
+      problems.push({
+        severity: 'error',
+        code: 'cycle',
+        path: `${nodes.get(ref)!.path}.dependencies`,
+        message: `Circular dependency: ${cycle.join(' → ')}`,
+      });
+      return;
+    }
+    visiting.add(ref);
+    for (const dep of nodes.get(ref)!.dependencies) {
+      // Self and dangling references are reported on their own
+      if (dep.ref !== ref && nodes.has(dep.ref)) visit(dep.ref, [...trail, ref]);
+    }
+    visiting.delete(ref);
+    visited.add(ref);
+  }
+
+  for (const ref of nodes.keys()) visit(ref, []);
+}
+
+/**
+ * Check a parsed project for everything that would make a sync fail or
+ * produce a misleading Beads graph: duplicate IDs, empty titles, dangling
+ * and self dependencies, and cycles among tasks and subtasks. Finished
+ * work that depends on unfinished work is a warning.
+ */
+export function validateProject(project: TaggedProject): ValidationProblem[] {
+  const base = project.tag === undefined ? '' : `${project.tag}.`;
+  const problems: ValidationProblem[] = [];
+  const nodes = collectNodes(project, base, problems);
+
+  for (const node of nodes.values()) {
+    if (node.title.trim() === '') {
+      problems.push({
+        severity: 'error',
+        code: 'empty-title',
+        path: `${node.path}.title`,
+        message: `${describe(node.ref)} has an empty title`,
+      });
+    }
+
+    for (const dep of node.dependencies) {
+      const target = nodes.get(dep.ref);
+      if (dep.ref === node.ref) {
+        problems.push({
+          severity: 'error',
+          code: 'self-dependency',
+          path: dep.path,
+          message: `${describe(node.ref)} depends on itself`,
+        });
+      } else if (!target) {
+        problems.push({
+          severity: 'error',
+          code: 'missing-dependency',
+          path: dep.path,
+          message: `${describe(node.ref)} depends on non-existent ${describe(dep.ref).toLowerCase()}`,
+        });
+      } else if (node.status === 'done' && !FINISHED.includes(target.status)) {
+        problems.push({
+          severity: 'warning',
+          code: 'done-before-dependency',
+          path: dep.path,
+          message: `${describe(node.ref)} is done but depends on ${describe(dep.ref).toLowerCase()}, which is ${target.status}`,
+        });
+      }
+    }
+  }
+
+  findCycles(nodes, problems);
+  return problems;
+}
+
+/**
+ * Validate the selected tags of a tasks.json file without stopping at the
+ * first problem: schema errors are reported per tag, and tags that parse
+ * are checked with {@link validateProject}. Only an unreadable file or a
+ * bad tag selection throws.
+ */
+export async function validateTasksFile(
+  filePath: string,
+  selection: TagSelection = {},
+): Promise<ValidationProblem[]> {
+  const raw = await readTasksFile(filePath);
+  const problems: ValidationProblem[] = [];
+
+  for (const tag of selectTags(raw, filePath, selection)) {
+    const result = TaskMasterProjectSchema.safeParse(unwrapTaggedFormat(raw, tag));
+    if (!result.success) {
+      const prefix = tag === undefined ? [] : [tag];
+      for (const issue of result.error.issues) {
+        problems.push({
+          severity: 'error',
+          code: 'schema',
+          path: [...prefix, ...issue.path].join('.'),
+          message: issue.message,
+        });
+      }
+      continue;
+    }
+    problems.push(...validateProject({ ...result.data, tag }));
+  }
+
+  return problems;
+}
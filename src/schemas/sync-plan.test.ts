@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { parseSyncPlan } from './sync-plan.js';
+
+const validPlan = {
+  version: 1,
+  generatedAt: '2026-01-01T00:00:00.000Z',
+  tasksFile: 'tasks.json',
+  bindings: {},
+  operations: [
+    { op: 'create-epic', ref: '1', taskId: 1, tier: 0, title: 'T', description: '', priority: 0 },
+    { op: 'set-status', target: '1', status: 'closed' },
+  ],
+};
+
+describe('parseSyncPlan', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-plan-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true });
+  });
+
+  it('parses a valid plan', async () => {
+    const file = path.join(tmpDir, 'plan.json');
+    await fs.writeFile(file, JSON.stringify(validPlan));
+    const plan = await parseSyncPlan(file);
+    expect(plan.operations).toHaveLength(2);
+  });
+
+  it('rejects unknown operations with their path', async () => {
+    const file = path.join(tmpDir, 'bad-op.json');
+    await fs.writeFile(file, JSON.stringify({ ...validPlan, operations: [{ op: 'delete', ref: '1' }] }));
+    await expect(parseSyncPlan(file)).rejects.toThrow('operations.0');
+  });
+
+  it('throws for non-existent file', async () => {
+    await expect(parseSyncPlan('/nonexistent/plan.json')).rejects.toThrow('not found');
+  });
+});
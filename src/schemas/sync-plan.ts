@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import fs from 'fs/promises';
+import { Tm2bdError } from '../errors.js';
+
+/**
+ * Operations reference issues symbolically: "3" is the epic for task 3,
+ * "3.2" its second subtask, "v2:3.2" the same subtask in tag "v2", and
+ * "@v2" the umbrella epic for tag "v2". Refs are bound to Beads IDs as the
+ * plan runs, or up front through `bindings` for issues that already exist.
+ */
+const RefSchema = z.string().min(1);
+
+const CreateTagEpicOperationSchema = z.object({
+  op: z.literal('create-tag-epic'),
+  ref: RefSchema,
+  tag: z.string(),
+  title: z.string(),
+  description: z.string(),
+  priority: z.number().int().min(0).max(4),
+});
+
+const CreateEpicOperationSchema = z.object({
+  op: z.literal('create-epic'),
+  ref: RefSchema,
+  tag: z.string().optional(),
+  taskId: z.number(),
+  tier: z.number().int().min(0),
+  parent: RefSchema.optional(),
+  title: z.string(),
+  description: z.string(),
+  priority: z.number().int().min(0).max(4),
+});
+
+const CreateChildOperationSchema = z.object({
+  op: z.literal('create-child'),
+  ref: RefSchema,
+  tag: z.string().optional(),
+  taskId: z.number(),
+  subtaskId: z.number(),
+  parent: RefSchema,
+  title: z.string(),
+  description: z.string(),
+  issueType: z.string().optional(),
+});
+
+const AddDependencyOperationSchema = z.object({
+  op: z.literal('add-dependency'),
+  kind: z.enum(['epic', 'subtask']),
+  blocked: RefSchema,
+  blocking: RefSchema,
+});
+
+/** `closed` closes the issue; any other status is set with bd update. */
+const SetStatusOperationSchema = z.object({
+  op: z.literal('set-status'),
+  target: RefSchema,
+  status: z.string(),
+});
+
+const AddLabelOperationSchema = z.object({
+  op: z.literal('add-label'),
+  target: RefSchema,
+  label: z.string(),
+});
+
+export const PlanOperationSchema = z.discriminatedUnion('op', [
+  CreateTagEpicOperationSchema,
+  CreateEpicOperationSchema,
+  CreateChildOperationSchema,
+  AddDependencyOperationSchema,
+  SetStatusOperationSchema,
+  AddLabelOperationSchema,
+]);
+
+export const SyncPlanSchema = z.object({
+  version: z.literal(1),
+  generatedAt: z.string(),
+  tasksFile: z.string(),
+  bindings: z.record(z.string(), z.string()),
+  operations: z.array(PlanOperationSchema),
+});
+
+export type CreateTagEpicOperation = z.infer<typeof CreateTagEpicOperationSchema>;
+export type CreateEpicOperation = z.infer<typeof CreateEpicOperationSchema>;
+export type CreateChildOperation = z.infer<typeof CreateChildOperationSchema>;
+export type AddDependencyOperation = z.infer<typeof AddDependencyOperationSchema>;
+export type SetStatusOperation = z.infer<typeof SetStatusOperationSchema>;
+export type AddLabelOperation = z.infer<typeof AddLabelOperationSchema>;
+export type PlanOperation = z.infer<typeof PlanOperationSchema>;
+export type SyncPlan = z.infer<typeof SyncPlanSchema>;
+
+/**
+ * Parse and validate a plan file written by `tm2bd plan --format json`.
+ */
+export async function parseSyncPlan(filePath: string): Promise<SyncPlan> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Tm2bdError(`Plan file not found: ${filePath}`, 'validation');
+    }
+    throw new Tm2bdError(`Failed to read plan file: ${(err as Error).message}`, 'validation');
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Tm2bdError(`Invalid JSON in ${filePath}`, 'validation');
+  }
+
+  const result = SyncPlanSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `  ${i.path.join('.')}: ${i.message}`)
+      .join('\n');
+    throw new Tm2bdError(`Validation errors in ${filePath}:\n${issues}`, 'validation');
+  }
+
+  return result.data;
+}
@@ -5,6 +5,8 @@ import os from 'os';
 import {
   TaskMasterTaskSchema,
   parseTasksJson,
+  parseTaggedProjects,
+  listTags,
   validateDependencyIds,
   validateCircularDependencies,
 } from './taskmaster.js';
@@ -34,6 +36,52 @@ describe('TaskMasterTaskSchema', () => {
     expect(result.dependencies).toEqual([1, 2]);
   });
 
+  it('resolves bare subtask dependencies against the parent task', () => {
+    const result = TaskMasterTaskSchema.parse({
+      ...validTask,
+      id: 4,
+      subtasks: [{ id: 2, title: 'S', description: 'D', status: 'pending', dependencies: [1, '3'] }],
+    });
+    expect(result.subtasks![0].dependencies).toEqual([
+      { taskId: 4, subtaskId: 1 },
+      { taskId: 4, subtaskId: 3 },
+    ]);
+  });
+
+  it('parses dotted cross-task subtask dependencies', () => {
+    const result = TaskMasterTaskSchema.parse({
+      ...validTask,
+      id: 4,
+      subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending', dependencies: ['3.2', '3.10'] }],
+    });
+    expect(result.subtasks![0].dependencies).toEqual([
+      { taskId: 3, subtaskId: 2 },
+      { taskId: 3, subtaskId: 10 },
+    ]);
+  });
+
+  it('rejects numeric dotted dependencies, which JSON may have truncated', () => {
+    // 3.10 in the file arrives as 3.1
+    const result = TaskMasterTaskSchema.safeParse({
+      ...validTask,
+      subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending', dependencies: [3.1] }],
+    });
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({
+        path: ['subtasks', 0, 'dependencies', 0],
+        message: expect.stringContaining('write it as a string such as "3.1"'),
+      }),
+    ]);
+  });
+
+  it('rejects malformed subtask dependencies', () => {
+    const result = TaskMasterTaskSchema.safeParse({
+      ...validTask,
+      subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending', dependencies: ['3.x'] }],
+    });
+    expect(result.success).toBe(false);
+  });
+
   it('rejects invalid status', () => {
     const result = TaskMasterTaskSchema.safeParse({ ...validTask, status: 'invalid' });
     expect(result.success).toBe(false);
@@ -116,6 +164,73 @@ describe('parseTasksJson', () => {
   });
 });
 
+describe('multi-tag files', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-tags-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true });
+  });
+
+  async function writeTagged(name: string, tags: Record<string, unknown[]>): Promise<string> {
+    const file = path.join(tmpDir, name);
+    const content = Object.fromEntries(
+      Object.entries(tags).map(([tag, tasks]) => [tag, { tasks, metadata: {} }]),
+    );
+    await fs.writeFile(file, JSON.stringify(content));
+    return file;
+  }
+
+  it('lists tags in file order', () => {
+    expect(listTags({ v2: { tasks: [] }, master: { tasks: [] } })).toEqual(['v2', 'master']);
+    expect(listTags({ tasks: [] })).toEqual([]);
+  });
+
+  it('defaults to master when several tags exist', async () => {
+    const file = await writeTagged('default.json', {
+      'feature-x': [{ ...validTask, title: 'Feature' }],
+      master: [validTask],
+    });
+    const project = await parseTasksJson(file);
+    expect(project.tag).toBe('master');
+    expect(project.tasks[0].title).toBe('Test task');
+  });
+
+  it('selects a tag by name', async () => {
+    const file = await writeTagged('select.json', {
+      master: [validTask],
+      'feature-x': [{ ...validTask, title: 'Feature' }],
+    });
+    const project = await parseTasksJson(file, 'feature-x');
+    expect(project.tag).toBe('feature-x');
+    expect(project.tasks[0].title).toBe('Feature');
+  });
+
+  it('returns every tag with allTags', async () => {
+    const file = await writeTagged('all.json', { master: [validTask], v2: [validTask] });
+    const projects = await parseTaggedProjects(file, { allTags: true });
+    expect(projects.map((p) => p.tag)).toEqual(['master', 'v2']);
+  });
+
+  it('requires a choice when there is no master tag', async () => {
+    const file = await writeTagged('ambiguous.json', { a: [validTask], b: [validTask] });
+    await expect(parseTasksJson(file)).rejects.toThrow('--tag <name>');
+  });
+
+  it('throws for an unknown tag', async () => {
+    const file = await writeTagged('unknown.json', { master: [validTask] });
+    await expect(parseTasksJson(file, 'nope')).rejects.toThrow('available: master');
+  });
+
+  it('prefixes validation errors with the tag', async () => {
+    const file = await writeTagged('invalid.json', { master: [validTask], v2: [{ id: 1 }] });
+    await expect(parseTaggedProjects(file, { allTags: true })).rejects.toThrow('v2.tasks.0.title');
+  });
+});
+
 describe('validateDependencyIds', () => {
   it('passes with no dependencies', () => {
     const tasks = [
@@ -143,6 +258,34 @@ describe('validateDependencyIds', () => {
   });
 });
 
+describe('validateDependencyIds for subtasks', () => {
+  const withSubtasks = (id: number, deps: unknown[] = []) => ({
+    ...validTask,
+    id,
+    subtasks: [
+      { id: 1, title: 'S1', description: 'D', status: 'pending', dependencies: deps },
+      { id: 2, title: 'S2', description: 'D', status: 'pending' },
+    ],
+  });
+
+  it('passes when cross-task references resolve', () => {
+    const tasks = [withSubtasks(1), withSubtasks(2, [{ taskId: 1, subtaskId: 2 }, { taskId: 1 }])] as any;
+    expect(validateDependencyIds(tasks).valid).toBe(true);
+  });
+
+  it('reports references to missing subtasks', () => {
+    const tasks = [withSubtasks(1), withSubtasks(2, [{ taskId: 1, subtaskId: 9 }])] as any;
+    const result = validateDependencyIds(tasks);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toBe('Subtask 2.1 depends on non-existent subtask 1.9');
+  });
+
+  it('reports references to missing tasks', () => {
+    const tasks = [withSubtasks(1, [{ taskId: 7 }])] as any;
+    expect(validateDependencyIds(tasks).errors[0]).toContain('non-existent task 7');
+  });
+});
+
 describe('validateCircularDependencies', () => {
   it('passes with no dependencies', () => {
     const tasks = [
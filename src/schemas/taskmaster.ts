@@ -1,19 +1,75 @@
 import { z } from 'zod';
 import fs from 'fs/promises';
+import { Tm2bdError } from '../errors.js';
 
-const TaskMasterStatusSchema = z.enum(['pending', 'in-progress', 'done', 'deferred', 'cancelled', 'blocked']);
-const TaskMasterPrioritySchema = z.enum(['high', 'medium', 'low']);
+export const TaskMasterStatusSchema = z.enum(['pending', 'in-progress', 'done', 'deferred', 'cancelled', 'blocked']);
+export const TaskMasterPrioritySchema = z.enum(['high', 'medium', 'low']);
+
+const DOTTED_REF = /^(\d+)\.(\d+)$/;
+
+/**
+ * A subtask dependency: subtask `subtaskId` of task `taskId`, or the task
+ * itself when `subtaskId` is omitted. Accepts task-master's dotted "3.2"
+ * form; bare sibling IDs are resolved against the parent in TaskMasterTaskSchema.
+ */
+export const SubtaskDependencySchema = z.union([
+  z.object({
+    taskId: z.coerce.number(),
+    subtaskId: z.coerce.number().optional(),
+  }),
+  z.string().regex(DOTTED_REF, 'Expected a "taskId.subtaskId" reference').transform((ref) => {
+    const [, taskId, subtaskId] = DOTTED_REF.exec(ref)!;
+    return { taskId: Number(taskId), subtaskId: Number(subtaskId) };
+  }),
+]);
 
 export const TaskMasterSubtaskSchema = z.object({
   id: z.coerce.number(),
   title: z.string(),
   description: z.string(),
   status: TaskMasterStatusSchema,
-  dependencies: z.array(z.coerce.number()).optional(),
+  dependencies: z.array(SubtaskDependencySchema).optional(),
   details: z.string().optional(),
+  testStrategy: z.string().optional(),
 });
 
-export const TaskMasterTaskSchema = z.object({
+/**
+ * Rewrite bare subtask dependency IDs (`2`, `"2"`) into references to a
+ * sibling subtask, which needs the parent task's ID. A non-integer number
+ * is rejected: JSON reads `3.10` as 3.1, so which subtask it meant is lost.
+ */
+function resolveSiblingDependencies(raw: unknown, ctx: z.RefinementCtx): unknown {
+  if (typeof raw !== 'object' || raw === null) return raw;
+  const task = raw as Record<string, unknown>;
+  if (!Array.isArray(task.subtasks)) return raw;
+
+  const subtasks = task.subtasks.map((subtask: unknown, i: number) => {
+    if (typeof subtask !== 'object' || subtask === null) return subtask;
+    const deps = (subtask as Record<string, unknown>).dependencies;
+    if (!Array.isArray(deps)) return subtask;
+    return {
+      ...subtask,
+      dependencies: deps.map((dep: unknown, j: number) => {
+        if (typeof dep === 'number' && !Number.isInteger(dep)) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Ambiguous dependency ${dep}; write it as a string such as "${dep}" or "${dep}0"`,
+            path: ['subtasks', i, 'dependencies', j],
+            input: dep,
+          });
+          return dep;
+        }
+        if (typeof dep === 'number' || (typeof dep === 'string' && /^\d+$/.test(dep))) {
+          return { taskId: task.id, subtaskId: dep };
+        }
+        return dep;
+      }),
+    };
+  });
+  return { ...task, subtasks };
+}
+
+export const TaskMasterTaskSchema = z.preprocess(resolveSiblingDependencies, z.object({
   id: z.coerce.number(),
   title: z.string(),
   description: z.string(),
@@ -24,59 +80,141 @@ export const TaskMasterTaskSchema = z.object({
   subtasks: z.array(TaskMasterSubtaskSchema).optional(),
   details: z.string().optional(),
   testStrategy: z.string().optional(),
-});
+}));
 
 export const TaskMasterProjectSchema = z.object({
   tasks: z.array(TaskMasterTaskSchema),
 });
 
+export type TaskMasterStatus = z.infer<typeof TaskMasterStatusSchema>;
+export type TaskMasterPriority = z.infer<typeof TaskMasterPrioritySchema>;
+export type SubtaskDependency = z.infer<typeof SubtaskDependencySchema>;
 export type TaskMasterSubtask = z.infer<typeof TaskMasterSubtaskSchema>;
 export type TaskMasterTask = z.infer<typeof TaskMasterTaskSchema>;
 export type TaskMasterProject = z.infer<typeof TaskMasterProjectSchema>;
 
-/**
- * Parse and validate a tasks.json file.
- * Handles both raw { tasks: [...] } and tag-wrapped { "tag": { tasks: [...] } } formats.
- */
-export async function parseTasksJson(filePath: string): Promise<TaskMasterProject> {
+export interface TaggedProject extends TaskMasterProject {
+  /** Tag the tasks came from; undefined for files without a tag wrapper. */
+  tag?: string;
+}
+
+export interface TagSelection {
+  tag?: string;
+  allTags?: boolean;
+}
+
+const DEFAULT_TAG = 'master';
+
+export async function readTasksFile(filePath: string): Promise<unknown> {
   let content: string;
   try {
     content = await fs.readFile(filePath, 'utf-8');
   } catch (err) {
     if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-      throw new Error(`tasks.json not found: ${filePath}`);
+      throw new Tm2bdError(`tasks.json not found: ${filePath}`, 'validation');
     }
-    throw new Error(`Failed to read tasks.json: ${(err as Error).message}`);
+    throw new Tm2bdError(`Failed to read tasks.json: ${(err as Error).message}`, 'validation');
   }
 
-  let raw: unknown;
   try {
-    raw = JSON.parse(content);
+    return JSON.parse(content);
   } catch {
-    throw new Error(`Invalid JSON in ${filePath}`);
+    throw new Tm2bdError(`Invalid JSON in ${filePath}`, 'validation');
+  }
+}
+
+/**
+ * Parse and validate a tasks.json file.
+ * Handles both raw { tasks: [...] } and tag-wrapped { "tag": { tasks: [...] } } formats.
+ * Files with several tags need a `tag`, or fall back to "master" when present.
+ */
+export async function parseTasksJson(filePath: string, tag?: string): Promise<TaggedProject> {
+  const [project] = await parseTaggedProjects(filePath, { tag });
+  return project;
+}
+
+/**
+ * Parse and validate the tags of a tasks.json file picked by `selection`,
+ * one project per tag in file order.
+ */
+export async function parseTaggedProjects(
+  filePath: string,
+  selection: TagSelection = {},
+): Promise<TaggedProject[]> {
+  const raw = await readTasksFile(filePath);
+  const tags = selectTags(raw, filePath, selection);
+
+  return tags.map((tag) => {
+    const result = TaskMasterProjectSchema.safeParse(unwrapTaggedFormat(raw, tag));
+    if (!result.success) {
+      const prefix = tag === undefined ? [] : [tag];
+      const issues = result.error.issues
+        .map((i) => `  ${[...prefix, ...i.path].join('.')}: ${i.message}`)
+        .join('\n');
+      throw new Tm2bdError(`Validation errors in ${filePath}:\n${issues}`, 'validation');
+    }
+    return { ...result.data, tag };
+  });
+}
+
+/**
+ * List the tags of a tag-wrapped tasks.json, in file order.
+ * Returns an empty list for raw { tasks: [...] } files.
+ */
+export function listTags(raw: unknown): string[] {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw) || 'tasks' in raw) {
+    return [];
   }
+  return Object.entries(raw as Record<string, unknown>)
+    .filter(([, inner]) => typeof inner === 'object' && inner !== null && 'tasks' in inner)
+    .map(([key]) => key);
+}
 
-  // Handle tag-wrapped format: { "master": { "tasks": [...] } }
-  const unwrapped = unwrapTaggedFormat(raw);
+export function selectTags(
+  raw: unknown,
+  filePath: string,
+  selection: TagSelection,
+): (string | undefined)[] {
+  const tags = listTags(raw);
+  if (tags.length === 0) {
+    if (selection.tag !== undefined) {
+      throw new Tm2bdError(`Tag "${selection.tag}" not found: ${filePath} is not tag-wrapped`, 'validation');
+    }
+    return [undefined];
+  }
 
-  const result = TaskMasterProjectSchema.safeParse(unwrapped);
-  if (!result.success) {
-    const issues = result.error.issues
-      .map((i) => `  ${i.path.join('.')}: ${i.message}`)
-      .join('\n');
-    throw new Error(`Validation errors in ${filePath}:\n${issues}`);
+  if (selection.tag !== undefined) {
+    if (!tags.includes(selection.tag)) {
+      throw new Tm2bdError(
+        `Tag "${selection.tag}" not found in ${filePath} (available: ${tags.join(', ')})`,
+        'validation',
+      );
+    }
+    return [selection.tag];
   }
 
-  return result.data;
+  if (selection.allTags || tags.length === 1) return tags;
+  if (tags.includes(DEFAULT_TAG)) return [DEFAULT_TAG];
+
+  throw new Tm2bdError(
+    `${filePath} contains multiple tags (${tags.join(', ')}); choose one with --tag <name> or use --all-tags`,
+    'validation',
+  );
 }
 
-function unwrapTaggedFormat(raw: unknown): unknown {
+/**
+ * Return the object holding the `tasks` array, either for the given tag or,
+ * when omitted, for a raw file or a file with a single tag. For tag-wrapped
+ * files this is the inner tag object itself, so mutations are reflected in `raw`.
+ */
+export function unwrapTaggedFormat(raw: unknown, tag?: string): unknown {
   if (
     typeof raw === 'object' &&
     raw !== null &&
     !Array.isArray(raw)
   ) {
     const obj = raw as Record<string, unknown>;
+    if (tag !== undefined) return obj[tag];
     // If it has a "tasks" key directly, use as-is
     if ('tasks' in obj) return obj;
     // Otherwise look for a single tag key containing { tasks: [...] }
@@ -96,16 +234,34 @@ export interface ValidationResult {
   errors: string[];
 }
 
+export function formatDependencyRef(ref: SubtaskDependency): string {
+  return ref.subtaskId === undefined ? String(ref.taskId) : `${ref.taskId}.${ref.subtaskId}`;
+}
+
 export function validateDependencyIds(tasks: TaskMasterTask[]): ValidationResult {
-  const validIds = new Set(tasks.map((t) => t.id));
+  const taskMap = new Map(tasks.map((t) => [t.id, t]));
   const errors: string[] = [];
 
   for (const task of tasks) {
     for (const depId of task.dependencies) {
-      if (!validIds.has(depId)) {
+      if (!taskMap.has(depId)) {
         errors.push(`Task ${task.id} depends on non-existent task ${depId}`);
       }
     }
+
+    for (const subtask of task.subtasks ?? []) {
+      for (const ref of subtask.dependencies ?? []) {
+        const target = taskMap.get(ref.taskId);
+        const resolves = ref.subtaskId === undefined
+          ? target !== undefined
+          : target?.subtasks?.some((s) => s.id === ref.subtaskId) ?? false;
+        if (!resolves) {
+          errors.push(
+            `Subtask ${task.id}.${subtask.id} depends on non-existent ${ref.subtaskId === undefined ? 'task' : 'subtask'} ${formatDependencyRef(ref)}`,
+          );
+        }
+      }
+    }
   }
 
   return { valid: errors.length === 0, errors };
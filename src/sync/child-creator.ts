@@ -1,52 +1,33 @@
 import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
-import type { BeadsCli } from '../beads/cli.js';
+import type { BeadsBackend } from '../beads/backend.js';
 import type { IdMapper } from '../mapping/id-mapper.js';
-
-function formatChildDescription(subtask: TaskMasterSubtask): string {
-  const parts = [subtask.description];
-
-  if (subtask.details) {
-    parts.push('', '## Implementation Details', subtask.details);
-  }
-
-  return parts.join('\n');
+import { DEFAULT_MAPPING_RULES } from './mapping-rules.js';
+import { childTemplateContext } from './description-templates.js';
+import { renderTemplate } from '../utils/template.js';
+import type { MappingRules } from './mapping-rules.js';
+
+function formatChildDescription(
+  subtask: TaskMasterSubtask,
+  parent?: TaskMasterTask,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+  tag?: string,
+): string {
+  return renderTemplate(rules.templates.child, childTemplateContext(subtask, parent, tag));
 }
 
-export async function createChildren(
+export async function createChild(
   task: TaskMasterTask,
+  subtask: TaskMasterSubtask,
   epicId: string,
-  cli: BeadsCli,
+  backend: BeadsBackend,
   mapper: IdMapper,
-): Promise<void> {
-  if (!task.subtasks || task.subtasks.length === 0) return;
-
-  const sortedSubtasks = [...task.subtasks].sort((a, b) => a.id - b.id);
-
-  for (const subtask of sortedSubtasks) {
-    const description = formatChildDescription(subtask);
-    const result = await cli.createChild(epicId, subtask.title, description);
-    mapper.addSubtask(task.id, subtask.id, result.id);
-  }
-}
-
-export async function createAllChildren(
-  tasks: TaskMasterTask[],
-  cli: BeadsCli,
-  mapper: IdMapper,
-  onProgress?: (current: number, total: number) => void,
-): Promise<void> {
-  let processed = 0;
-  const totalSubtasks = tasks.reduce((sum, t) => sum + (t.subtasks?.length ?? 0), 0);
-
-  for (const task of tasks) {
-    const epicId = mapper.getEpicId(task.id);
-    if (!epicId) throw new Error(`Epic ID not found for task ${task.id}`);
-
-    await createChildren(task, epicId, cli, mapper);
-
-    processed += task.subtasks?.length ?? 0;
-    onProgress?.(processed, totalSubtasks);
-  }
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+): Promise<string> {
+  const description = formatChildDescription(subtask, task, rules, mapper.getTag());
+  const result = await backend.createChild(epicId, subtask.title, description, rules.issueType);
+  mapper.addSubtask(task.id, subtask.id, result.id);
+  await mapper.checkpoint();
+  return result.id;
 }
 
 export { formatChildDescription };
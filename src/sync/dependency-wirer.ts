@@ -1,61 +1,60 @@
-import type { TaskMasterTask } from '../schemas/taskmaster.js';
-import type { BeadsCli } from '../beads/cli.js';
+import { formatDependencyRef } from '../schemas/taskmaster.js';
+import type { SubtaskDependency, TaggedProject, TaskMasterSubtask, TaskMasterTask } from '../schemas/taskmaster.js';
 import type { IdMapper } from '../mapping/id-mapper.js';
 
-export async function wireEpicDependencies(
-  tasks: TaskMasterTask[],
-  cli: BeadsCli,
-  mapper: IdMapper,
-): Promise<number> {
-  let count = 0;
-  for (const task of tasks) {
-    if (task.dependencies.length === 0) continue;
-
-    const blockedEpicId = mapper.getEpicId(task.id);
-    if (!blockedEpicId) throw new Error(`Epic ID not found for task ${task.id}`);
-
-    for (const depId of task.dependencies) {
-      const blockingEpicId = mapper.getEpicId(depId);
-      if (!blockingEpicId) throw new Error(`Epic ID not found for dependency ${depId}`);
-      await cli.addDependency(blockedEpicId, blockingEpicId);
-      count++;
-    }
-  }
-  return count;
+/** Beads ID of a subtask dependency, which may live under another epic. */
+export function resolveSubtaskDependency(ref: SubtaskDependency, mapper: IdMapper): string {
+  const beadsId = ref.subtaskId === undefined
+    ? mapper.getEpicId(ref.taskId)
+    : mapper.getSubtaskId(ref.taskId, ref.subtaskId);
+  if (!beadsId) throw new Error(`Subtask ID not found for dependency ${formatDependencyRef(ref)}`);
+  return beadsId;
 }
 
-export async function wireSubtaskDependencies(
-  tasks: TaskMasterTask[],
-  cli: BeadsCli,
-  mapper: IdMapper,
-): Promise<number> {
-  let count = 0;
-  for (const task of tasks) {
-    if (!task.subtasks) continue;
+const isSibling = (task: TaskMasterTask, ref: SubtaskDependency) =>
+  ref.taskId === task.id && ref.subtaskId !== undefined;
 
-    for (const subtask of task.subtasks) {
-      if (!subtask.dependencies || subtask.dependencies.length === 0) continue;
-
-      const blockedId = mapper.getSubtaskId(task.id, subtask.id);
-      if (!blockedId) throw new Error(`Subtask ID not found for ${task.id}.${subtask.id}`);
+/** Subtasks waiting on no sibling: where work on the task starts. */
+function entrySubtasks(task: TaskMasterTask): TaskMasterSubtask[] {
+  return (task.subtasks ?? []).filter((s) => !(s.dependencies ?? []).some((ref) => isSibling(task, ref)));
+}
 
-      for (const depId of subtask.dependencies) {
-        const blockingId = mapper.getSubtaskId(task.id, depId);
-        if (!blockingId) throw new Error(`Subtask ID not found for dependency ${task.id}.${depId}`);
-        await cli.addDependency(blockedId, blockingId);
-        count++;
-      }
-    }
-  }
-  return count;
+/** Where work on a task ends: subtasks no sibling waits on, or the task itself. */
+function exitRefs(task: TaskMasterTask): SubtaskDependency[] {
+  const subtasks = task.subtasks ?? [];
+  if (subtasks.length === 0) return [{ taskId: task.id }];
+  const waitedOn = new Set(
+    subtasks.flatMap((s) => (s.dependencies ?? []).filter((ref) => isSibling(task, ref)).map((ref) => ref.subtaskId)),
+  );
+  return subtasks.filter((s) => !waitedOn.has(s.id)).map((s) => ({ taskId: task.id, subtaskId: s.id }));
 }
 
-export async function wireAllDependencies(
-  tasks: TaskMasterTask[],
-  cli: BeadsCli,
-  mapper: IdMapper,
-): Promise<{ epicDeps: number; subtaskDeps: number }> {
-  const epicDeps = await wireEpicDependencies(tasks, cli, mapper);
-  const subtaskDeps = await wireSubtaskDependencies(tasks, cli, mapper);
-  return { epicDeps, subtaskDeps };
+/**
+ * Push task-level dependencies down to subtasks, so `bd ready` holds back
+ * children as well as epics: the entry subtasks of a dependent task come
+ * to depend on the exit subtasks of each prerequisite, or on the
+ * prerequisite itself when it has none. A dependent without subtasks keeps
+ * only its epic-to-epic edge, which already blocks it until the
+ * prerequisite is closed.
+ */
+export function propagateLeafDependencies(project: TaggedProject): TaggedProject {
+  const byId = new Map(project.tasks.map((task) => [task.id, task]));
+  const tasks = project.tasks.map((task) => {
+    if (!task.subtasks || task.dependencies.length === 0) return task;
+    const exits = task.dependencies.flatMap((depId) => exitRefs(byId.get(depId)!));
+    const entries = new Set(entrySubtasks(task));
+    return {
+      ...task,
+      subtasks: task.subtasks.map((subtask) => {
+        if (!entries.has(subtask)) return subtask;
+        const current = subtask.dependencies ?? [];
+        const listed = new Set(current.map(formatDependencyRef));
+        return {
+          ...subtask,
+          dependencies: [...current, ...exits.filter((ref) => !listed.has(formatDependencyRef(ref)))],
+        };
+      }),
+    };
+  });
+  return { ...project, tasks };
 }
@@ -0,0 +1,123 @@
+import type { TaskMasterSubtask, TaskMasterTask } from '../schemas/taskmaster.js';
+import { formatDependencyRef } from '../schemas/taskmaster.js';
+import { parseTemplate } from '../utils/template.js';
+
+export interface DescriptionTemplates {
+  epic: string;
+  child: string;
+}
+
+export type TemplateKind = keyof DescriptionTemplates;
+
+export const DEFAULT_EPIC_TEMPLATE = `## Description
+{{description}}
+
+{{#details}}
+## Implementation Details
+{{details}}
+
+{{/details}}
+{{#testStrategy}}
+## Test Strategy
+{{testStrategy}}
+
+{{/testStrategy}}
+## Metadata
+- Task-Master ID: {{id}}
+{{#complexity}}
+- Complexity: {{complexity}}/10
+{{/complexity}}
+- Original Status: {{status}}`;
+
+export const DEFAULT_CHILD_TEMPLATE =
+  '{{description}}{{#details}}\n\n## Implementation Details\n{{details}}{{/details}}';
+
+export const DEFAULT_DESCRIPTION_TEMPLATES: DescriptionTemplates = {
+  epic: DEFAULT_EPIC_TEMPLATE,
+  child: DEFAULT_CHILD_TEMPLATE,
+};
+
+const TASK_FIELDS = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'complexity',
+  'details',
+  'testStrategy',
+  'dependencies',
+  'subtaskCount',
+  'tag',
+];
+
+const SUBTASK_FIELDS = [
+  'id',
+  'ref',
+  'title',
+  'description',
+  'status',
+  'details',
+  'testStrategy',
+  'dependencies',
+  'tag',
+];
+
+/** Names each kind of template may use; child templates also see `parent.*`. */
+export const TEMPLATE_FIELDS: Record<TemplateKind, string[]> = {
+  epic: TASK_FIELDS,
+  child: [...SUBTASK_FIELDS, ...TASK_FIELDS.map((field) => `parent.${field}`)],
+};
+
+export function epicTemplateContext(
+  task: TaskMasterTask,
+  tag?: string,
+): Record<string, unknown> {
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    complexity: task.complexity,
+    details: task.details,
+    testStrategy: task.testStrategy,
+    dependencies: task.dependencies,
+    subtaskCount: task.subtasks?.length ?? 0,
+    tag,
+  };
+}
+
+export function childTemplateContext(
+  subtask: TaskMasterSubtask,
+  parent?: TaskMasterTask,
+  tag?: string,
+): Record<string, unknown> {
+  return {
+    id: subtask.id,
+    ref: parent ? `${parent.id}.${subtask.id}` : String(subtask.id),
+    title: subtask.title,
+    description: subtask.description,
+    status: subtask.status,
+    details: subtask.details,
+    testStrategy: subtask.testStrategy,
+    dependencies: (subtask.dependencies ?? []).map(formatDependencyRef),
+    tag,
+    parent: parent ? epicTemplateContext(parent, tag) : undefined,
+  };
+}
+
+/**
+ * Parse a template and check it only uses names its kind provides, so a
+ * typo fails the run instead of silently rendering nothing.
+ */
+export function validateDescriptionTemplate(source: string, kind: TemplateKind): void {
+  const { names } = parseTemplate(source);
+  const unknown = names.filter((name) => !TEMPLATE_FIELDS[kind].includes(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown placeholder(s) ${unknown.map((n) => `{{${n}}}`).join(', ')}; ` +
+        `available: ${TEMPLATE_FIELDS[kind].join(', ')}`,
+    );
+  }
+}
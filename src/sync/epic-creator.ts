@@ -1,55 +1,48 @@
-import type { TaskMasterTask } from '../schemas/taskmaster.js';
-import type { BeadsCli } from '../beads/cli.js';
+import type { TaskMasterPriority, TaskMasterTask } from '../schemas/taskmaster.js';
+import type { BeadsBackend } from '../beads/backend.js';
 import type { IdMapper } from '../mapping/id-mapper.js';
-
-function mapPriority(tmPriority: 'high' | 'medium' | 'low'): number {
-  const priorityMap = { high: 0, medium: 1, low: 2 };
-  return priorityMap[tmPriority];
-}
-
-function formatEpicDescription(task: TaskMasterTask): string {
-  const parts = ['## Description', task.description, ''];
-
-  if (task.details) {
-    parts.push('## Implementation Details', task.details, '');
-  }
-
-  if (task.testStrategy) {
-    parts.push('## Test Strategy', task.testStrategy, '');
-  }
-
-  parts.push('## Metadata');
-  parts.push(`- Task-Master ID: ${task.id}`);
-  if (task.complexity) {
-    parts.push(`- Complexity: ${task.complexity}/10`);
+import { DEFAULT_MAPPING_RULES } from './mapping-rules.js';
+import { epicTemplateContext } from './description-templates.js';
+import { renderTemplate } from '../utils/template.js';
+import type { MappingRules } from './mapping-rules.js';
+
+function mapPriority(
+  tmPriority: TaskMasterPriority,
+  complexity?: number,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+  onCriticalPath = false,
+): number {
+  let priority = rules.priorityMap[tmPriority];
+  const bump = rules.complexityBump;
+  if (bump && complexity !== undefined && complexity >= bump.atLeast) {
+    priority -= bump.by;
   }
-  parts.push(`- Original Status: ${task.status}`);
+  if (onCriticalPath && rules.raiseCriticalPath) priority--;
+  return Math.max(0, priority);
+}
 
-  return parts.join('\n');
+function formatEpicDescription(
+  task: TaskMasterTask,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+  tag?: string,
+): string {
+  return renderTemplate(rules.templates.epic, epicTemplateContext(task, tag));
 }
 
 export async function createEpic(
   task: TaskMasterTask,
-  cli: BeadsCli,
+  backend: BeadsBackend,
   mapper: IdMapper,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+  onCriticalPath = false,
 ): Promise<string> {
-  const description = formatEpicDescription(task);
-  const priority = mapPriority(task.priority);
-  const result = await cli.createEpic(task.title, description, priority);
+  const description = formatEpicDescription(task, rules, mapper.getTag());
+  const priority = mapPriority(task.priority, task.complexity, rules, onCriticalPath);
+  // Nest under the tag's umbrella epic when tags are represented as epics
+  const result = await backend.createEpic(task.title, description, priority, mapper.getTagEpicId());
   mapper.addEpic(task.id, result.id);
+  await mapper.checkpoint();
   return result.id;
 }
 
-export async function createEpics(
-  tasks: TaskMasterTask[],
-  cli: BeadsCli,
-  mapper: IdMapper,
-  onProgress?: (current: number, total: number) => void,
-): Promise<void> {
-  for (let i = 0; i < tasks.length; i++) {
-    await createEpic(tasks[i], cli, mapper);
-    onProgress?.(i + 1, tasks.length);
-  }
-}
-
 export { formatEpicDescription, mapPriority };
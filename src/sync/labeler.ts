@@ -0,0 +1,112 @@
+import type { TaskMasterSubtask, TaskMasterTask } from '../schemas/taskmaster.js';
+import type { BeadsBackend } from '../beads/backend.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { mapStatus } from './status-syncer.js';
+import { DEFAULT_MAPPING_RULES } from './mapping-rules.js';
+import type { MappingRules } from './mapping-rules.js';
+
+export const PROVENANCE_LABEL = 'tm2bd';
+
+/** Labels whose value follows a task-master field and can go stale. */
+const TRACKED_PREFIXES = ['tm-status:', 'complexity:'];
+
+export interface LabelReconcileCounts {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+function tagLabel(tag: string): string {
+  return `tm-tag:${tag}`;
+}
+
+function statusLabel(tmStatus: string): string {
+  return `tm-status:${tmStatus}`;
+}
+
+function complexityLabel(complexity: number): string {
+  return `complexity:${complexity}`;
+}
+
+/** The labels `rules` put on the issue for a task or subtask. */
+export function issueLabels(
+  item: TaskMasterTask | TaskMasterSubtask,
+  tag: string | undefined,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+): string[] {
+  const labels: string[] = [];
+  if (rules.labels.provenance) {
+    labels.push(PROVENANCE_LABEL);
+  }
+  if (rules.labels.status && mapStatus(item.status, rules).close) {
+    labels.push(statusLabel(item.status));
+  }
+  if (rules.labels.complexity && 'complexity' in item && item.complexity !== undefined) {
+    labels.push(complexityLabel(item.complexity));
+  }
+  if (rules.labels.tag && tag !== undefined) {
+    labels.push(tagLabel(tag));
+  }
+  return labels;
+}
+
+async function reconcileIssueLabels(
+  issueId: string,
+  desired: string[],
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  counts: LabelReconcileCounts,
+): Promise<void> {
+  for (const label of desired) {
+    if (mapper.hasLabel(issueId, label)) {
+      counts.unchanged++;
+      continue;
+    }
+    await backend.addLabel(issueId, label);
+    mapper.recordLabel(issueId, label);
+    await mapper.checkpoint();
+    counts.added++;
+  }
+
+  // Only labels tm2bd put there itself are taken off again
+  for (const label of mapper.getLabels(issueId)) {
+    const tracked = TRACKED_PREFIXES.some((prefix) => label.startsWith(prefix));
+    if (tracked && !desired.includes(label)) {
+      await backend.removeLabel(issueId, label);
+      mapper.forgetLabel(issueId, label);
+      await mapper.checkpoint();
+      counts.removed++;
+    }
+  }
+}
+
+/**
+ * Add the labels `rules` call for to every mapped task and subtask, and
+ * remove status and complexity labels that no longer apply. Labels
+ * already in the mapper's journal are not re-sent.
+ */
+export async function reconcileLabels(
+  tasks: TaskMasterTask[],
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+): Promise<LabelReconcileCounts> {
+  const counts: LabelReconcileCounts = { added: 0, removed: 0, unchanged: 0 };
+  const tag = mapper.getTag();
+
+  for (const task of tasks) {
+    const epicId = mapper.getEpicId(task.id);
+    if (!epicId) throw new Error(`Epic ID not found for task ${task.id}`);
+    await reconcileIssueLabels(epicId, issueLabels(task, tag, rules), backend, mapper, counts);
+
+    for (const subtask of task.subtasks ?? []) {
+      const subtaskId = mapper.getSubtaskId(task.id, subtask.id);
+      if (!subtaskId) throw new Error(`Subtask ID not found for ${task.id}.${subtask.id}`);
+      await reconcileIssueLabels(subtaskId, issueLabels(subtask, tag, rules), backend, mapper, counts);
+    }
+  }
+
+  return counts;
+}
+
+export { tagLabel, statusLabel, complexityLabel };
@@ -0,0 +1,59 @@
+import type { TaskMasterPriority, TaskMasterStatus } from '../schemas/taskmaster.js';
+import { DEFAULT_DESCRIPTION_TEMPLATES } from './description-templates.js';
+import type { DescriptionTemplates } from './description-templates.js';
+
+export type BeadsStatus = 'open' | 'in_progress' | 'blocked' | 'deferred' | 'closed';
+
+export const BEADS_STATUSES: BeadsStatus[] = ['open', 'in_progress', 'blocked', 'deferred', 'closed'];
+
+/** Beads issue type used for subtasks; task epics are always `epic`. */
+export type ChildIssueType = 'task' | 'feature' | 'bug' | 'chore';
+
+export const CHILD_ISSUE_TYPES: ChildIssueType[] = ['task', 'feature', 'bug', 'chore'];
+
+/** Raise the priority of complex tasks: `by` levels from `atLeast` up. */
+export interface ComplexityBump {
+  atLeast: number;
+  by: number;
+}
+
+/** Which labels sync puts on the issues it manages. */
+export interface LabelRules {
+  /** `tm2bd` on every imported issue. */
+  provenance: boolean;
+  /** `tm-status:<status>` on closed issues, e.g. to tell done from cancelled. */
+  status: boolean;
+  /** `complexity:<n>` on epics of tasks with a complexity score. */
+  complexity: boolean;
+  /** `tm-tag:<tag>` on every issue of a task-master tag. */
+  tag: boolean;
+}
+
+/** How task-master fields translate to Beads fields. */
+export interface MappingRules {
+  statusMap: Record<TaskMasterStatus, BeadsStatus>;
+  priorityMap: Record<TaskMasterPriority, number>;
+  complexityBump?: ComplexityBump;
+  /** Raise epics on the remaining critical path one priority level. */
+  raiseCriticalPath?: boolean;
+  /** Also block a dependent task's subtasks on its prerequisites' subtasks. */
+  leafDependencies?: boolean;
+  issueType: ChildIssueType;
+  labels: LabelRules;
+  templates: DescriptionTemplates;
+}
+
+export const DEFAULT_MAPPING_RULES: MappingRules = {
+  statusMap: {
+    pending: 'open',
+    'in-progress': 'in_progress',
+    done: 'closed',
+    deferred: 'deferred',
+    cancelled: 'closed',
+    blocked: 'blocked',
+  },
+  priorityMap: { high: 0, medium: 1, low: 2 },
+  issueType: 'task',
+  labels: { provenance: true, status: true, complexity: true, tag: true },
+  templates: DEFAULT_DESCRIPTION_TEMPLATES,
+};
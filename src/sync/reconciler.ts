@@ -0,0 +1,289 @@
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import type { BeadsBackend, BeadsIssue, BeadsIssueUpdate } from '../beads/backend.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { createEpic, formatEpicDescription, mapPriority } from './epic-creator.js';
+import { createChild, formatChildDescription } from './child-creator.js';
+import { mapStatus } from './status-syncer.js';
+import { resolveSubtaskDependency } from './dependency-wirer.js';
+import { reconcileLabels } from './labeler.js';
+import type { LabelReconcileCounts } from './labeler.js';
+import { DEFAULT_MAPPING_RULES } from './mapping-rules.js';
+import type { MappingRules } from './mapping-rules.js';
+
+export interface ReconcileCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+export interface DependencyReconcileCounts {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface StatusReconcileCounts {
+  updated: number;
+  unchanged: number;
+}
+
+export interface ReconcileSummary {
+  epics: ReconcileCounts;
+  children: ReconcileCounts;
+  dependencies: DependencyReconcileCounts;
+  statuses: StatusReconcileCounts;
+  labels: LabelReconcileCounts;
+}
+
+/**
+ * Beads state of already-mapped issues, fetched once per run.
+ * Issues created during the run are absent and treated as fresh.
+ */
+export type IssueCache = Map<string, BeadsIssue>;
+
+function diffIssue(issue: BeadsIssue, desired: BeadsIssueUpdate): BeadsIssueUpdate {
+  const changes: BeadsIssueUpdate = {};
+  if (desired.title !== undefined && issue.title !== desired.title) {
+    changes.title = desired.title;
+  }
+  if (desired.description !== undefined && issue.description !== desired.description) {
+    changes.description = desired.description;
+  }
+  if (desired.priority !== undefined && issue.priority !== desired.priority) {
+    changes.priority = desired.priority;
+  }
+  return changes;
+}
+
+export async function reconcileEpics(
+  tasks: TaskMasterTask[],
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  cache: IssueCache,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+  critical: ReadonlySet<number> = new Set(),
+): Promise<ReconcileCounts> {
+  const counts: ReconcileCounts = { created: 0, updated: 0, unchanged: 0 };
+
+  for (const task of tasks) {
+    const epicId = mapper.getEpicId(task.id);
+    if (!epicId) {
+      await createEpic(task, backend, mapper, rules, critical.has(task.id));
+      counts.created++;
+      continue;
+    }
+
+    const issue = await backend.show(epicId);
+    cache.set(epicId, issue);
+
+    const changes = diffIssue(issue, {
+      title: task.title,
+      description: formatEpicDescription(task, rules, mapper.getTag()),
+      priority: mapPriority(task.priority, task.complexity, rules, critical.has(task.id)),
+    });
+    if (Object.keys(changes).length > 0) {
+      await backend.updateIssue(epicId, changes);
+      counts.updated++;
+    } else {
+      counts.unchanged++;
+    }
+  }
+
+  return counts;
+}
+
+export async function reconcileChildren(
+  tasks: TaskMasterTask[],
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  cache: IssueCache,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+): Promise<ReconcileCounts> {
+  const counts: ReconcileCounts = { created: 0, updated: 0, unchanged: 0 };
+
+  for (const task of tasks) {
+    if (!task.subtasks || task.subtasks.length === 0) continue;
+
+    const epicId = mapper.getEpicId(task.id);
+    if (!epicId) throw new Error(`Epic ID not found for task ${task.id}`);
+
+    const sortedSubtasks = [...task.subtasks].sort((a, b) => a.id - b.id);
+    for (const subtask of sortedSubtasks) {
+      const childId = mapper.getSubtaskId(task.id, subtask.id);
+      if (!childId) {
+        await createChild(task, subtask, epicId, backend, mapper, rules);
+        counts.created++;
+        continue;
+      }
+
+      const issue = await backend.show(childId);
+      cache.set(childId, issue);
+
+      const changes = diffIssue(issue, {
+        title: subtask.title,
+        description: formatChildDescription(subtask, task, rules, mapper.getTag()),
+      });
+      if (Object.keys(changes).length > 0) {
+        await backend.updateIssue(childId, changes);
+        counts.updated++;
+      } else {
+        counts.unchanged++;
+      }
+    }
+  }
+
+  return counts;
+}
+
+async function reconcileEdges(
+  blockedId: string,
+  desired: string[],
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  cache: IssueCache,
+  counts: DependencyReconcileCounts,
+  selected?: ReadonlySet<number>,
+): Promise<void> {
+  // Only edges between tm2bd-managed issues are ours to remove; anything
+  // else was added by hand in Beads and is left alone.
+  const current = new Set(
+    (cache.get(blockedId)?.dependencies ?? []).filter((id) => mapper.hasBeadsId(id)),
+  );
+  // A filtered run never saw the other tasks, nor the edges it dropped to them
+  const inSelection = (blockingId: string) => {
+    if (!selected) return true;
+    const issue = mapper.findIssue(blockingId);
+    return issue?.taskId !== undefined && issue.tag === mapper.getTag() && selected.has(issue.taskId);
+  };
+  const wanted = new Set(desired);
+
+  for (const blockingId of wanted) {
+    if (current.has(blockingId)) {
+      counts.unchanged++;
+    } else {
+      await backend.addDependency(blockedId, blockingId);
+      counts.added++;
+    }
+    mapper.recordDependency(blockedId, blockingId);
+  }
+
+  for (const blockingId of current) {
+    if (!wanted.has(blockingId) && inSelection(blockingId)) {
+      await backend.removeDependency(blockedId, blockingId);
+      mapper.forgetDependency(blockedId, blockingId);
+      counts.removed++;
+    }
+  }
+}
+
+export async function reconcileDependencies(
+  tasks: TaskMasterTask[],
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  cache: IssueCache,
+  selected?: ReadonlySet<number>,
+): Promise<DependencyReconcileCounts> {
+  const counts: DependencyReconcileCounts = { added: 0, removed: 0, unchanged: 0 };
+
+  for (const task of tasks) {
+    const blockedEpicId = mapper.getEpicId(task.id);
+    if (!blockedEpicId) throw new Error(`Epic ID not found for task ${task.id}`);
+
+    const desiredEpicDeps = task.dependencies.map((depId) => {
+      const blockingEpicId = mapper.getEpicId(depId);
+      if (!blockingEpicId) throw new Error(`Epic ID not found for dependency ${depId}`);
+      return blockingEpicId;
+    });
+    await reconcileEdges(blockedEpicId, desiredEpicDeps, backend, mapper, cache, counts, selected);
+
+    for (const subtask of task.subtasks ?? []) {
+      const blockedId = mapper.getSubtaskId(task.id, subtask.id);
+      if (!blockedId) throw new Error(`Subtask ID not found for ${task.id}.${subtask.id}`);
+
+      const desiredSubtaskDeps = (subtask.dependencies ?? []).map((ref) =>
+        resolveSubtaskDependency(ref, mapper),
+      );
+      await reconcileEdges(blockedId, desiredSubtaskDeps, backend, mapper, cache, counts, selected);
+    }
+  }
+
+  return counts;
+}
+
+async function reconcileStatus(
+  issueId: string,
+  tmStatus: string,
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  cache: IssueCache,
+  counts: StatusReconcileCounts,
+  rules: MappingRules,
+): Promise<void> {
+  const current = cache.get(issueId)?.status ?? 'open';
+  const { status, close } = mapStatus(tmStatus, rules);
+
+  // A task-master status with no Beads equivalent (pending) never overrides
+  // progress made directly in Beads.
+  if (close && current !== 'closed') {
+    await backend.close(issueId);
+    mapper.recordStatus(issueId, 'closed');
+    counts.updated++;
+  } else if (!close && status && current !== status) {
+    await backend.updateStatus(issueId, status);
+    mapper.recordStatus(issueId, status);
+    counts.updated++;
+  } else {
+    counts.unchanged++;
+  }
+}
+
+export async function reconcileStatuses(
+  tasks: TaskMasterTask[],
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  cache: IssueCache,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+): Promise<StatusReconcileCounts> {
+  const counts: StatusReconcileCounts = { updated: 0, unchanged: 0 };
+
+  for (const task of tasks) {
+    const epicId = mapper.getEpicId(task.id);
+    if (!epicId) throw new Error(`Epic ID not found for task ${task.id}`);
+    await reconcileStatus(epicId, task.status, backend, mapper, cache, counts, rules);
+
+    for (const subtask of task.subtasks ?? []) {
+      const subtaskId = mapper.getSubtaskId(task.id, subtask.id);
+      if (!subtaskId) throw new Error(`Subtask ID not found for ${task.id}.${subtask.id}`);
+      await reconcileStatus(subtaskId, subtask.status, backend, mapper, cache, counts, rules);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Bring an existing import in line with the current tasks.json: create
+ * tasks and subtasks missing from the mapping, update changed titles,
+ * descriptions and priorities, add or remove dependency edges, and
+ * bring statuses and labels up to date.
+ * Tasks must be in topological order. `critical` holds the IDs of tasks
+ * on the remaining critical path, for {@link MappingRules.raiseCriticalPath}.
+ * `selected` holds the task IDs a filtered run selected: only edges onto
+ * those tasks' issues are removed, the rest being unknown to the run.
+ */
+export async function reconcileProject(
+  tasks: TaskMasterTask[],
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+  critical: ReadonlySet<number> = new Set(),
+  selected?: ReadonlySet<number>,
+): Promise<ReconcileSummary> {
+  const cache: IssueCache = new Map();
+  const epics = await reconcileEpics(tasks, backend, mapper, cache, rules, critical);
+  const children = await reconcileChildren(tasks, backend, mapper, cache, rules);
+  const dependencies = await reconcileDependencies(tasks, backend, mapper, cache, selected);
+  const statuses = await reconcileStatuses(tasks, backend, mapper, cache, rules);
+  const labels = await reconcileLabels(tasks, backend, mapper, rules);
+  return { epics, children, dependencies, statuses, labels };
+}
@@ -0,0 +1,105 @@
+import fs from 'fs/promises';
+import { parseTaggedProjects, unwrapTaggedFormat } from '../schemas/taskmaster.js';
+import type { BeadsBackend } from '../beads/backend.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { TaskMasterStatusSchema } from '../schemas/taskmaster.js';
+import type { TaskMasterStatus } from '../schemas/taskmaster.js';
+import { DEFAULT_MAPPING_RULES } from './mapping-rules.js';
+import type { MappingRules } from './mapping-rules.js';
+
+export interface StatusChange {
+  tmId: string;
+  beadsId: string;
+  from: string;
+  to: string;
+}
+
+export interface PullSummary {
+  changes: StatusChange[];
+  unchanged: number;
+  missing: string[];
+}
+
+/**
+ * Inverse of the status map. `current` is kept when Beads cannot tell the
+ * difference, e.g. a closed issue that task-master marked cancelled;
+ * otherwise the first task-master status mapping to `beadsStatus` wins.
+ */
+function unmapStatus(
+  beadsStatus: string,
+  current: string,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+): string {
+  if (rules.statusMap[current as TaskMasterStatus] === beadsStatus) return current;
+  const match = TaskMasterStatusSchema.options.find((s) => rules.statusMap[s] === beadsStatus);
+  return match ?? current;
+}
+
+type RawItem = Record<string, unknown>;
+
+function findById(items: unknown, tmId: number): RawItem | undefined {
+  if (!Array.isArray(items)) return undefined;
+  return items.find((item: RawItem) => Number(item.id) === tmId);
+}
+
+/**
+ * Query every mapped Beads issue and write its status back into tasks.json.
+ * Only `status` fields change; the rest of the file, including the tag
+ * wrapper, is written back as read.
+ */
+export async function pullStatuses(
+  filePath: string,
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  options: { dryRun?: boolean; rules?: MappingRules } = {},
+): Promise<PullSummary> {
+  // Validate up front so we never rewrite a file task-master can't read
+  await parseTaggedProjects(filePath, { allTags: true });
+
+  const content = await fs.readFile(filePath, 'utf-8');
+  const raw = JSON.parse(content);
+
+  const summary: PullSummary = { changes: [], unchanged: 0, missing: [] };
+
+  async function pullOne(item: RawItem, tmId: string, beadsId: string): Promise<void> {
+    const issue = await backend.show(beadsId);
+    const from = item.status as string;
+    const to = unmapStatus(issue.status, from, options.rules);
+    if (to === from) {
+      summary.unchanged++;
+      return;
+    }
+    item.status = to;
+    summary.changes.push({ tmId, beadsId, from, to });
+  }
+
+  for (const taskMapping of mapper.getMappings()) {
+    const project = unwrapTaggedFormat(raw, taskMapping.tag) as { tasks?: unknown } | undefined;
+    const tagPrefix = taskMapping.tag !== undefined ? `${taskMapping.tag}:` : '';
+    const task = findById(project?.tasks, taskMapping.tmId);
+    if (!task) {
+      summary.missing.push(`${tagPrefix}${taskMapping.tmId}`);
+      continue;
+    }
+    await pullOne(task, `${tagPrefix}${taskMapping.tmId}`, taskMapping.beadsId);
+
+    for (const subtaskMapping of taskMapping.subtasks) {
+      const tmId = `${tagPrefix}${taskMapping.tmId}.${subtaskMapping.tmId}`;
+      const subtask = findById(task.subtasks, subtaskMapping.tmId);
+      if (!subtask) {
+        summary.missing.push(tmId);
+        continue;
+      }
+      await pullOne(subtask, tmId, subtaskMapping.beadsId);
+    }
+  }
+
+  if (!options.dryRun && summary.changes.length > 0) {
+    const trailingNewline = content.endsWith('\n') ? '\n' : '';
+    await fs.writeFile(filePath, JSON.stringify(raw, null, 2) + trailingNewline, 'utf-8');
+  }
+
+  return summary;
+}
+
+export { unmapStatus };
@@ -0,0 +1,430 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parseTaggedProjects } from '../schemas/taskmaster.js';
+import { validateProject } from '../schemas/project-validator.js';
+import type { TagSelection, TaggedProject, TaskMasterTask } from '../schemas/taskmaster.js';
+import type { PlanOperation, SyncPlan } from '../schemas/sync-plan.js';
+import type { BeadsBackend } from '../beads/backend.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import type { MappedIssue } from '../mapping/id-mapper.js';
+import { acquireLock } from '../mapping/lock.js';
+import { topologicalSort } from '../utils/topological-sort.js';
+import { buildSyncPlan } from '../plan/planner.js';
+import { applySyncPlan } from '../plan/executor.js';
+import type { ApplyResult, OperationListener, OperationOutcome } from '../plan/executor.js';
+import { importSyncPlan } from '../plan/bulk-import.js';
+import { reconcileProject } from './reconciler.js';
+import { propagateLeafDependencies } from './dependency-wirer.js';
+import { filterProject, isTaskFilterActive } from './task-filter.js';
+import type { TaskFilter } from './task-filter.js';
+import { criticalTaskIds } from '../graph/schedule.js';
+import { reduceDependencies } from '../graph/reduction.js';
+import type { RedundantDependency } from '../graph/reduction.js';
+import type { ReconcileSummary } from './reconciler.js';
+import { ensureTagEpic, labelTagIssues, tagLabel } from './tag-organizer.js';
+import type { TagMode } from './tag-organizer.js';
+import type { MappingRules } from './mapping-rules.js';
+import { diffProjects } from './task-diff.js';
+import { undoImport } from './undo.js';
+import type { UndoSummary } from './undo.js';
+import type { TaskChange } from './task-diff.js';
+import { Tm2bdError } from '../errors.js';
+
+/** Progress reported by {@link syncProject}, in the order it happens. */
+export type SyncEvent =
+  | { type: 'tasks-loaded'; tag?: string; count: number }
+  | { type: 'tasks-filtered'; tag?: string; count: number; total: number; included: number[] }
+  | { type: 'tasks-sorted'; tag?: string; tiers: number }
+  | ({ type: 'dependency-reduced'; tag?: string } & RedundantDependency)
+  | { type: 'warning'; message: string }
+  | { type: 'task-changed'; change: TaskChange }
+  | ({ type: 'operation'; op: PlanOperation; current: number; total: number } & OperationOutcome)
+  | { type: 'reconcile-started'; tag?: string }
+  | { type: 'reconciled'; tag?: string; summary: ReconcileSummary }
+  | { type: 'tag-labeled'; tag: string; label: string; count: number }
+  | { type: 'mapping-saved'; path: string }
+  | { type: 'rolled-back'; summary: UndoSummary };
+
+export interface SyncProjectOptions {
+  tasksFile: string;
+  backend: BeadsBackend;
+  /** Existing mapping to resume or update from; a fresh one otherwise. */
+  mapper?: IdMapper;
+  /** Locked, checkpointed and saved when given. */
+  mapFile?: string;
+  tag?: string;
+  allTags?: boolean;
+  /** Sync only some of each tag's tasks. */
+  filter?: TaskFilter;
+  tagMode?: TagMode;
+  /** Status, priority and issue type mappings; built-in ones otherwise. */
+  rules?: MappingRules;
+  /** Reconcile mapped issues with tasks.json instead of only creating. */
+  update?: boolean;
+  /**
+   * Projects read by an earlier run; with `update`, only the tasks that
+   * changed since are reconciled.
+   */
+  previous?: TaggedProject[];
+  /** Most Beads calls in flight at once when creating; 1 by default. */
+  concurrency?: number;
+  /** Create new issues with one `bd import` where the backend allows. */
+  bulk?: boolean;
+  /**
+   * Leave out dependencies a longer chain already implies, recording them
+   * in the mapping so `verify` still counts them as satisfied.
+   */
+  reduceDependencies?: boolean;
+  /** Build the plan without touching Beads. */
+  dryRun?: boolean;
+  onEvent?: (event: SyncEvent) => void;
+  /**
+   * Asked when a run fails after creating issues; resolving true removes
+   * the issues created by this run before the error is rethrown.
+   */
+  confirmRollback?: (created: CreatedIssue[], error: unknown) => boolean | Promise<boolean>;
+}
+
+export type CreatedIssue = MappedIssue;
+
+export interface SyncProjectResult {
+  mapper: IdMapper;
+  /** The tasks as parsed and validated for this run. */
+  projects: TaggedProject[];
+  /** What changed since `previous`; set when it was given. */
+  changes?: TaskChange[];
+  /** The operations planned; set for create and dry runs. */
+  plan?: SyncPlan;
+  /** Per-operation counts; set for create runs. */
+  applied?: ApplyResult;
+  /** Per-tag reconcile counts; set for update runs. */
+  reconciled?: { tag?: string; summary: ReconcileSummary }[];
+  created: CreatedIssue[];
+  dependencies: { added: number; removed: number };
+  statusesSet: number;
+  warnings: string[];
+}
+
+/** Tags to load and, optionally, which of their tasks. */
+export interface ProjectSelection extends TagSelection {
+  filter?: TaskFilter;
+}
+
+interface LoadedProjects {
+  projects: TaggedProject[];
+  /**
+   * The same tags before filtering, in the same order, for analyses that
+   * need every task; a filtered project stands in for one with errors.
+   */
+  unfiltered: TaggedProject[];
+}
+
+/**
+ * Parse, filter, validate and sort the selected tags of a tasks.json file,
+ * claiming a pre-tag mapping for the tag being synced. Throws on any
+ * validation error.
+ */
+export async function loadProjects(
+  tasksFile: string,
+  selection: ProjectSelection,
+  mapper: IdMapper,
+  emit: (event: SyncEvent) => void = () => {},
+): Promise<TaggedProject[]> {
+  return (await loadSelectedProjects(tasksFile, selection, mapper, emit)).projects;
+}
+
+async function loadSelectedProjects(
+  tasksFile: string,
+  selection: ProjectSelection,
+  mapper: IdMapper,
+  emit: (event: SyncEvent) => void,
+): Promise<LoadedProjects> {
+  if (selection.tag && selection.allTags) {
+    throw new Tm2bdError('--tag and --all-tags cannot be used together.', 'validation');
+  }
+
+  const parsed = await parseTaggedProjects(tasksFile, selection);
+  for (const project of parsed) {
+    emit({ type: 'tasks-loaded', tag: project.tag, count: project.tasks.length });
+  }
+
+  let projects = parsed;
+  const { filter } = selection;
+  if (filter && isTaskFilterActive(filter)) {
+    projects = parsed.map((project) => {
+      const filtered = filterProject(project, filter);
+      const { tag, tasks } = filtered.project;
+      emit({ type: 'tasks-filtered', tag, count: tasks.length, total: filtered.total, included: filtered.included });
+      for (const { ref, dependsOn } of filtered.dropped) {
+        emit({ type: 'warning', message: `Dropped dependency of ${ref} on ${dependsOn}, outside the selection` });
+      }
+      return filtered.project;
+    });
+  }
+
+  // Mappings written before tag support carry no tag
+  if (mapper.getTags().includes(undefined) && projects[0].tag !== undefined) {
+    if (projects.length > 1) {
+      throw new Tm2bdError(
+        'Mapping file predates tag support.\nRe-run once with --tag <name> for the tag it was created from.',
+        'mapping-conflict',
+      );
+    }
+    mapper.assignTag(projects[0].tag);
+    emit({
+      type: 'warning',
+      message: `Untagged mapping entries were assigned to tag "${projects[0].tag}"`,
+    });
+  }
+
+  // Warnings are left to `tm2bd validate`; only errors would break a sync
+  const errors = projects
+    .flatMap((project) => validateProject(project))
+    .filter((problem) => problem.severity === 'error');
+  if (errors.length > 0) {
+    throw new Tm2bdError(
+      `Validation failed:\n${errors.map((e) => `  ${e.path}: ${e.message}`).join('\n')}`,
+      'validation',
+    );
+  }
+
+  for (const project of projects) {
+    const sorted = topologicalSort(project.tasks);
+    const tiers = sorted.length > 0 ? Math.max(...sorted.map((s) => s.tier)) + 1 : 0;
+    emit({ type: 'tasks-sorted', tag: project.tag, tiers });
+  }
+
+  const unfiltered = parsed.map((project, i) =>
+    project === projects[i] || validateProject(project).some((problem) => problem.severity === 'error')
+      ? projects[i]
+      : project,
+  );
+  return { projects, unfiltered };
+}
+
+/** The graph as wired: with leaf dependencies propagated under that rule. */
+function propagate(project: TaggedProject, options: SyncProjectOptions): TaggedProject {
+  return options.rules?.leafDependencies ? propagateLeafDependencies(project) : project;
+}
+
+/** A task's own and its subtasks' dependencies, comparable across runs. */
+function wiredEdges(task: TaskMasterTask): string {
+  return JSON.stringify([task.dependencies, (task.subtasks ?? []).map((s) => [s.id, s.dependencies ?? []])]);
+}
+
+async function runSync(
+  projects: TaggedProject[],
+  unfiltered: TaggedProject[],
+  options: SyncProjectOptions,
+  mapper: IdMapper,
+  result: SyncProjectResult,
+  emit: (event: SyncEvent) => void,
+): Promise<void> {
+  const { backend } = options;
+
+  if (!options.update) {
+    const plan = buildSyncPlan(projects, mapper, {
+      tasksFile: options.tasksFile,
+      tagMode: options.tagMode,
+      rules: options.rules,
+      unfiltered,
+    });
+    const onOperation: OperationListener = (op, current, total, outcome) =>
+      emit({ type: 'operation', op, current, total, ...outcome });
+    const applyOptions = { concurrency: options.concurrency };
+    let applied: ApplyResult;
+    if (options.bulk) {
+      const imported = await importSyncPlan(plan, backend, mapper, onOperation, applyOptions);
+      if (imported.fallback) {
+        emit({ type: 'warning', message: imported.fallback });
+      }
+      applied = imported;
+    } else {
+      applied = await applySyncPlan(plan, backend, mapper, onOperation, applyOptions);
+    }
+    result.plan = plan;
+    result.applied = applied;
+    result.dependencies.added = applied.epicDeps + applied.subtaskDeps;
+    result.statusesSet = applied.statusesSet;
+    return;
+  }
+
+  result.reconciled = [];
+  for (const [i, project] of projects.entries()) {
+    const { tag } = project;
+    const critical = options.rules?.raiseCriticalPath ? criticalTaskIds(unfiltered[i].tasks) : new Set<number>();
+    // Edges onto tasks the filter left out are not this run's to remove
+    const selected =
+      options.filter && isTaskFilterActive(options.filter) ? new Set(project.tasks.map((task) => task.id)) : undefined;
+    let sortedTasks = topologicalSort(project.tasks).map((s) => s.task);
+    if (result.changes) {
+      const touched = new Set(result.changes.filter((c) => c.tag === tag).map((c) => c.taskId));
+      const before = options.previous?.find((p) => p.tag === tag);
+      // A prerequisite's subtasks decide which of its dependents' subtasks wait
+      if (options.rules?.leafDependencies) {
+        const changed = new Set(touched);
+        for (const task of project.tasks) {
+          if (task.dependencies.some((id) => changed.has(id))) touched.add(task.id);
+        }
+      }
+      // A change elsewhere can move the critical path onto or off a task
+      if (options.rules?.raiseCriticalPath && before) {
+        const wasCritical = criticalTaskIds(before.tasks);
+        for (const id of new Set([...critical, ...wasCritical])) {
+          if (critical.has(id) !== wasCritical.has(id)) touched.add(id);
+        }
+      }
+      // or make one of a task's edges redundant, or needed again
+      if (options.reduceDependencies && before) {
+        const wasWired = new Map(
+          reduceDependencies(propagate(before, options)).project.tasks.map((task) => [task.id, wiredEdges(task)]),
+        );
+        for (const task of project.tasks) {
+          if (wasWired.get(task.id) !== wiredEdges(task)) touched.add(task.id);
+        }
+      }
+      sortedTasks = sortedTasks.filter((task) => touched.has(task.id));
+      if (sortedTasks.length === 0) continue;
+    }
+
+    const tagMapper = mapper.forTag(tag);
+    emit({ type: 'reconcile-started', tag });
+
+    if (tag !== undefined && options.tagMode === 'epic') {
+      await ensureTagEpic(tag, backend, tagMapper, options.rules);
+    }
+
+    const summary = await reconcileProject(sortedTasks, backend, tagMapper, options.rules, critical, selected);
+    result.reconciled.push({ tag, summary });
+    result.dependencies.added += summary.dependencies.added;
+    result.dependencies.removed += summary.dependencies.removed;
+    result.statusesSet += summary.statuses.updated;
+    emit({ type: 'reconciled', tag, summary });
+
+    if (tag !== undefined && options.tagMode === 'label') {
+      const count = await labelTagIssues(tag, backend, tagMapper);
+      emit({ type: 'tag-labeled', tag, label: tagLabel(tag), count });
+    }
+  }
+}
+
+/**
+ * Run the full tasks.json → Beads pipeline: parse, validate, sort, then
+ * either create the missing issues, dependencies and statuses or, with
+ * `update`, reconcile everything already mapped. Progress is reported
+ * through `onEvent`; nothing is written to stdout.
+ */
+export async function syncProject(options: SyncProjectOptions): Promise<SyncProjectResult> {
+  const warnings: string[] = [];
+  const emit = (event: SyncEvent) => {
+    if (event.type === 'warning') warnings.push(event.message);
+    options.onEvent?.(event);
+  };
+
+  if (options.dryRun && options.update) {
+    throw new Tm2bdError('--dry-run is not supported with --update.', 'validation');
+  }
+  if (!(await options.backend.checkInit())) {
+    throw new Tm2bdError('Beads not initialized. Run `bd init` first.', 'bd-missing');
+  }
+
+  const mapper = options.mapper ?? new IdMapper();
+  const mappedTasksFile = mapper.getProject().tasksFile;
+  if (mappedTasksFile && path.resolve(mappedTasksFile) !== path.resolve(options.tasksFile)) {
+    emit({
+      type: 'warning',
+      message: `Mapping was last synced from ${mappedTasksFile}, not ${options.tasksFile}`,
+    });
+  }
+  mapper.bindProject({
+    issuePrefix: await options.backend.getIssuePrefix(),
+    tasksFile: options.tasksFile,
+  });
+
+  const { projects, unfiltered } = await loadSelectedProjects(
+    options.tasksFile,
+    { tag: options.tag, allTags: options.allTags, filter: options.filter },
+    mapper,
+    emit,
+  );
+
+  // Wire the propagated and reduced graph; everything else still sees
+  // tasks.json as written
+  const reduced = projects.map((loaded, i) => {
+    const project = propagate(loaded, options);
+    if (!options.reduceDependencies) return { project, dropped: [], recorded: [] };
+    const reduction = reduceDependencies(project);
+    for (const dependency of reduction.dropped) {
+      emit({ type: 'dependency-reduced', tag: project.tag, ...dependency });
+    }
+    // The mapping records the whole tag's reduction, so a filtered run
+    // keeps what earlier runs left out; an edge only the whole tag makes
+    // redundant is still wired, since its chain may not be in Beads
+    const recorded =
+      loaded === unfiltered[i] ? reduction.dropped : reduceDependencies(propagate(unfiltered[i], options)).dropped;
+    return { ...reduction, recorded };
+  });
+  const wired = reduced.map((r) => r.project);
+
+  const result: SyncProjectResult = {
+    mapper,
+    projects,
+    created: [],
+    dependencies: { added: 0, removed: 0 },
+    statusesSet: 0,
+    warnings,
+  };
+
+  if (options.previous && options.update) {
+    result.changes = diffProjects(options.previous, projects);
+    for (const change of result.changes) {
+      emit({ type: 'task-changed', change });
+    }
+  }
+
+  if (options.dryRun) {
+    result.plan = buildSyncPlan(wired, mapper, {
+      tasksFile: options.tasksFile,
+      tagMode: options.tagMode,
+      rules: options.rules,
+      unfiltered,
+    });
+    return result;
+  }
+
+  const before = new Set(mapper.getIssues().map((issue) => issue.beadsId));
+
+  // Lock the mapping file and checkpoint it after every applied operation
+  const lock = options.mapFile ? await acquireLock(options.mapFile) : undefined;
+  try {
+    if (options.mapFile) mapper.enableCheckpoints(options.mapFile);
+    await runSync(wired, unfiltered, options, mapper, result, emit);
+    for (const [i, project] of projects.entries()) {
+      const tagMapper = mapper.forTag(project.tag);
+      tagMapper.recordSynced(project.tasks);
+      tagMapper.setReducedDependencies(reduced[i].recorded);
+    }
+    if (options.mapFile) {
+      await mapper.save(options.mapFile);
+      emit({ type: 'mapping-saved', path: options.mapFile });
+    }
+  } catch (error) {
+    const created = mapper.getIssues().filter((issue) => !before.has(issue.beadsId));
+    if (created.length > 0 && (await options.confirmRollback?.(created, error))) {
+      const summary = await undoImport(options.backend, mapper, {
+        only: new Set(created.map((issue) => issue.beadsId)),
+      });
+      emit({ type: 'rolled-back', summary });
+      if (options.mapFile && before.size === 0 && mapper.getIssues().length === 0) {
+        // Nothing was mapped before this run; let the next sync start fresh
+        await fs.rm(options.mapFile, { force: true });
+      }
+    }
+    throw error;
+  } finally {
+    await lock?.release();
+  }
+
+  result.created = mapper.getIssues().filter((issue) => !before.has(issue.beadsId));
+  return result;
+}
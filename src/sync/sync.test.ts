@@ -1,10 +1,27 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
 import type { TaskMasterTask } from '../schemas/taskmaster.js';
 import { IdMapper } from '../mapping/id-mapper.js';
-import { formatEpicDescription, mapPriority, createEpic, createEpics } from './epic-creator.js';
-import { formatChildDescription, createChildren, createAllChildren } from './child-creator.js';
-import { wireEpicDependencies, wireSubtaskDependencies, wireAllDependencies } from './dependency-wirer.js';
-import { mapStatus, syncAllStatuses } from './status-syncer.js';
+import { formatEpicDescription, mapPriority, createEpic } from './epic-creator.js';
+import { formatChildDescription } from './child-creator.js';
+import { propagateLeafDependencies, resolveSubtaskDependency } from './dependency-wirer.js';
+import { mapStatus } from './status-syncer.js';
+import { reconcileProject } from './reconciler.js';
+import { unmapStatus, pullStatuses } from './status-puller.js';
+import { ensureTagEpic, labelTagIssues } from './tag-organizer.js';
+import { issueLabels, reconcileLabels } from './labeler.js';
+import { syncProject } from './sync-project.js';
+import { resolveMappingRules } from '../schemas/config.js';
+import type { SyncEvent } from './sync-project.js';
+import { diffProjects } from './task-diff.js';
+import { filterProject } from './task-filter.js';
+import { watchProject } from './watcher.js';
+import { UNDONE_LABEL, archiveMapping, undoImport } from './undo.js';
+import { describeDrift, verifyProjects } from './verifier.js';
+import type { WatchEvent } from './watcher.js';
+import { BeadsNotFoundError } from '../errors.js';
 
 function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
   return {
@@ -18,6 +35,18 @@ function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
   };
 }
 
+function makeIssue(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    title: 'Test task',
+    description: '',
+    status: 'open',
+    priority: 0,
+    dependencies: [] as string[],
+    ...overrides,
+  };
+}
+
 function makeMockCli() {
   return {
     createEpic: vi.fn().mockResolvedValue({ id: 'bd-abc', title: 'T' }),
@@ -26,7 +55,13 @@ function makeMockCli() {
     updateStatus: vi.fn().mockResolvedValue(undefined),
     close: vi.fn().mockResolvedValue(undefined),
     addLabel: vi.fn().mockResolvedValue(undefined),
+    removeLabel: vi.fn().mockResolvedValue(undefined),
+    removeDependency: vi.fn().mockResolvedValue(undefined),
+    deleteIssue: vi.fn().mockResolvedValue(undefined),
+    updateIssue: vi.fn().mockResolvedValue(undefined),
+    show: vi.fn(),
     checkInit: vi.fn().mockResolvedValue(true),
+    getIssuePrefix: vi.fn().mockResolvedValue('bd'),
     projectPath: '/project',
     verbose: false,
   };
@@ -59,6 +94,27 @@ describe('epic-creator', () => {
       expect(result).not.toContain('## Test Strategy');
       expect(result).not.toContain('Complexity');
     });
+
+    it('keeps the built-in layout', () => {
+      const task = makeTask({
+        id: 1,
+        description: 'My desc',
+        details: 'My details',
+        testStrategy: 'My tests',
+        complexity: 5,
+      });
+      expect(formatEpicDescription(task)).toBe(
+        '## Description\nMy desc\n\n## Implementation Details\nMy details\n\n' +
+          '## Test Strategy\nMy tests\n\n## Metadata\n- Task-Master ID: 1\n' +
+          '- Complexity: 5/10\n- Original Status: pending',
+      );
+    });
+
+    it('renders a configured template', () => {
+      const rules = resolveMappingRules({}, { epic: '{{title}} [{{tag}}] deps: {{dependencies}}' });
+      const task = makeTask({ dependencies: [2, 3] });
+      expect(formatEpicDescription(task, rules, 'api')).toBe('Test task [api] deps: 2, 3');
+    });
   });
 
   describe('mapPriority', () => {
@@ -67,6 +123,14 @@ describe('epic-creator', () => {
       expect(mapPriority('medium')).toBe(1);
       expect(mapPriority('low')).toBe(2);
     });
+
+    it('uses the configured priority map and complexity bump', () => {
+      const rules = resolveMappingRules({ priorityMap: { low: 4 }, complexityBump: { atLeast: 8, by: 2 } });
+      expect(mapPriority('low', undefined, rules)).toBe(4);
+      expect(mapPriority('low', 7, rules)).toBe(4);
+      expect(mapPriority('low', 8, rules)).toBe(2);
+      expect(mapPriority('high', 9, rules)).toBe(0);
+    });
   });
 
   describe('createEpic', () => {
@@ -79,29 +143,13 @@ describe('epic-creator', () => {
         'Test task',
         expect.stringContaining('## Description'),
         0,
+        undefined,
       );
       expect(id).toBe('bd-abc');
       expect(mapper.getEpicId(1)).toBe('bd-abc');
     });
   });
 
-  describe('createEpics', () => {
-    it('creates all epics with progress', async () => {
-      const cli = makeMockCli();
-      let callCount = 0;
-      cli.createEpic.mockImplementation(async () => ({
-        id: `bd-${++callCount}`,
-        title: 'T',
-      }));
-      const mapper = new IdMapper();
-      const progress = vi.fn();
-      await createEpics([makeTask({ id: 1 }), makeTask({ id: 2 })], cli as any, mapper, progress);
-      expect(progress).toHaveBeenCalledWith(1, 2);
-      expect(progress).toHaveBeenCalledWith(2, 2);
-      expect(mapper.getEpicId(1)).toBe('bd-1');
-      expect(mapper.getEpicId(2)).toBe('bd-2');
-    });
-  });
 });
 
 describe('child-creator', () => {
@@ -121,115 +169,81 @@ describe('child-creator', () => {
       });
       expect(result).toBe('Desc');
     });
-  });
 
-  describe('createChildren', () => {
-    it('skips tasks with no subtasks', async () => {
-      const cli = makeMockCli();
-      const mapper = new IdMapper();
-      mapper.addEpic(1, 'bd-abc');
-      await createChildren(makeTask({ id: 1 }), 'bd-abc', cli as any, mapper);
-      expect(cli.createChild).not.toHaveBeenCalled();
-    });
-
-    it('creates children sorted by ID', async () => {
-      const cli = makeMockCli();
-      let n = 0;
-      cli.createChild.mockImplementation(async () => ({ id: `bd-abc.${++n}`, title: 'C' }));
-      const mapper = new IdMapper();
-      mapper.addEpic(1, 'bd-abc');
-      const task = makeTask({
-        id: 1,
-        subtasks: [
-          { id: 3, title: 'S3', description: 'D', status: 'pending' },
-          { id: 1, title: 'S1', description: 'D', status: 'pending' },
-          { id: 2, title: 'S2', description: 'D', status: 'pending' },
-        ],
+    it('renders a configured template with parent fields', () => {
+      const rules = resolveMappingRules({}, {
+        child: '{{ref}} of {{parent.title}}{{#testStrategy}}\nTest: {{testStrategy}}{{/testStrategy}}',
       });
-      await createChildren(task, 'bd-abc', cli as any, mapper);
-      expect(cli.createChild.mock.calls[0][1]).toBe('S1');
-      expect(cli.createChild.mock.calls[1][1]).toBe('S2');
-      expect(cli.createChild.mock.calls[2][1]).toBe('S3');
+      const subtask = { id: 2, title: 'T', description: 'Desc', status: 'pending' as const, testStrategy: 'Run it' };
+      expect(formatChildDescription(subtask, makeTask({ id: 4 }), rules)).toBe(
+        '4.2 of Test task\nTest: Run it',
+      );
     });
   });
 
-  describe('createAllChildren', () => {
-    it('throws when epic ID missing', async () => {
-      const cli = makeMockCli();
-      const mapper = new IdMapper();
-      await expect(
-        createAllChildren([makeTask({ id: 1, subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending' }] })], cli as any, mapper),
-      ).rejects.toThrow('Epic ID not found');
-    });
-  });
 });
 
 describe('dependency-wirer', () => {
-  let cli: ReturnType<typeof makeMockCli>;
   let mapper: IdMapper;
 
   beforeEach(() => {
-    cli = makeMockCli();
     mapper = new IdMapper();
     mapper.addEpic(1, 'bd-1');
     mapper.addEpic(2, 'bd-2');
     mapper.addEpic(3, 'bd-3');
   });
 
-  describe('wireEpicDependencies', () => {
-    it('skips tasks with no deps', async () => {
-      const count = await wireEpicDependencies([makeTask({ id: 1 })], cli as any, mapper);
-      expect(cli.addDependency).not.toHaveBeenCalled();
-      expect(count).toBe(0);
+  describe('resolveSubtaskDependency', () => {
+    it('resolves dotted references across epics', () => {
+      mapper.addSubtask(1, 1, 'bd-1.1');
+      expect(resolveSubtaskDependency({ taskId: 1, subtaskId: 1 }, mapper)).toBe('bd-1.1');
     });
 
-    it('wires deps in correct order', async () => {
-      const count = await wireEpicDependencies(
-        [makeTask({ id: 2, dependencies: [1] }), makeTask({ id: 3, dependencies: [1, 2] })],
-        cli as any,
-        mapper,
-      );
-      expect(cli.addDependency).toHaveBeenCalledWith('bd-2', 'bd-1');
-      expect(cli.addDependency).toHaveBeenCalledWith('bd-3', 'bd-1');
-      expect(cli.addDependency).toHaveBeenCalledWith('bd-3', 'bd-2');
-      expect(count).toBe(3);
+    it('resolves whole-task references to the epic', () => {
+      expect(resolveSubtaskDependency({ taskId: 3 }, mapper)).toBe('bd-3');
     });
-  });
 
-  describe('wireSubtaskDependencies', () => {
-    it('wires intra-epic subtask deps', async () => {
-      mapper.addSubtask(1, 1, 'bd-1.1');
-      mapper.addSubtask(1, 2, 'bd-1.2');
-      const task = makeTask({
-        id: 1,
-        subtasks: [
-          { id: 1, title: 'S1', description: 'D', status: 'pending', dependencies: [] },
-          { id: 2, title: 'S2', description: 'D', status: 'pending', dependencies: [1] },
-        ],
-      });
-      const count = await wireSubtaskDependencies([task], cli as any, mapper);
-      expect(cli.addDependency).toHaveBeenCalledWith('bd-1.2', 'bd-1.1');
-      expect(count).toBe(1);
+    it('throws when the referenced subtask is not mapped', () => {
+      expect(() => resolveSubtaskDependency({ taskId: 1, subtaskId: 9 }, mapper)).toThrow('dependency 1.9');
     });
   });
 
-  describe('wireAllDependencies', () => {
-    it('returns combined counts', async () => {
-      mapper.addSubtask(1, 1, 'bd-1.1');
-      mapper.addSubtask(1, 2, 'bd-1.2');
+  describe('propagateLeafDependencies', () => {
+    const subtask = (id: number, dependencies: { taskId: number; subtaskId?: number }[] = []) => ({
+      id,
+      title: `S${id}`,
+      description: 'D',
+      status: 'pending' as const,
+      dependencies,
+    });
+
+    it("blocks a dependent's entry subtasks on the prerequisite's exit subtasks", () => {
+      // 1.1 → 1.2 and 1.3 end task 1; 2.1 starts task 2 and already waits on 1.3
       const tasks = [
+        makeTask({ id: 1, subtasks: [subtask(1), subtask(2, [{ taskId: 1, subtaskId: 1 }]), subtask(3)] }),
         makeTask({
-          id: 1,
-          subtasks: [
-            { id: 1, title: 'S1', description: 'D', status: 'pending' },
-            { id: 2, title: 'S2', description: 'D', status: 'pending', dependencies: [1] },
-          ],
+          id: 2,
+          dependencies: [1],
+          subtasks: [subtask(1, [{ taskId: 1, subtaskId: 3 }]), subtask(2, [{ taskId: 2, subtaskId: 1 }])],
         }),
-        makeTask({ id: 2, dependencies: [1] }),
       ];
-      const result = await wireAllDependencies(tasks, cli as any, mapper);
-      expect(result.epicDeps).toBe(1);
-      expect(result.subtaskDeps).toBe(1);
+      const [, task2] = propagateLeafDependencies({ tag: 'master', tasks }).tasks;
+      expect(task2.subtasks![0].dependencies).toEqual([
+        { taskId: 1, subtaskId: 3 },
+        { taskId: 1, subtaskId: 2 },
+      ]);
+      expect(task2.subtasks![1].dependencies).toEqual([{ taskId: 2, subtaskId: 1 }]);
+    });
+
+    it('falls back to the prerequisite epic and leaves dependents without subtasks alone', () => {
+      const tasks = [
+        makeTask({ id: 1 }),
+        makeTask({ id: 2, dependencies: [1], subtasks: [subtask(1)] }),
+        makeTask({ id: 3, dependencies: [2] }),
+      ];
+      const [, task2, task3] = propagateLeafDependencies({ tag: 'master', tasks }).tasks;
+      expect(task2.subtasks![0].dependencies).toEqual([{ taskId: 1 }]);
+      expect(task3).toBe(tasks[2]);
     });
   });
 });
@@ -242,46 +256,908 @@ describe('status-syncer', () => {
       expect(mapStatus('done')).toEqual({ close: true });
       expect(mapStatus('deferred')).toEqual({ status: 'deferred', close: false });
     });
+
+    it('uses the configured status map', () => {
+      const rules = resolveMappingRules({ statusMap: { cancelled: 'deferred', pending: 'blocked' } });
+      expect(mapStatus('cancelled', rules)).toEqual({ status: 'deferred', close: false });
+      expect(mapStatus('pending', rules)).toEqual({ status: 'blocked', close: false });
+      expect(mapStatus('done', rules)).toEqual({ close: true });
+    });
   });
 
-  describe('syncAllStatuses', () => {
-    it('calls close for done tasks', async () => {
-      const cli = makeMockCli();
-      const mapper = new IdMapper();
-      mapper.addEpic(1, 'bd-1');
-      await syncAllStatuses([makeTask({ id: 1, status: 'done' })], cli as any, mapper);
-      expect(cli.close).toHaveBeenCalledWith('bd-1');
-      expect(cli.updateStatus).not.toHaveBeenCalled();
+});
+
+describe('reconciler', () => {
+  it('creates only tasks and subtasks missing from the mapping', async () => {
+    const cli = makeMockCli();
+    const task1 = makeTask({ id: 1 });
+    cli.show.mockResolvedValue(makeIssue('bd-1', { description: formatEpicDescription(task1) }));
+    cli.createEpic.mockResolvedValue({ id: 'bd-2', title: 'T' });
+    cli.createChild.mockResolvedValue({ id: 'bd-2.1', title: 'C' });
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+
+    const summary = await reconcileProject(
+      [task1, makeTask({ id: 2, subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending' }] })],
+      cli as any,
+      mapper,
+    );
+
+    expect(cli.createEpic).toHaveBeenCalledTimes(1);
+    expect(cli.updateIssue).not.toHaveBeenCalled();
+    expect(mapper.getEpicId(2)).toBe('bd-2');
+    expect(mapper.getSubtaskId(2, 1)).toBe('bd-2.1');
+    expect(summary.epics).toEqual({ created: 1, updated: 0, unchanged: 1 });
+    expect(summary.children).toEqual({ created: 1, updated: 0, unchanged: 0 });
+  });
+
+  it('updates changed titles, descriptions and priorities', async () => {
+    const cli = makeMockCli();
+    const task = makeTask({ id: 1, title: 'Renamed', priority: 'medium' });
+    cli.show.mockResolvedValue(makeIssue('bd-1', { description: formatEpicDescription(task) }));
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+
+    const summary = await reconcileProject([task], cli as any, mapper);
+
+    expect(cli.updateIssue).toHaveBeenCalledWith('bd-1', { title: 'Renamed', priority: 1 });
+    expect(summary.epics.updated).toBe(1);
+  });
+
+  it('adds new dependencies and removes dropped ones', async () => {
+    const cli = makeMockCli();
+    const tasks = [makeTask({ id: 1 }), makeTask({ id: 2 }), makeTask({ id: 3, dependencies: [2] })];
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+    mapper.addEpic(2, 'bd-2');
+    mapper.addEpic(3, 'bd-3');
+    cli.show.mockImplementation(async (id: string) =>
+      makeIssue(id, {
+        description: formatEpicDescription(tasks[Number(id.slice(3)) - 1]),
+        dependencies: id === 'bd-3' ? ['bd-1', 'bd-manual'] : [],
+      }),
+    );
+
+    const summary = await reconcileProject(tasks, cli as any, mapper);
+
+    expect(cli.addDependency).toHaveBeenCalledWith('bd-3', 'bd-2');
+    expect(cli.removeDependency).toHaveBeenCalledWith('bd-3', 'bd-1');
+    expect(cli.removeDependency).not.toHaveBeenCalledWith('bd-3', 'bd-manual');
+    expect(summary.dependencies).toEqual({ added: 1, removed: 1, unchanged: 0 });
+  });
+
+  it('leaves statuses alone when Beads already matches', async () => {
+    const cli = makeMockCli();
+    const task = makeTask({ id: 1, status: 'done' });
+    cli.show.mockResolvedValue(
+      makeIssue('bd-1', { description: formatEpicDescription(task), status: 'closed' }),
+    );
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+
+    const summary = await reconcileProject([task], cli as any, mapper);
+
+    expect(cli.close).not.toHaveBeenCalled();
+    expect(summary.statuses).toEqual({ updated: 0, unchanged: 1 });
+  });
+});
+
+describe('status-puller', () => {
+  describe('unmapStatus', () => {
+    it('inverts mapStatus', () => {
+      expect(unmapStatus('open', 'done')).toBe('pending');
+      expect(unmapStatus('in_progress', 'pending')).toBe('in-progress');
+      expect(unmapStatus('blocked', 'pending')).toBe('blocked');
+      expect(unmapStatus('deferred', 'pending')).toBe('deferred');
+      expect(unmapStatus('closed', 'pending')).toBe('done');
     });
 
-    it('calls updateStatus for in-progress tasks', async () => {
+    it('keeps cancelled for closed issues', () => {
+      expect(unmapStatus('closed', 'cancelled')).toBe('cancelled');
+    });
+
+    it('inverts a configured status map', () => {
+      const rules = resolveMappingRules({ statusMap: { cancelled: 'deferred' } });
+      expect(unmapStatus('deferred', 'cancelled', rules)).toBe('cancelled');
+      expect(unmapStatus('deferred', 'pending', rules)).toBe('deferred');
+      expect(unmapStatus('closed', 'cancelled', rules)).toBe('done');
+    });
+  });
+
+  describe('pullStatuses', () => {
+    let tmpDir: string;
+
+    beforeAll(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-pull-'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(tmpDir, { recursive: true });
+    });
+
+    function makeRawTasks() {
+      return {
+        master: {
+          tasks: [
+            {
+              ...makeTask({ id: 1 }),
+              extra: 'kept',
+              subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending' }],
+            },
+          ],
+          metadata: { created: 'yesterday' },
+        },
+      };
+    }
+
+    it('rewrites task and subtask statuses inside the tag wrapper', async () => {
+      const file = path.join(tmpDir, 'tasks.json');
+      await fs.writeFile(file, JSON.stringify(makeRawTasks(), null, 2));
       const cli = makeMockCli();
+      cli.show.mockImplementation(async (id: string) => ({
+        id,
+        status: id === 'bd-1' ? 'in_progress' : 'closed',
+      }));
       const mapper = new IdMapper();
       mapper.addEpic(1, 'bd-1');
-      await syncAllStatuses([makeTask({ id: 1, status: 'in-progress' })], cli as any, mapper);
-      expect(cli.updateStatus).toHaveBeenCalledWith('bd-1', 'in_progress');
+      mapper.addSubtask(1, 1, 'bd-1.1');
+
+      const summary = await pullStatuses(file, cli as any, mapper);
+
+      expect(summary.changes).toEqual([
+        { tmId: '1', beadsId: 'bd-1', from: 'pending', to: 'in-progress' },
+        { tmId: '1.1', beadsId: 'bd-1.1', from: 'pending', to: 'done' },
+      ]);
+      const written = JSON.parse(await fs.readFile(file, 'utf-8'));
+      const expected = makeRawTasks();
+      expected.master.tasks[0].status = 'in-progress';
+      expected.master.tasks[0].subtasks[0].status = 'done';
+      expect(written).toEqual(expected);
     });
 
-    it('skips pending tasks', async () => {
+    it('looks tasks up in the tag they were mapped from', async () => {
+      const file = path.join(tmpDir, 'tags.json');
+      await fs.writeFile(file, JSON.stringify({
+        master: { tasks: [makeTask({ id: 1 })] },
+        v2: { tasks: [makeTask({ id: 1 })] },
+      }));
       const cli = makeMockCli();
+      cli.show.mockResolvedValue({ id: 'bd-v2', status: 'closed' });
       const mapper = new IdMapper();
-      mapper.addEpic(1, 'bd-1');
-      await syncAllStatuses([makeTask({ id: 1, status: 'pending' })], cli as any, mapper);
-      expect(cli.close).not.toHaveBeenCalled();
-      expect(cli.updateStatus).not.toHaveBeenCalled();
+      mapper.forTag('v2').addEpic(1, 'bd-v2');
+
+      const summary = await pullStatuses(file, cli as any, mapper);
+
+      expect(summary.changes).toEqual([{ tmId: 'v2:1', beadsId: 'bd-v2', from: 'pending', to: 'done' }]);
+      const written = JSON.parse(await fs.readFile(file, 'utf-8'));
+      expect(written.master.tasks[0].status).toBe('pending');
+      expect(written.v2.tasks[0].status).toBe('done');
     });
 
-    it('syncs subtask statuses too', async () => {
+    it('leaves the file alone in dry-run mode and reports missing tasks', async () => {
+      const file = path.join(tmpDir, 'dry.json');
+      const original = JSON.stringify(makeRawTasks(), null, 2);
+      await fs.writeFile(file, original);
       const cli = makeMockCli();
+      cli.show.mockResolvedValue({ id: 'bd-1', status: 'closed' });
       const mapper = new IdMapper();
       mapper.addEpic(1, 'bd-1');
-      mapper.addSubtask(1, 1, 'bd-1.1');
-      const task = makeTask({
-        id: 1,
-        subtasks: [{ id: 1, title: 'S', description: 'D', status: 'done' }],
+      mapper.addEpic(2, 'bd-2');
+
+      const summary = await pullStatuses(file, cli as any, mapper, { dryRun: true });
+
+      expect(summary.changes).toHaveLength(1);
+      expect(summary.missing).toEqual(['2']);
+      expect(await fs.readFile(file, 'utf-8')).toBe(original);
+    });
+  });
+});
+
+describe('tag-organizer', () => {
+  it('creates the umbrella epic once and nests task epics under it', async () => {
+    const cli = makeMockCli();
+    cli.createEpic
+      .mockResolvedValueOnce({ id: 'bd-tag', title: 'v2' })
+      .mockResolvedValueOnce({ id: 'bd-tag.1', title: 'T' });
+    const mapper = new IdMapper().forTag('v2');
+
+    expect(await ensureTagEpic('v2', cli as any, mapper)).toBe('bd-tag');
+    expect(await ensureTagEpic('v2', cli as any, mapper)).toBe('bd-tag');
+    await createEpic(makeTask({ id: 1 }), cli as any, mapper);
+
+    expect(cli.createEpic).toHaveBeenCalledTimes(2);
+    expect(cli.createEpic.mock.calls[1][3]).toBe('bd-tag');
+    expect(mapper.getEpicId(1)).toBe('bd-tag.1');
+  });
+
+  it('labels every issue of the tag', async () => {
+    const cli = makeMockCli();
+    const root = new IdMapper();
+    const mapper = root.forTag('v2');
+    mapper.addEpic(1, 'bd-1');
+    mapper.addSubtask(1, 1, 'bd-1.1');
+    root.forTag('master').addEpic(1, 'bd-m');
+
+    const count = await labelTagIssues('v2', cli as any, mapper);
+
+    expect(count).toBe(2);
+    expect(cli.addLabel).toHaveBeenCalledWith('bd-1', 'tm-tag:v2');
+    expect(cli.addLabel).toHaveBeenCalledWith('bd-1.1', 'tm-tag:v2');
+    expect(cli.addLabel).not.toHaveBeenCalledWith('bd-m', expect.anything());
+  });
+
+  it('does not relabel issues already labeled', async () => {
+    const cli = makeMockCli();
+    const mapper = new IdMapper().forTag('v2');
+    mapper.addEpic(1, 'bd-1');
+    mapper.recordLabel('bd-1', 'tm-tag:v2');
+
+    expect(await labelTagIssues('v2', cli as any, mapper)).toBe(0);
+    expect(cli.addLabel).not.toHaveBeenCalled();
+  });
+});
+
+describe('labeler', () => {
+  it('derives labels from the label rules', () => {
+    const task = makeTask({ status: 'done', complexity: 4 });
+    expect(issueLabels(task, 'v2')).toEqual(['tm2bd', 'tm-status:done', 'complexity:4', 'tm-tag:v2']);
+    expect(issueLabels(makeTask({ status: 'in-progress' }), undefined)).toEqual(['tm2bd']);
+    const rules = resolveMappingRules({ labels: { provenance: false, tag: false } });
+    expect(issueLabels(task, 'v2', rules)).toEqual(['tm-status:done', 'complexity:4']);
+  });
+
+  it('adds missing labels once and replaces stale status labels', async () => {
+    const cli = makeMockCli();
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+
+    const first = await reconcileLabels([makeTask({ id: 1, status: 'cancelled' })], cli as any, mapper);
+    expect(first).toEqual({ added: 2, removed: 0, unchanged: 0 });
+    expect(cli.addLabel).toHaveBeenCalledWith('bd-1', 'tm-status:cancelled');
+
+    vi.clearAllMocks();
+    const second = await reconcileLabels([makeTask({ id: 1, status: 'done' })], cli as any, mapper);
+    expect(second).toEqual({ added: 1, removed: 1, unchanged: 1 });
+    expect(cli.addLabel).toHaveBeenCalledTimes(1);
+    expect(cli.addLabel).toHaveBeenCalledWith('bd-1', 'tm-status:done');
+    expect(cli.removeLabel).toHaveBeenCalledWith('bd-1', 'tm-status:cancelled');
+    expect(mapper.getLabels('bd-1')).toEqual(['tm2bd', 'tm-status:done']);
+  });
+});
+
+describe('sync-project', () => {
+  let tmpDir: string;
+  let tasksFile: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-api-'));
+    tasksFile = path.join(tmpDir, 'tasks.json');
+    const tasks = [
+      makeTask({ id: 1, subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending' }] }),
+      makeTask({ id: 2, dependencies: [1], status: 'done' }),
+    ];
+    await fs.writeFile(tasksFile, JSON.stringify({ master: { tasks } }));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true });
+  });
+
+  function makeNumberingCli() {
+    const cli = makeMockCli();
+    let n = 0;
+    cli.createEpic.mockImplementation(async () => ({ id: `bd-${++n}`, title: 'T' }));
+    cli.createChild.mockImplementation(async (parentId: string) => ({ id: `${parentId}.1`, title: 'C' }));
+    return cli;
+  }
+
+  it('creates issues and reports them through events and the result', async () => {
+    const cli = makeNumberingCli();
+    const events: SyncEvent[] = [];
+
+    const result = await syncProject({
+      tasksFile,
+      backend: cli as any,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.created).toEqual([
+      { beadsId: 'bd-1', kind: 'epic', tag: 'master', taskId: 1 },
+      { beadsId: 'bd-1.1', kind: 'child', tag: 'master', taskId: 1, subtaskId: 1 },
+      { beadsId: 'bd-2', kind: 'epic', tag: 'master', taskId: 2 },
+    ]);
+    expect(result.dependencies).toEqual({ added: 1, removed: 0 });
+    expect(result.statusesSet).toBe(1);
+    expect(events[0]).toEqual({ type: 'tasks-loaded', tag: 'master', count: 2 });
+    expect(events[1]).toEqual({ type: 'tasks-sorted', tag: 'master', tiers: 2 });
+    expect(events.filter((e) => e.type === 'operation')).toHaveLength(result.plan!.operations.length);
+  });
+
+  it('only plans on a dry run', async () => {
+    const cli = makeNumberingCli();
+    const result = await syncProject({ tasksFile, backend: cli as any, dryRun: true });
+    expect(result.plan!.operations.length).toBeGreaterThan(0);
+    expect(result.created).toEqual([]);
+    expect(cli.createEpic).not.toHaveBeenCalled();
+  });
+
+  it('wires the reduced graph and records the dropped edges with --reduce-deps', async () => {
+    const file = path.join(tmpDir, 'diamond.json');
+    const tasks = [
+      makeTask({ id: 1 }),
+      makeTask({ id: 2, dependencies: [1] }),
+      makeTask({ id: 3, dependencies: [1, 2] }),
+    ];
+    await fs.writeFile(file, JSON.stringify({ master: { tasks } }));
+    const events: SyncEvent[] = [];
+
+    const result = await syncProject({
+      tasksFile: file,
+      backend: makeNumberingCli() as any,
+      reduceDependencies: true,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(events).toContainEqual({
+      type: 'dependency-reduced',
+      tag: 'master',
+      blocked: 'master:3',
+      blocking: 'master:1',
+      via: ['master:2'],
+    });
+    expect(result.dependencies.added).toBe(2);
+    expect(result.projects[0].tasks[2].dependencies).toEqual([1, 2]);
+    expect(result.mapper.forTag('master').getReducedDependencies()).toEqual([
+      { tag: 'master', blocked: 'master:3', blocking: 'master:1', via: ['master:2'] },
+    ]);
+  });
+
+  it('wires subtask-level edges under the leafDependencies rule', async () => {
+    const file = path.join(tmpDir, 'leaf.json');
+    const tasks = [
+      makeTask({ id: 1, subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending' }] }),
+      makeTask({ id: 2, dependencies: [1], subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending' }] }),
+    ];
+    await fs.writeFile(file, JSON.stringify({ master: { tasks } }));
+    const cli = makeNumberingCli();
+
+    const result = await syncProject({
+      tasksFile: file,
+      backend: cli as any,
+      rules: { ...resolveMappingRules({}), leafDependencies: true },
+    });
+
+    expect(cli.addDependency.mock.calls).toEqual([
+      ['bd-2', 'bd-1'],
+      ['bd-2.1', 'bd-1.1'],
+    ]);
+    expect(result.projects[0].tasks[1].subtasks![0]).not.toHaveProperty('dependencies');
+  });
+
+  it('sorts and plans only the selected tasks', async () => {
+    const events: SyncEvent[] = [];
+    const result = await syncProject({
+      tasksFile,
+      backend: makeNumberingCli() as any,
+      filter: { skipDone: true, outsideDependencies: 'drop' },
+      dryRun: true,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.projects[0].tasks.map((t) => t.id)).toEqual([1]);
+    expect(events).toContainEqual({ type: 'tasks-filtered', tag: 'master', count: 1, total: 2, included: [] });
+    expect(events).toContainEqual({ type: 'tasks-sorted', tag: 'master', tiers: 1 });
+    expect(result.plan!.operations.some((op) => op.op === 'create-epic' && op.taskId === 2)).toBe(false);
+  });
+
+  it('raises the critical path of the whole tag on a filtered create', async () => {
+    const file = path.join(tmpDir, 'filtered-critical.json');
+    const tasks = [
+      makeTask({ id: 1, priority: 'medium', complexity: 9 }),
+      makeTask({ id: 2, priority: 'medium', complexity: 1 }),
+      makeTask({ id: 3, priority: 'medium', complexity: 9, dependencies: [1] }),
+    ];
+    await fs.writeFile(file, JSON.stringify({ master: { tasks } }));
+    const cli = makeNumberingCli();
+    const rules = { ...resolveMappingRules({}), raiseCriticalPath: true };
+
+    await syncProject({ tasksFile: file, backend: cli as any, rules, filter: { only: [2] } });
+
+    // 1 → 3 is the critical path; 2 only looks critical on its own
+    expect(cli.createEpic.mock.calls[0][2]).toBe(mapPriority('medium', 1, rules));
+  });
+
+  it('keeps edges and reductions outside the selection on a filtered update', async () => {
+    const file = path.join(tmpDir, 'filtered-update.json');
+    const tasks = [
+      makeTask({ id: 1, status: 'done' }),
+      makeTask({ id: 2, dependencies: [1] }),
+      makeTask({ id: 3, dependencies: [1, 2] }),
+      makeTask({ id: 4 }),
+    ];
+    await fs.writeFile(file, JSON.stringify({ master: { tasks } }));
+    const mapper = new IdMapper();
+    const tagMapper = mapper.forTag('master');
+    for (const id of [1, 2, 3, 4]) tagMapper.addEpic(id, `bd-${id}`);
+    tagMapper.setReducedDependencies([{ blocked: 'master:3', blocking: 'master:1', via: ['master:2'] }]);
+    const beadsDeps: Record<string, string[]> = { 'bd-2': ['bd-1'], 'bd-3': ['bd-2'], 'bd-4': ['bd-2'] };
+    const cli = makeNumberingCli();
+    cli.show.mockImplementation(async (id: string) => makeIssue(id, { dependencies: beadsDeps[id] ?? [] }));
+
+    const result = await syncProject({
+      tasksFile: file,
+      backend: cli as any,
+      mapper,
+      update: true,
+      reduceDependencies: true,
+      filter: { skipDone: true, outsideDependencies: 'drop' },
+    });
+
+    // 2 → 1 was dropped by the filter; 4 → 2 is stale and inside the selection
+    expect(cli.removeDependency.mock.calls).toEqual([['bd-4', 'bd-2']]);
+    expect(result.mapper.forTag('master').getReducedDependencies()).toEqual([
+      { tag: 'master', blocked: 'master:3', blocking: 'master:1', via: ['master:2'] },
+    ]);
+  });
+
+  it('saves the mapping when given a map file', async () => {
+    const mapFile = path.join(tmpDir, 'map.json');
+    const result = await syncProject({ tasksFile, backend: makeNumberingCli() as any, mapFile });
+    const saved = await IdMapper.load(mapFile);
+    expect(saved.getStats()).toEqual(result.mapper.getStats());
+  });
+
+  it('records the project and content hashes in the mapping', async () => {
+    const cli = makeNumberingCli();
+    const result = await syncProject({ tasksFile, backend: cli as any });
+    expect(result.mapper.getProject()).toEqual({ issuePrefix: 'bd', tasksFile });
+    expect(result.mapper.forTag('master').getMappings()[0]).toMatchObject({
+      hash: expect.any(String),
+      syncedAt: expect.any(String),
+    });
+  });
+
+  it('refuses a mapping written for another Beads project', async () => {
+    const cli = makeNumberingCli();
+    const mapper = new IdMapper();
+    mapper.bindProject({ issuePrefix: 'wp' });
+
+    await expect(syncProject({ tasksFile, backend: cli as any, mapper, update: true })).rejects.toThrow(
+      'belongs to Beads project "wp"',
+    );
+    expect(cli.show).not.toHaveBeenCalled();
+  });
+
+  it('warns when claiming an untagged mapping', async () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-old');
+    const result = await syncProject({ tasksFile, backend: makeNumberingCli() as any, mapper });
+    expect(result.warnings).toEqual(['Untagged mapping entries were assigned to tag "master"']);
+    expect(result.created.map((c) => c.beadsId)).not.toContain('bd-old');
+  });
+
+  it('rejects uninitialized projects and invalid tasks', async () => {
+    const cli = makeNumberingCli();
+    cli.checkInit.mockResolvedValue(false);
+    await expect(syncProject({ tasksFile, backend: cli as any })).rejects.toThrow('bd init');
+
+    const badFile = path.join(tmpDir, 'bad.json');
+    await fs.writeFile(badFile, JSON.stringify({ tasks: [makeTask({ dependencies: [9] })] }));
+    await expect(syncProject({ tasksFile: badFile, backend: makeNumberingCli() as any })).rejects.toThrow(
+      'tasks.0.dependencies.0: Task 1 depends on non-existent task 9',
+    );
+  });
+
+  it('rolls back the issues a failed run created when confirmed', async () => {
+    const mapFile = path.join(tmpDir, 'rollback-map.json');
+    const cli = makeNumberingCli();
+    cli.close.mockRejectedValue(new Error('bd close failed'));
+    const confirmRollback = vi.fn().mockResolvedValue(true);
+    const events: SyncEvent[] = [];
+
+    await expect(
+      syncProject({ tasksFile, backend: cli as any, mapFile, confirmRollback, onEvent: (e) => events.push(e) }),
+    ).rejects.toThrow('bd close failed');
+
+    expect(confirmRollback.mock.calls[0][0].map((c: { beadsId: string }) => c.beadsId)).toEqual([
+      'bd-1',
+      'bd-1.1',
+      'bd-2',
+    ]);
+    expect(cli.deleteIssue.mock.calls.map(([id]) => id)).toEqual(['bd-1.1', 'bd-1', 'bd-2']);
+    expect(cli.removeDependency).toHaveBeenCalledWith('bd-2', 'bd-1');
+    expect(events).toContainEqual({
+      type: 'rolled-back',
+      summary: { removed: 3, dependenciesRemoved: 1, failed: [] },
+    });
+    expect(await IdMapper.exists(mapFile)).toBe(false);
+  });
+
+  it('rewires edges a change elsewhere makes needed again with --reduce-deps', async () => {
+    const file = path.join(tmpDir, 'incremental-reduced.json');
+    const write = (deps2: number[]) =>
+      fs.writeFile(
+        file,
+        JSON.stringify({
+          master: {
+            tasks: [
+              makeTask({ id: 1 }),
+              makeTask({ id: 2, dependencies: deps2 }),
+              makeTask({ id: 3, dependencies: [1, 2] }),
+            ],
+          },
+        }),
+      );
+    await write([1]);
+    const first = await syncProject({ tasksFile: file, backend: makeNumberingCli() as any, reduceDependencies: true });
+
+    await write([]);
+    const beadsDeps: Record<string, string[]> = { 'bd-2': ['bd-1'], 'bd-3': ['bd-2'] };
+    const cli = makeNumberingCli();
+    cli.show.mockImplementation(async (id: string) => makeIssue(id, { dependencies: beadsDeps[id] ?? [] }));
+    const result = await syncProject({
+      tasksFile: file,
+      backend: cli as any,
+      mapper: first.mapper,
+      update: true,
+      reduceDependencies: true,
+      previous: first.projects,
+    });
+
+    // Only task 2 changed, but 3 → 1 is no longer implied through it
+    expect(cli.removeDependency.mock.calls).toEqual([['bd-2', 'bd-1']]);
+    expect(cli.addDependency.mock.calls).toEqual([['bd-3', 'bd-1']]);
+    expect(result.mapper.forTag('master').getReducedDependencies()).toEqual([]);
+  });
+
+  it('reconciles only tasks changed since the previous run', async () => {
+    const mapFile = path.join(tmpDir, 'incremental-map.json');
+    const first = await syncProject({ tasksFile, backend: makeNumberingCli() as any, mapFile });
+
+    const changedFile = path.join(tmpDir, 'changed.json');
+    const tasks = [
+      makeTask({ id: 1, subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending' }] }),
+      makeTask({ id: 2, dependencies: [1], status: 'done', title: 'Renamed' }),
+    ];
+    await fs.writeFile(changedFile, JSON.stringify({ master: { tasks } }));
+
+    const cli = makeNumberingCli();
+    cli.show.mockImplementation(async (id: string) => makeIssue(id));
+    const result = await syncProject({
+      tasksFile: changedFile,
+      backend: cli as any,
+      mapper: await IdMapper.load(mapFile),
+      update: true,
+      previous: first.projects,
+    });
+
+    expect(result.changes).toEqual([{ tag: 'master', kind: 'changed', taskId: 2, fields: ['title'] }]);
+    expect(cli.show.mock.calls.map(([id]) => id)).toEqual(['bd-2']);
+    expect(cli.updateIssue).toHaveBeenCalledWith('bd-2', expect.objectContaining({ title: 'Renamed' }));
+  });
+});
+
+describe('task-filter', () => {
+  // 1 ← 2 ← 3, 4 done on its own, and 5.1 waits on 2
+  const project = {
+    tag: 'master',
+    tasks: [
+      makeTask({ id: 1 }),
+      makeTask({ id: 2, dependencies: [1] }),
+      makeTask({ id: 3, dependencies: [2] }),
+      makeTask({ id: 4, status: 'done' }),
+      makeTask({
+        id: 5,
+        subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending', dependencies: [{ taskId: 2 }] }],
+      }),
+    ],
+  };
+
+  it('brings back prerequisites, transitively and through subtasks', () => {
+    const filtered = filterProject(project, { only: [3, 5] });
+    expect(filtered.project.tasks.map((t) => t.id)).toEqual([1, 2, 3, 5]);
+    expect(filtered).toMatchObject({ total: 5, included: [1, 2], dropped: [] });
+  });
+
+  it('drops edges leaving the selection, or fails on them', () => {
+    const filtered = filterProject(project, { exclude: [2], skipDone: true, outsideDependencies: 'drop' });
+    expect(filtered.project.tasks.map((t) => t.id)).toEqual([1, 3, 5]);
+    expect(filtered.project.tasks[1].dependencies).toEqual([]);
+    expect(filtered.project.tasks[2].subtasks![0].dependencies).toEqual([]);
+    expect(filtered.dropped).toEqual([
+      { ref: 'master:3', dependsOn: 'master:2' },
+      { ref: 'master:5.1', dependsOn: 'master:2' },
+    ]);
+
+    expect(() => filterProject(project, { statuses: ['pending'], only: [3], outsideDependencies: 'fail' })).toThrow(
+      'master:3 depends on master:2',
+    );
+  });
+});
+
+describe('task-diff', () => {
+  it('reports added, changed and removed tasks and subtasks', () => {
+    const before = [
+      {
+        tag: 'master',
+        tasks: [
+          makeTask({ id: 1, subtasks: [{ id: 1, title: 'S', description: 'D', status: 'pending' }] }),
+          makeTask({ id: 2 }),
+        ],
+      },
+    ];
+    const after = [
+      {
+        tag: 'master',
+        tasks: [
+          makeTask({
+            id: 1,
+            status: 'done',
+            subtasks: [
+              { id: 1, title: 'S', description: 'D', status: 'done' },
+              { id: 2, title: 'New', description: 'D', status: 'pending' },
+            ],
+          }),
+          makeTask({ id: 3 }),
+        ],
+      },
+    ];
+    expect(diffProjects(before, after)).toEqual([
+      { tag: 'master', kind: 'changed', taskId: 1, fields: ['status'] },
+      { tag: 'master', kind: 'changed', taskId: 1, subtaskId: 1, fields: ['status'] },
+      { tag: 'master', kind: 'added', taskId: 1, subtaskId: 2, fields: [] },
+      { tag: 'master', kind: 'added', taskId: 3, fields: [] },
+      { tag: 'master', kind: 'removed', taskId: 2, fields: [] },
+    ]);
+  });
+
+  it('reports nothing for identical projects', () => {
+    const projects = [{ tasks: [makeTask({ id: 1 })] }];
+    expect(diffProjects(projects, structuredClone(projects))).toEqual([]);
+  });
+});
+
+describe('watcher', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-watch-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true });
+  });
+
+  it('syncs on start and after each change, surviving invalid files', async () => {
+    const tasksFile = path.join(tmpDir, 'tasks.json');
+    const writeTasks = (tasks: TaskMasterTask[]) =>
+      fs.writeFile(tasksFile, JSON.stringify({ master: { tasks } }));
+    await writeTasks([makeTask({ id: 1 })]);
+
+    const cli = makeMockCli();
+    let n = 0;
+    cli.createEpic.mockImplementation(async () => ({ id: `bd-${++n}`, title: 'T' }));
+    cli.show.mockImplementation(async (id: string) => makeIssue(id));
+
+    const events: WatchEvent[] = [];
+    let notify = () => {};
+    const settled = () =>
+      new Promise<WatchEvent>((resolve) => {
+        notify = () => resolve(events[events.length - 1]);
       });
-      await syncAllStatuses([task], cli as any, mapper);
-      expect(cli.close).toHaveBeenCalledWith('bd-1.1');
+    const watcher = watchProject({
+      tasksFile,
+      backend: cli as any,
+      mapFile: path.join(tmpDir, 'map.json'),
+      debounceMs: 20,
+      onEvent: (event) => {
+        events.push(event);
+        if (event.type === 'sync-finished' || event.type === 'sync-failed') notify();
+      },
+    });
+
+    try {
+      await watcher.ready;
+      expect(events.find((e) => e.type === 'sync-finished')).toBeDefined();
+      expect(cli.createEpic).toHaveBeenCalledTimes(1);
+
+      let next = settled();
+      await fs.writeFile(tasksFile, '{"master":');
+      expect((await next).type).toBe('sync-failed');
+
+      next = settled();
+      await writeTasks([makeTask({ id: 1 }), makeTask({ id: 2, dependencies: [1] })]);
+      const finished = await next;
+      expect(finished.type).toBe('sync-finished');
+      expect(events).toContainEqual({
+        type: 'task-changed',
+        change: { tag: 'master', kind: 'added', taskId: 2, fields: [] },
+      });
+      expect(cli.createEpic).toHaveBeenCalledTimes(2);
+      expect(cli.addDependency).toHaveBeenCalledWith('bd-2', 'bd-1');
+    } finally {
+      await watcher.close();
+    }
+  });
+});
+
+describe('undo', () => {
+  function makeMapper() {
+    const mapper = new IdMapper();
+    const v1 = mapper.forTag('v1');
+    v1.setTagEpicId('bd-tag');
+    v1.addEpic(1, 'bd-1');
+    v1.addSubtask(1, 1, 'bd-1.1');
+    v1.addEpic(2, 'bd-2');
+    mapper.recordDependency('bd-2', 'bd-1');
+    return mapper;
+  }
+
+  it('removes dependencies, then children, epics and tag epics', async () => {
+    const cli = makeMockCli();
+    const mapper = makeMapper();
+
+    const summary = await undoImport(cli as any, mapper);
+
+    expect(summary).toEqual({ removed: 4, dependenciesRemoved: 1, failed: [] });
+    expect(cli.removeDependency).toHaveBeenCalledWith('bd-2', 'bd-1');
+    expect(cli.deleteIssue.mock.calls.map(([id]) => id)).toEqual(['bd-1.1', 'bd-1', 'bd-2', 'bd-tag']);
+    expect(mapper.getIssues()).toEqual([]);
+  });
+
+  it('counts a dependency that is already gone as removed', async () => {
+    const cli = makeMockCli();
+    cli.removeDependency.mockRejectedValue(new BeadsNotFoundError('dependency bd-2 → bd-1 not found'));
+    const mapper = makeMapper();
+
+    const summary = await undoImport(cli as any, mapper);
+
+    expect(summary).toEqual({ removed: 4, dependenciesRemoved: 1, failed: [] });
+    expect(mapper.getDependencies()).toEqual([]);
+  });
+
+  it('does not take any error that says "not found" for a dependency already gone', async () => {
+    const cli = makeMockCli();
+    cli.removeDependency.mockRejectedValue(new Error('bd: config file not found'));
+    const mapper = makeMapper();
+
+    const summary = await undoImport(cli as any, mapper);
+
+    expect(summary.dependenciesRemoved).toBe(0);
+    expect(summary.failed).toContainEqual({ target: 'bd-2 → bd-1', message: 'bd: config file not found' });
+  });
+
+  it('closes and labels instead with soft', async () => {
+    const cli = makeMockCli();
+    await undoImport(cli as any, makeMapper(), { soft: true });
+    expect(cli.deleteIssue).not.toHaveBeenCalled();
+    expect(cli.close).toHaveBeenCalledTimes(4);
+    expect(cli.addLabel).toHaveBeenCalledWith('bd-1.1', UNDONE_LABEL);
+  });
+
+  it('keeps parents of children that could not be removed', async () => {
+    const cli = makeMockCli();
+    cli.deleteIssue.mockImplementation(async (id: string) => {
+      if (id === 'bd-1.1') throw new Error('locked');
+    });
+    const mapper = makeMapper();
+
+    const summary = await undoImport(cli as any, mapper);
+
+    expect(summary.removed).toBe(1);
+    expect(summary.failed.map((f) => f.target)).toEqual(['bd-1.1', 'bd-1', 'bd-tag']);
+    expect(cli.deleteIssue.mock.calls.map(([id]) => id)).toEqual(['bd-1.1', 'bd-2']);
+    expect(mapper.getIssues().map((i) => i.beadsId)).toEqual(['bd-tag', 'bd-1', 'bd-1.1']);
+  });
+
+  it('archives the mapping file next to it', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-undo-'));
+    try {
+      const mapFile = path.join(dir, 'tm2bd-map.json');
+      await fs.writeFile(mapFile, '{}');
+      const archived = await archiveMapping(mapFile);
+      expect(path.basename(archived)).toMatch(/^tm2bd-map\.undone-.+\.json$/);
+      expect(await IdMapper.exists(mapFile)).toBe(false);
+      expect(await fs.readFile(archived, 'utf-8')).toBe('{}');
+    } finally {
+      await fs.rm(dir, { recursive: true });
+    }
+  });
+});
+
+describe('verifier', () => {
+  function makeProject() {
+    return {
+      tag: 'master',
+      tasks: [
+        makeTask({ id: 1, status: 'done' }),
+        makeTask({
+          id: 2,
+          dependencies: [1],
+          subtasks: [{ id: 1, title: 'S', description: 'D', status: 'in-progress' }],
+        }),
+      ],
+    };
+  }
+
+  function makeMapper() {
+    const mapper = new IdMapper();
+    const master = mapper.forTag('master');
+    master.addEpic(1, 'bd-1');
+    master.addEpic(2, 'bd-2');
+    master.addSubtask(2, 1, 'bd-2.1');
+    return mapper;
+  }
+
+  it('reports nothing when Beads matches tasks.json', async () => {
+    const cli = makeMockCli();
+    cli.show.mockImplementation(async (id: string) =>
+      ({
+        'bd-1': makeIssue('bd-1', { status: 'closed' }),
+        'bd-2': makeIssue('bd-2', { dependencies: ['bd-1'], status: 'in_progress' }),
+        'bd-2.1': makeIssue('bd-2.1', { title: 'S', status: 'in_progress' }),
+      })[id],
+    );
+
+    const report = await verifyProjects([makeProject()], cli as any, makeMapper());
+
+    // A pending task accepts whatever status Beads has
+    expect(report).toEqual({ checked: 3, drift: [] });
+  });
+
+  it('reports field, dependency and mapping drift', async () => {
+    const cli = makeMockCli();
+    cli.show.mockImplementation(async (id: string) => {
+      if (id === 'bd-2.1') throw new Error('no issue found');
+      return {
+        'bd-1': makeIssue('bd-1', { title: 'Edited', priority: 3, dependencies: ['bd-2', 'bd-manual'] }),
+        'bd-2': makeIssue('bd-2'),
+        'bd-9': makeIssue('bd-9'),
+      }[id];
     });
+    const mapper = makeMapper();
+    mapper.forTag('master').addEpic(9, 'bd-9');
+    const project = makeProject();
+    project.tasks.push(makeTask({ id: 3 }));
+
+    const report = await verifyProjects([project], cli as any, mapper);
+
+    expect(report.checked).toBe(3);
+    expect(report.drift).toEqual([
+      { kind: 'title', ref: 'master:1', beadsId: 'bd-1', expected: 'Test task', actual: 'Edited' },
+      { kind: 'priority', ref: 'master:1', beadsId: 'bd-1', expected: 0, actual: 3 },
+      { kind: 'status', ref: 'master:1', beadsId: 'bd-1', expected: 'closed', actual: 'open' },
+      { kind: 'missing-issue', ref: 'master:2.1', beadsId: 'bd-2.1', reason: 'no issue found' },
+      { kind: 'unmapped-task', ref: 'master:3' },
+      { kind: 'extra-dependency', ref: 'master:1', beadsId: 'bd-1', blocking: 'bd-2' },
+      { kind: 'missing-dependency', ref: 'master:2', beadsId: 'bd-2', blocking: 'bd-1' },
+      { kind: 'orphaned-mapping', ref: 'master:9', beadsId: 'bd-9' },
+    ]);
+    expect(describeDrift(report.drift[2])).toBe('master:1 (bd-1) status is "open", expected "closed"');
+  });
+
+  it('accepts an edge --reduce-deps left out while a chain still implies it', async () => {
+    const cli = makeMockCli();
+    const project = makeProject();
+    project.tasks.push(makeTask({ id: 3, dependencies: [1, 2] }));
+    const mapper = makeMapper();
+    mapper.forTag('master').addEpic(3, 'bd-3');
+    mapper.forTag('master').setReducedDependencies([{ blocked: 'master:3', blocking: 'master:1', via: ['master:2'] }]);
+    const issues: Record<string, ReturnType<typeof makeIssue>> = {
+      'bd-1': makeIssue('bd-1', { status: 'closed' }),
+      'bd-2': makeIssue('bd-2', { dependencies: ['bd-1'] }),
+      'bd-2.1': makeIssue('bd-2.1', { title: 'S', status: 'in_progress' }),
+      'bd-3': makeIssue('bd-3', { dependencies: ['bd-2'] }),
+    };
+    cli.show.mockImplementation(async (id: string) => issues[id]);
+
+    expect((await verifyProjects([project], cli as any, mapper)).drift).toEqual([]);
+
+    // Once the chain breaks, the reduced edge is missing again
+    issues['bd-2'] = makeIssue('bd-2');
+    expect((await verifyProjects([project], cli as any, mapper)).drift).toEqual([
+      { kind: 'missing-dependency', ref: 'master:2', beadsId: 'bd-2', blocking: 'bd-1' },
+      { kind: 'missing-dependency', ref: 'master:3', beadsId: 'bd-3', blocking: 'bd-1' },
+    ]);
   });
 });
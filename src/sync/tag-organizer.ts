@@ -0,0 +1,73 @@
+import type { BeadsBackend } from '../beads/backend.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { mapPriority } from './epic-creator.js';
+import { PROVENANCE_LABEL, tagLabel } from './labeler.js';
+import { DEFAULT_MAPPING_RULES } from './mapping-rules.js';
+import type { MappingRules } from './mapping-rules.js';
+
+/** How a task-master tag is made visible in Beads. */
+export type TagMode = 'label' | 'epic';
+
+export const TAG_MODES: TagMode[] = ['label', 'epic'];
+
+function formatTagEpicDescription(tag: string): string {
+  return [
+    '## Description',
+    `Umbrella epic for the task-master tag "${tag}".`,
+    '',
+    '## Metadata',
+    `- Task-Master Tag: ${tag}`,
+  ].join('\n');
+}
+
+/**
+ * Create the umbrella epic for a tag unless the mapping already has one.
+ * Epics created afterwards through the same scoped mapper nest under it.
+ */
+export async function ensureTagEpic(
+  tag: string,
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+): Promise<string> {
+  const existing = mapper.getTagEpicId();
+  if (existing) return existing;
+
+  const priority = mapPriority('medium', undefined, rules);
+  const result = await backend.createEpic(tag, formatTagEpicDescription(tag), priority);
+  mapper.setTagEpicId(result.id);
+  await mapper.checkpoint();
+  if (rules.labels.provenance) {
+    await backend.addLabel(result.id, PROVENANCE_LABEL);
+    mapper.recordLabel(result.id, PROVENANCE_LABEL);
+    await mapper.checkpoint();
+  }
+  return result.id;
+}
+
+/**
+ * Label every issue mapped for the scoped mapper's tag. Issues the journal
+ * shows as already labeled are skipped; returns how many were labeled.
+ */
+export async function labelTagIssues(
+  tag: string,
+  backend: BeadsBackend,
+  mapper: IdMapper,
+): Promise<number> {
+  const label = tagLabel(tag);
+  const issueIds = mapper
+    .getMappings()
+    .flatMap((task) => [task.beadsId, ...task.subtasks.map((s) => s.beadsId)]);
+
+  let count = 0;
+  for (const issueId of issueIds) {
+    if (mapper.hasLabel(issueId, label)) continue;
+    await backend.addLabel(issueId, label);
+    mapper.recordLabel(issueId, label);
+    await mapper.checkpoint();
+    count++;
+  }
+  return count;
+}
+
+export { tagLabel, formatTagEpicDescription };
@@ -0,0 +1,90 @@
+import type { TaggedProject, TaskMasterSubtask, TaskMasterTask } from '../schemas/taskmaster.js';
+
+/** A task or subtask that differs between two reads of tasks.json. */
+export interface TaskChange {
+  tag?: string;
+  kind: 'added' | 'changed' | 'removed';
+  taskId: number;
+  subtaskId?: number;
+  /** Fields whose value differs; empty unless `kind` is 'changed'. */
+  fields: string[];
+}
+
+function changedFields<T extends object>(before: T, after: T, ignore: string[] = []): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter((key) => !ignore.includes(key))
+    .filter(
+      (key) =>
+        JSON.stringify((before as Record<string, unknown>)[key]) !==
+        JSON.stringify((after as Record<string, unknown>)[key]),
+    )
+    .sort();
+}
+
+function diffSubtasks(
+  tag: string | undefined,
+  taskId: number,
+  before: TaskMasterSubtask[],
+  after: TaskMasterSubtask[],
+): TaskChange[] {
+  const changes: TaskChange[] = [];
+  const previous = new Map(before.map((s) => [s.id, s]));
+  const current = new Set(after.map((s) => s.id));
+
+  for (const subtask of after) {
+    const old = previous.get(subtask.id);
+    if (!old) {
+      changes.push({ tag, kind: 'added', taskId, subtaskId: subtask.id, fields: [] });
+      continue;
+    }
+    const fields = changedFields(old, subtask);
+    if (fields.length > 0) {
+      changes.push({ tag, kind: 'changed', taskId, subtaskId: subtask.id, fields });
+    }
+  }
+  for (const subtask of before) {
+    if (!current.has(subtask.id)) {
+      changes.push({ tag, kind: 'removed', taskId, subtaskId: subtask.id, fields: [] });
+    }
+  }
+
+  return changes;
+}
+
+function diffTasks(tag: string | undefined, before: TaskMasterTask[], after: TaskMasterTask[]): TaskChange[] {
+  const changes: TaskChange[] = [];
+  const previous = new Map(before.map((t) => [t.id, t]));
+  const current = new Set(after.map((t) => t.id));
+
+  for (const task of after) {
+    const old = previous.get(task.id);
+    if (!old) {
+      changes.push({ tag, kind: 'added', taskId: task.id, fields: [] });
+      continue;
+    }
+    // Subtasks are reported one by one rather than as a changed field
+    const fields = changedFields(old, task, ['subtasks']);
+    if (fields.length > 0) {
+      changes.push({ tag, kind: 'changed', taskId: task.id, fields });
+    }
+    changes.push(...diffSubtasks(tag, task.id, old.subtasks ?? [], task.subtasks ?? []));
+  }
+  for (const task of before) {
+    if (!current.has(task.id)) {
+      changes.push({ tag, kind: 'removed', taskId: task.id, fields: [] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * List the tasks and subtasks added, changed or removed between two
+ * parses of the same tasks.json. Tags missing from `previous` count as
+ * entirely added.
+ */
+export function diffProjects(previous: TaggedProject[], current: TaggedProject[]): TaskChange[] {
+  const before = new Map(previous.map((p) => [p.tag, p.tasks]));
+  return current.flatMap((project) => diffTasks(project.tag, before.get(project.tag) ?? [], project.tasks));
+}
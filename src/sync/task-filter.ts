@@ -0,0 +1,131 @@
+import type { TaggedProject, TaskMasterStatus, TaskMasterTask } from '../schemas/taskmaster.js';
+import { taskRef } from '../plan/planner.js';
+import { Tm2bdError } from '../errors.js';
+
+/** What to do with a dependency on a task the filter left out. */
+export type OutsideDependencyPolicy = 'include' | 'drop' | 'fail';
+
+export const OUTSIDE_DEPENDENCY_POLICIES: OutsideDependencyPolicy[] = ['include', 'drop', 'fail'];
+
+/** Which tasks of a project to sync; subtasks always go with their task. */
+export interface TaskFilter {
+  /** Only these task IDs. */
+  only?: number[];
+  /** Never these task IDs. */
+  exclude?: number[];
+  /** Only tasks with one of these statuses. */
+  statuses?: TaskMasterStatus[];
+  /** Leave out done tasks. */
+  skipDone?: boolean;
+  /** `include` by default: pull prerequisites back in, however filtered. */
+  outsideDependencies?: OutsideDependencyPolicy;
+}
+
+/** A dependency edge that pointed outside the selection and was removed. */
+export interface DroppedDependency {
+  /** task-master reference of the dependent task or subtask. */
+  ref: string;
+  /** Reference of the task or subtask it depended on. */
+  dependsOn: string;
+}
+
+export interface FilteredProject {
+  project: TaggedProject;
+  /** Tasks in the file before filtering. */
+  total: number;
+  /** IDs of prerequisites the filter left out but the `include` policy brought back. */
+  included: number[];
+  dropped: DroppedDependency[];
+}
+
+export function isTaskFilterActive(filter: TaskFilter): boolean {
+  return (
+    filter.only !== undefined ||
+    filter.exclude !== undefined ||
+    filter.statuses !== undefined ||
+    filter.skipDone === true
+  );
+}
+
+function matches(task: TaskMasterTask, filter: TaskFilter): boolean {
+  if (filter.only && !filter.only.includes(task.id)) return false;
+  if (filter.exclude?.includes(task.id)) return false;
+  if (filter.statuses && !filter.statuses.includes(task.status)) return false;
+  if (filter.skipDone && task.status === 'done') return false;
+  return true;
+}
+
+/** Task IDs a task or any of its subtasks depends on, its own ID aside. */
+function prerequisites(task: TaskMasterTask): number[] {
+  const subtaskDeps = (task.subtasks ?? []).flatMap((s) => (s.dependencies ?? []).map((ref) => ref.taskId));
+  return [...task.dependencies, ...subtaskDeps].filter((id) => id !== task.id);
+}
+
+/**
+ * Narrow a project to the tasks a filter selects, before it is validated
+ * and sorted. Dependencies on tasks the file holds but the filter left
+ * out are settled by the policy: `include` selects those tasks too,
+ * transitively; `drop` removes the edges; `fail` throws. Dependencies on
+ * tasks missing from the file are kept for validation to report.
+ */
+export function filterProject(project: TaggedProject, filter: TaskFilter): FilteredProject {
+  const { tag } = project;
+  const policy = filter.outsideDependencies ?? 'include';
+  const byId = new Map(project.tasks.map((task) => [task.id, task]));
+  const selected = new Set(project.tasks.filter((task) => matches(task, filter)).map((task) => task.id));
+
+  const included: number[] = [];
+  if (policy === 'include') {
+    const queue = [...selected];
+    while (queue.length > 0) {
+      for (const depId of prerequisites(byId.get(queue.shift()!)!)) {
+        if (selected.has(depId) || !byId.has(depId)) continue;
+        selected.add(depId);
+        included.push(depId);
+        queue.push(depId);
+      }
+    }
+  }
+
+  // Only tasks the file holds but the selection lacks are outside
+  const outside = (taskId: number) => byId.has(taskId) && !selected.has(taskId);
+  const dropped: DroppedDependency[] = [];
+  const tasks = project.tasks
+    .filter((task) => selected.has(task.id))
+    .map((task) => {
+      const ref = taskRef(tag, task.id);
+      for (const depId of task.dependencies.filter(outside)) {
+        dropped.push({ ref, dependsOn: taskRef(tag, depId) });
+      }
+      const subtasks = task.subtasks?.map((subtask) => {
+        const deps = subtask.dependencies ?? [];
+        const childRef = taskRef(tag, task.id, subtask.id);
+        for (const dep of deps.filter((d) => outside(d.taskId))) {
+          dropped.push({ ref: childRef, dependsOn: taskRef(tag, dep.taskId, dep.subtaskId) });
+        }
+        return deps.some((d) => outside(d.taskId))
+          ? { ...subtask, dependencies: deps.filter((d) => !outside(d.taskId)) }
+          : subtask;
+      });
+      return {
+        ...task,
+        dependencies: task.dependencies.filter((depId) => !outside(depId)),
+        ...(subtasks && { subtasks }),
+      };
+    });
+
+  if (policy === 'fail' && dropped.length > 0) {
+    const edges = dropped.map((d) => `  ${d.ref} depends on ${d.dependsOn}`).join('\n');
+    throw new Tm2bdError(
+      `Selected tasks depend on tasks outside the selection:\n${edges}\nWiden the selection or use --outside-deps include or drop.`,
+      'validation',
+    );
+  }
+
+  return {
+    project: { ...project, tasks },
+    total: project.tasks.length,
+    included: included.sort((a, b) => a - b),
+    dropped,
+  };
+}
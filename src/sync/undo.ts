@@ -0,0 +1,122 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { BeadsBackend } from '../beads/backend.js';
+import type { IdMapper, MappedIssue } from '../mapping/id-mapper.js';
+import { BeadsNotFoundError } from '../errors.js';
+
+/** Put on issues a soft undo closes instead of deleting. */
+export const UNDONE_LABEL = 'tm2bd-undone';
+
+export interface UndoOptions {
+  /** Close and label the issues instead of deleting them. */
+  soft?: boolean;
+  /** Undo only these issues; everything mapped otherwise. */
+  only?: Set<string>;
+  onProgress?: (issue: MappedIssue, current: number, total: number) => void;
+}
+
+export interface UndoFailure {
+  /** The issue, or `blocked → blocking` for a dependency. */
+  target: string;
+  message: string;
+}
+
+export interface UndoSummary {
+  /** Issues deleted, or closed with `soft`. */
+  removed: number;
+  dependenciesRemoved: number;
+  failed: UndoFailure[];
+}
+
+const KIND_ORDER: Record<MappedIssue['kind'], number> = { child: 0, epic: 1, 'tag-epic': 2 };
+
+function parentOf(issue: MappedIssue, mapper: IdMapper): string | undefined {
+  const tagMapper = mapper.forTag(issue.tag);
+  switch (issue.kind) {
+    case 'child':
+      return tagMapper.getEpicId(issue.taskId!);
+    case 'epic':
+      return tagMapper.getTagEpicId();
+    case 'tag-epic':
+      return undefined;
+  }
+}
+
+/**
+ * Remove issues tm2bd created: first the dependencies it wired between
+ * them, then children before epics before tag epics. Each issue leaves the
+ * mapping as soon as it is gone, so after a partial failure the mapping
+ * holds exactly what is left to undo. A parent whose children could not
+ * be removed is kept.
+ */
+export async function undoImport(
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  options: UndoOptions = {},
+): Promise<UndoSummary> {
+  const summary: UndoSummary = { removed: 0, dependenciesRemoved: 0, failed: [] };
+  const issues = mapper
+    .getIssues()
+    .filter((issue) => !options.only || options.only.has(issue.beadsId))
+    .sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+  const ids = new Set(issues.map((issue) => issue.beadsId));
+  const fail = (target: string, error: unknown) =>
+    summary.failed.push({ target, message: error instanceof Error ? error.message : String(error) });
+
+  const dependencies = mapper
+    .getDependencies()
+    .filter((d) => ids.has(d.blocked) || ids.has(d.blocking));
+  for (const { blocked, blocking } of dependencies) {
+    try {
+      try {
+        await backend.removeDependency(blocked, blocking);
+      } catch (error) {
+        // Already gone, by hand or with one of its issues: nothing left to undo
+        if (!(error instanceof BeadsNotFoundError)) throw error;
+      }
+      mapper.forgetDependency(blocked, blocking);
+      await mapper.checkpoint();
+      summary.dependenciesRemoved++;
+    } catch (error) {
+      fail(`${blocked} → ${blocking}`, error);
+    }
+  }
+
+  const kept = new Set<string>();
+  for (let i = 0; i < issues.length; i++) {
+    const issue = issues[i];
+    const parentId = parentOf(issue, mapper);
+    try {
+      if (kept.has(issue.beadsId)) {
+        throw new Error('Kept because some of its children could not be removed');
+      }
+      if (options.soft) {
+        await backend.close(issue.beadsId);
+        await backend.addLabel(issue.beadsId, UNDONE_LABEL);
+      } else {
+        await backend.deleteIssue(issue.beadsId);
+      }
+      mapper.forgetIssue(issue.beadsId);
+      await mapper.checkpoint();
+      summary.removed++;
+    } catch (error) {
+      fail(issue.beadsId, error);
+      if (parentId) kept.add(parentId);
+    }
+    options.onProgress?.(issue, i + 1, issues.length);
+  }
+
+  return summary;
+}
+
+/**
+ * Move an undone mapping aside as `<name>.undone-<time>.json` so a new
+ * sync starts fresh but the record of what was removed is kept.
+ */
+export async function archiveMapping(mapFile: string): Promise<string> {
+  const { dir, name, ext } = path.parse(mapFile);
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const archived = path.join(dir, `${name}.undone-${stamp}${ext || '.json'}`);
+  await fs.rename(mapFile, archived);
+  return archived;
+}
@@ -0,0 +1,246 @@
+import type { TaggedProject, TaskMasterTask } from '../schemas/taskmaster.js';
+import type { BeadsBackend, BeadsIssue } from '../beads/backend.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { tagEpicRef, taskRef } from '../plan/planner.js';
+import { mapPriority } from './epic-creator.js';
+import { criticalTaskIds } from '../graph/schedule.js';
+import { mapStatus } from './status-syncer.js';
+import { propagateLeafDependencies } from './dependency-wirer.js';
+import { DEFAULT_MAPPING_RULES } from './mapping-rules.js';
+import type { MappingRules } from './mapping-rules.js';
+
+export type DriftKind =
+  | 'missing-issue'
+  | 'unmapped-task'
+  | 'orphaned-mapping'
+  | 'status'
+  | 'title'
+  | 'priority'
+  | 'missing-dependency'
+  | 'extra-dependency';
+
+/** One way Beads, the mapping and tasks.json disagree. */
+export interface Drift {
+  kind: DriftKind;
+  /** task-master reference, e.g. `master:3.2`, or `@tag` for a tag epic. */
+  ref: string;
+  beadsId?: string;
+  /** What tasks.json says Beads should hold. */
+  expected?: string | number;
+  /** What Beads holds instead. */
+  actual?: string | number;
+  /** The other end of a dependency edge, as a Beads ID. */
+  blocking?: string;
+  /** Why an issue could not be read, for `missing-issue`. */
+  reason?: string;
+}
+
+export interface VerifyReport {
+  /** Mapped issues that were queried. */
+  checked: number;
+  drift: Drift[];
+}
+
+/** One-line account of a drift entry for text output. */
+export function describeDrift(drift: Drift): string {
+  const issue = drift.beadsId ? ` (${drift.beadsId})` : '';
+  switch (drift.kind) {
+    case 'missing-issue':
+      return `${drift.ref}${issue} is mapped but not in Beads${drift.reason ? `: ${drift.reason}` : ''}`;
+    case 'unmapped-task':
+      return `${drift.ref} has no Beads issue in the mapping`;
+    case 'orphaned-mapping':
+      return `${drift.ref}${issue} is mapped but no longer in tasks.json`;
+    case 'status':
+    case 'title':
+    case 'priority':
+      return `${drift.ref}${issue} ${drift.kind} is ${JSON.stringify(drift.actual)}, expected ${JSON.stringify(drift.expected)}`;
+    case 'missing-dependency':
+      return `${drift.ref}${issue} should be blocked by ${drift.blocking}`;
+    case 'extra-dependency':
+      return `${drift.ref}${issue} is blocked by ${drift.blocking}, which tasks.json does not list`;
+  }
+}
+
+const edgeKey = (blocked: string, blocking: string) => `${blocked}\0${blocking}`;
+
+/** Beads status tasks.json asks for, or undefined when any status will do. */
+function expectedStatus(tmStatus: string, rules: MappingRules): string | undefined {
+  // Like sync, a status with no Beads equivalent (pending) accepts
+  // whatever progress was made directly in Beads
+  const { status, close } = mapStatus(tmStatus, rules);
+  return close ? 'closed' : status;
+}
+
+/**
+ * Compare every mapped issue with the tasks it came from: issues missing
+ * from Beads, tasks and mappings without a counterpart, and status, title,
+ * priority and dependency differences. Like sync, only edges between
+ * tm2bd-managed issues count; anything else was added by hand. An edge
+ * `--reduce-deps` left out is satisfied by any chain of Beads edges that
+ * still implies it. Beads is only read.
+ */
+export async function verifyProjects(
+  projects: TaggedProject[],
+  backend: BeadsBackend,
+  mapper: IdMapper,
+  rules: MappingRules = DEFAULT_MAPPING_RULES,
+): Promise<VerifyReport> {
+  const report: VerifyReport = { checked: 0, drift: [] };
+  const issues = new Map<string, BeadsIssue>();
+
+  async function fetch(ref: string, beadsId: string): Promise<BeadsIssue | undefined> {
+    report.checked++;
+    try {
+      const issue = await backend.show(beadsId);
+      issues.set(beadsId, issue);
+      return issue;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      report.drift.push({ kind: 'missing-issue', ref, beadsId, reason });
+      return undefined;
+    }
+  }
+
+  function compare(
+    ref: string,
+    issue: BeadsIssue,
+    kind: 'status' | 'title' | 'priority',
+    expected: string | number | undefined,
+  ): void {
+    if (expected === undefined || issue[kind] === expected) return;
+    report.drift.push({ kind, ref, beadsId: issue.id, expected, actual: issue[kind] });
+  }
+
+  /** Whether `blockingId` is reachable from `blockedId` over mapped Beads edges. */
+  function blockedTransitively(blockedId: string, blockingId: string): boolean {
+    const seen = new Set<string>();
+    const queue = [blockedId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (id === blockingId) return true;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      queue.push(...(issues.get(id)?.dependencies.filter((dep) => mapper.hasBeadsId(dep)) ?? []));
+    }
+    return false;
+  }
+
+  function compareEdges(
+    ref: string,
+    blockedId: string,
+    wanted: { ref: string; beadsId?: string }[],
+    reduced: ReadonlySet<string>,
+  ): void {
+    const issue = issues.get(blockedId);
+    if (!issue) return;
+    // Unmapped blockers are already reported as unmapped tasks
+    const desired = new Set(wanted.map((w) => w.beadsId).filter((id): id is string => id !== undefined));
+    const current = new Set(issue.dependencies.filter((id) => mapper.hasBeadsId(id)));
+    for (const { ref: blockingRef, beadsId: blocking } of wanted) {
+      if (!blocking || current.has(blocking)) continue;
+      // --reduce-deps left the edge for a longer chain to imply
+      if (reduced.has(edgeKey(ref, blockingRef)) && blockedTransitively(blockedId, blocking)) continue;
+      report.drift.push({ kind: 'missing-dependency', ref, beadsId: blockedId, blocking });
+    }
+    for (const blocking of current) {
+      if (!desired.has(blocking)) {
+        report.drift.push({ kind: 'extra-dependency', ref, beadsId: blockedId, blocking });
+      }
+    }
+  }
+
+  for (const loaded of projects) {
+    const project = rules.leafDependencies ? propagateLeafDependencies(loaded) : loaded;
+    const { tag } = project;
+    const tagMapper = mapper.forTag(tag);
+    const tagEpicId = tagMapper.getTagEpicId();
+    if (tagEpicId) await fetch(tagEpicRef(tag!), tagEpicId);
+    const critical = rules.raiseCriticalPath ? criticalTaskIds(project.tasks) : new Set<number>();
+    const reduced = new Set(tagMapper.getReducedDependencies().map((d) => edgeKey(d.blocked, d.blocking)));
+
+    for (const task of project.tasks) {
+      const ref = taskRef(tag, task.id);
+      const epicId = tagMapper.getEpicId(task.id);
+      if (!epicId) {
+        report.drift.push({ kind: 'unmapped-task', ref });
+      } else {
+        const issue = await fetch(ref, epicId);
+        if (issue) {
+          compare(ref, issue, 'title', task.title);
+          compare(ref, issue, 'priority', mapPriority(task.priority, task.complexity, rules, critical.has(task.id)));
+          compare(ref, issue, 'status', expectedStatus(task.status, rules));
+        }
+      }
+
+      for (const subtask of task.subtasks ?? []) {
+        const childRef = taskRef(tag, task.id, subtask.id);
+        const childId = tagMapper.getSubtaskId(task.id, subtask.id);
+        if (!childId) {
+          report.drift.push({ kind: 'unmapped-task', ref: childRef });
+          continue;
+        }
+        const issue = await fetch(childRef, childId);
+        if (issue) {
+          compare(childRef, issue, 'title', subtask.title);
+          compare(childRef, issue, 'status', expectedStatus(subtask.status, rules));
+        }
+      }
+    }
+
+    for (const task of project.tasks) {
+      const epicId = tagMapper.getEpicId(task.id);
+      if (epicId) {
+        compareEdges(
+          taskRef(tag, task.id),
+          epicId,
+          task.dependencies.map((depId) => ({ ref: taskRef(tag, depId), beadsId: tagMapper.getEpicId(depId) })),
+          reduced,
+        );
+      }
+      for (const subtask of task.subtasks ?? []) {
+        const childId = tagMapper.getSubtaskId(task.id, subtask.id);
+        if (!childId) continue;
+        compareEdges(
+          taskRef(tag, task.id, subtask.id),
+          childId,
+          (subtask.dependencies ?? []).map((dep) => ({
+            ref: taskRef(tag, dep.taskId, dep.subtaskId),
+            beadsId:
+              dep.subtaskId === undefined
+                ? tagMapper.getEpicId(dep.taskId)
+                : tagMapper.getSubtaskId(dep.taskId, dep.subtaskId),
+          })),
+          reduced,
+        );
+      }
+    }
+
+    report.drift.push(...orphanedMappings(tag, project.tasks, tagMapper));
+  }
+
+  return report;
+}
+
+function orphanedMappings(tag: string | undefined, tasks: TaskMasterTask[], tagMapper: IdMapper): Drift[] {
+  const drift: Drift[] = [];
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  for (const mapping of tagMapper.getMappings()) {
+    const task = byId.get(mapping.tmId);
+    if (!task) {
+      drift.push({ kind: 'orphaned-mapping', ref: taskRef(tag, mapping.tmId), beadsId: mapping.beadsId });
+      continue;
+    }
+    const subtaskIds = new Set((task.subtasks ?? []).map((s) => s.id));
+    for (const subtask of mapping.subtasks) {
+      if (!subtaskIds.has(subtask.tmId)) {
+        drift.push({
+          kind: 'orphaned-mapping',
+          ref: taskRef(tag, mapping.tmId, subtask.tmId),
+          beadsId: subtask.beadsId,
+        });
+      }
+    }
+  }
+  return drift;
+}
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import type { TaggedProject } from '../schemas/taskmaster.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { syncProject } from './sync-project.js';
+import type { SyncEvent, SyncProjectOptions, SyncProjectResult } from './sync-project.js';
+
+export const DEFAULT_DEBOUNCE_MS = 500;
+
+/** Everything {@link syncProject} reports, plus the watch loop's own events. */
+export type WatchEvent =
+  | SyncEvent
+  | { type: 'watching'; path: string }
+  | { type: 'sync-started'; initial: boolean }
+  | { type: 'sync-finished'; result: SyncProjectResult }
+  | { type: 'sync-failed'; message: string };
+
+export interface WatchProjectOptions
+  extends Omit<SyncProjectOptions, 'mapper' | 'mapFile' | 'update' | 'previous' | 'dryRun' | 'onEvent'> {
+  /** Loaded before and saved after every run. */
+  mapFile: string;
+  /** Quiet period after the last write before syncing. */
+  debounceMs?: number;
+  onEvent?: (event: WatchEvent) => void;
+}
+
+export interface ProjectWatcher {
+  /** Settles once the initial sync has succeeded or failed. */
+  ready: Promise<void>;
+  /** Stop watching, waiting for a sync in progress to finish. */
+  close(): Promise<void>;
+}
+
+/**
+ * Sync once, then keep Beads in step with the tasks file: every burst of
+ * writes is debounced into one run that reconciles only the tasks changed
+ * since the last successful run. A run that fails (typically a half-written
+ * or invalid file) is reported and the watcher carries on.
+ */
+export function watchProject(options: WatchProjectOptions): ProjectWatcher {
+  const emit = (event: WatchEvent) => options.onEvent?.(event);
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+
+  let previous: TaggedProject[] | undefined;
+  let lastContent: string | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> | undefined;
+  let pending = false;
+  let closed = false;
+
+  async function run(): Promise<void> {
+    try {
+      const content = await fsp.readFile(options.tasksFile, 'utf-8');
+      // Editors and task-master often rewrite the file without changing it
+      if (previous && content === lastContent) return;
+
+      emit({ type: 'sync-started', initial: previous === undefined });
+      const mapper = (await IdMapper.exists(options.mapFile))
+        ? await IdMapper.load(options.mapFile)
+        : undefined;
+      const result = await syncProject({
+        ...options,
+        mapper,
+        update: mapper !== undefined,
+        previous,
+        onEvent: emit,
+      });
+      previous = result.projects;
+      lastContent = content;
+      emit({ type: 'sync-finished', result });
+    } catch (error) {
+      emit({ type: 'sync-failed', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  function trigger(): void {
+    if (closed) return;
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = run().finally(() => {
+      running = undefined;
+      if (pending) {
+        pending = false;
+        trigger();
+      }
+    });
+  }
+
+  function schedule(): void {
+    clearTimeout(timer);
+    timer = setTimeout(trigger, debounceMs);
+  }
+
+  // Watch the directory: task-master may replace the file rather than
+  // write to it, which would orphan a watch on the file itself
+  const fileName = path.basename(options.tasksFile);
+  const watcher = fs.watch(path.dirname(path.resolve(options.tasksFile)), (_event, changed) => {
+    if (!changed || changed === fileName) schedule();
+  });
+  watcher.on('error', (error) => emit({ type: 'sync-failed', message: error.message }));
+  emit({ type: 'watching', path: options.tasksFile });
+
+  trigger();
+  const ready = running ?? Promise.resolve();
+
+  return {
+    ready,
+    async close() {
+      closed = true;
+      clearTimeout(timer);
+      watcher.close();
+      await running;
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { runConcurrently } from './concurrency.js';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe('runConcurrently', () => {
+  it('runs every job with at most `limit` in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const finished: number[] = [];
+    const jobs = [0, 1, 2, 3, 4].map((i) => async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await tick();
+      inFlight--;
+      finished.push(i);
+    });
+
+    await runConcurrently(jobs, 2);
+
+    expect(maxInFlight).toBe(2);
+    expect([...finished].sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('starts no new jobs after a failure and rethrows it', async () => {
+    const started: number[] = [];
+    const jobs = [0, 1, 2, 3].map((i) => async () => {
+      started.push(i);
+      await tick();
+      if (i === 0) throw new Error('job 0 failed');
+      await tick();
+    });
+
+    await expect(runConcurrently(jobs, 2)).rejects.toThrow('job 0 failed');
+    expect(started).toEqual([0, 1]);
+  });
+});
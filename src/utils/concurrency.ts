@@ -0,0 +1,26 @@
+/**
+ * Run `jobs` with at most `limit` in flight, starting them in order. After
+ * the first failure no further jobs are started; the ones already running
+ * are waited for and the first error is rethrown.
+ */
+export async function runConcurrently(jobs: (() => Promise<void>)[], limit: number): Promise<void> {
+  let next = 0;
+  let failed = false;
+  let firstError: unknown;
+
+  async function worker(): Promise<void> {
+    while (!failed && next < jobs.length) {
+      const job = jobs[next++];
+      try {
+        await job();
+      } catch (error) {
+        if (!failed) firstError = error;
+        failed = true;
+      }
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, jobs.length)) }, worker);
+  await Promise.all(workers);
+  if (failed) throw firstError;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parseTemplate, renderTemplate } from './template.js';
+
+describe('renderTemplate', () => {
+  it('inserts values and dotted paths', () => {
+    expect(renderTemplate('{{title}} of {{parent.title}}', { title: 'A', parent: { title: 'B' } })).toBe(
+      'A of B',
+    );
+  });
+
+  it('renders missing values as nothing and joins arrays', () => {
+    expect(renderTemplate('[{{nope}}] {{deps}}', { deps: [1, '2.3'] })).toBe('[] 1, 2.3');
+  });
+
+  it('renders sections only for present values', () => {
+    const source = '{{#details}}D: {{details}}{{/details}}{{^details}}none{{/details}}';
+    expect(renderTemplate(source, { details: 'x' })).toBe('D: x');
+    expect(renderTemplate(source, { details: '' })).toBe('none');
+    expect(renderTemplate(source, {})).toBe('none');
+  });
+
+  it('drops the lines of standalone section tags', () => {
+    const source = 'a\n{{#b}}\nb: {{b}}\n{{/b}}\nc';
+    expect(renderTemplate(source, { b: 1 })).toBe('a\nb: 1\nc');
+    expect(renderTemplate(source, {})).toBe('a\nc');
+  });
+});
+
+describe('parseTemplate', () => {
+  it('lists the names used', () => {
+    expect(parseTemplate('{{#a}}{{b.c}}{{/a}}{{a}}').names).toEqual(['a', 'b.c']);
+  });
+
+  it('rejects mismatched and unclosed sections', () => {
+    expect(() => parseTemplate('x\n{{#a}}{{/b}}')).toThrow('Unexpected {{/b}} on line 2');
+    expect(() => parseTemplate('{{#a}}\nx')).toThrow('Unclosed section {{#a}} from line 1');
+  });
+});
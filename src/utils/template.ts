@@ -0,0 +1,131 @@
+/**
+ * A small Mustache-style template language for issue descriptions:
+ *
+ * - `{{name}}` or `{{parent.title}}` inserts a value; arrays are joined
+ *   with ", " and missing values render as nothing.
+ * - `{{#name}}...{{/name}}` renders its body when the value is present
+ *   and non-empty; `{{^name}}...{{/name}}` when it is not.
+ *
+ * A section tag alone on its line takes the whole line with it, so
+ * sections can be laid out on their own lines without leaving blanks.
+ */
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+export interface Template {
+  nodes: TemplateNode[];
+  /** Every name the template refers to, in order of first use. */
+  names: string[];
+}
+
+const TAG = /\{\{\s*([#^/]?)\s*([A-Za-z_][\w.]*)\s*\}\}/g;
+
+function lineNumber(source: string, index: number): number {
+  return source.slice(0, index).split('\n').length;
+}
+
+export function parseTemplate(source: string): Template {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; line: number; children: TemplateNode[] }[] = [];
+  const names: string[] = [];
+  let children = root;
+  let pos = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [tag, sigil, name] = match;
+    const start = match.index;
+    const end = start + tag.length;
+
+    let textEnd = start;
+    let next = end;
+    if (sigil) {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const newline = source.indexOf('\n', end);
+      const lineEnd = newline === -1 ? source.length : newline;
+      const standalone =
+        lineStart >= pos &&
+        /^[ \t]*$/.test(source.slice(lineStart, start)) &&
+        /^[ \t]*\r?$/.test(source.slice(end, lineEnd));
+      if (standalone) {
+        textEnd = lineStart;
+        next = newline === -1 ? lineEnd : newline + 1;
+      }
+    }
+
+    if (textEnd > pos) children.push({ type: 'text', value: source.slice(pos, textEnd) });
+    pos = next;
+
+    if (!names.includes(name)) names.push(name);
+
+    if (sigil === '#' || sigil === '^') {
+      const section: TemplateNode = { type: 'section', name, inverted: sigil === '^', children: [] };
+      children.push(section);
+      stack.push({ name, line: lineNumber(source, start), children });
+      children = section.children;
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new Error(`Unexpected {{/${name}}} on line ${lineNumber(source, start)}`);
+      }
+      children = open.children;
+    } else {
+      children.push({ type: 'value', name });
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new Error(`Unclosed section {{#${unclosed.name}}} from line ${unclosed.line}`);
+  }
+  if (pos < source.length) root.push({ type: 'text', value: source.slice(pos) });
+
+  return { nodes: root, names };
+}
+
+function lookup(context: Record<string, unknown>, name: string): unknown {
+  let value: unknown = context;
+  for (const key of name.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isPresent(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '';
+}
+
+function renderValue(value: unknown): string {
+  if (!isPresent(value)) return '';
+  if (Array.isArray(value)) return value.map(String).join(', ');
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], context: Record<string, unknown>): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'value') {
+      output += renderValue(lookup(context, node.name));
+    } else if (isPresent(lookup(context, node.name)) !== node.inverted) {
+      output += renderNodes(node.children, context);
+    }
+  }
+  return output;
+}
+
+const cache = new Map<string, Template>();
+
+export function renderTemplate(source: string, context: Record<string, unknown>): string {
+  let template = cache.get(source);
+  if (!template) {
+    template = parseTemplate(source);
+    cache.set(source, template);
+  }
+  return renderNodes(template.nodes, context);
+}